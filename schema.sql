@@ -1,15 +1,49 @@
 -- 创建笔记表
 CREATE TABLE IF NOT EXISTS notes (
     path TEXT PRIMARY KEY,
+    -- 查找键：NFC规范化并转为小写的路径，用于不区分大小写的查找
+    path_key TEXT,
     content TEXT NOT NULL DEFAULT '',
+    format TEXT NOT NULL DEFAULT 'html' CHECK(format IN ('html', 'markdown')),
     is_locked BOOLEAN DEFAULT 0,
-    lock_type TEXT CHECK(lock_type IN ('read', 'write', NULL)),
+    lock_type TEXT CHECK(lock_type IN ('read', 'write', 'append', NULL)),
     password_hash TEXT,
+    -- 只能查看的密码（仅用于访问锁定）：设置后 password_hash 为编辑密码
+    view_password_hash TEXT,
+    -- 端到端加密笔记：content为浏览器加密后的密文，服务器不解析其内容
+    encrypted BOOLEAN NOT NULL DEFAULT 0,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    view_count INTEGER DEFAULT 0
+    view_count INTEGER DEFAULT 0,
+    version INTEGER NOT NULL DEFAULT 1,
+    expires_at DATETIME,
+    remaining_views INTEGER,
+    burn_after_reading BOOLEAN DEFAULT 0,
+    deleted_at DATETIME,
+    deleted_by TEXT
 );
 
+-- 已有数据库升级：ALTER TABLE notes ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+-- 已有数据库升级：ALTER TABLE notes ADD COLUMN expires_at DATETIME;
+-- 已有数据库升级：ALTER TABLE notes ADD COLUMN remaining_views INTEGER;
+-- 已有数据库升级：ALTER TABLE notes ADD COLUMN burn_after_reading BOOLEAN DEFAULT 0;
+-- 已有数据库升级：ALTER TABLE notes ADD COLUMN format TEXT NOT NULL DEFAULT 'html' CHECK(format IN ('html', 'markdown'));
+-- 已有数据库升级：lock_type 约束新增 'append'，SQLite 不支持修改约束，需按以下步骤重建 notes 表：
+--   CREATE TABLE notes_new (...)  -- 使用上方的建表语句
+--   INSERT INTO notes_new (rowid, path, content, format, is_locked, lock_type, password_hash, created_at, updated_at,
+--     view_count, version, expires_at, remaining_views, burn_after_reading)
+--     SELECT rowid, path, content, format, is_locked, lock_type, password_hash, created_at, updated_at,
+--     view_count, version, expires_at, remaining_views, burn_after_reading FROM notes;
+--   DROP TABLE notes;
+--   ALTER TABLE notes_new RENAME TO notes;
+--   然后重新执行本文件以创建索引和触发器
+-- 已有数据库升级：ALTER TABLE notes ADD COLUMN deleted_at DATETIME;
+-- 已有数据库升级：ALTER TABLE notes ADD COLUMN deleted_by TEXT;
+-- 已有数据库升级：ALTER TABLE notes ADD COLUMN path_key TEXT;
+--   UPDATE notes SET path_key = lower(path) WHERE path_key IS NULL;  -- 此前的路径只包含ASCII字符
+-- 已有数据库升级：ALTER TABLE notes ADD COLUMN view_password_hash TEXT;
+-- 已有数据库升级：ALTER TABLE notes ADD COLUMN encrypted BOOLEAN NOT NULL DEFAULT 0;
+
 -- 创建管理日志表
 CREATE TABLE IF NOT EXISTS admin_logs (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -22,4 +56,118 @@ CREATE TABLE IF NOT EXISTS admin_logs (
 -- 创建索引以提高查询性能
 CREATE INDEX IF NOT EXISTS idx_notes_updated_at ON notes(updated_at DESC);
 CREATE INDEX IF NOT EXISTS idx_notes_view_count ON notes(view_count DESC);
-CREATE INDEX IF NOT EXISTS idx_admin_logs_timestamp ON admin_logs(timestamp DESC);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_notes_expires_at ON notes(expires_at);
+CREATE INDEX IF NOT EXISTS idx_notes_deleted_at ON notes(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_notes_path_key ON notes(path_key);
+CREATE INDEX IF NOT EXISTS idx_admin_logs_timestamp ON admin_logs(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_logs_action ON admin_logs(action, timestamp);
+
+-- 创建笔记修订历史表
+CREATE TABLE IF NOT EXISTS note_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    path TEXT NOT NULL,
+    content TEXT NOT NULL,
+    format TEXT NOT NULL DEFAULT 'html',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 已有数据库升级：ALTER TABLE note_revisions ADD COLUMN format TEXT NOT NULL DEFAULT 'html';
+
+CREATE INDEX IF NOT EXISTS idx_note_revisions_path ON note_revisions(path, id DESC);
+
+-- 创建附件表（文件内容存储在R2中）
+CREATE TABLE IF NOT EXISTS attachments (
+    id TEXT PRIMARY KEY,
+    path TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_path ON attachments(path);
+
+-- 创建路径别名表（笔记改名后旧路径重定向到新路径）
+CREATE TABLE IF NOT EXISTS note_aliases (
+    path TEXT PRIMARY KEY,
+    target TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_aliases_target ON note_aliases(target);
+
+-- 创建笔记模板表（新笔记可以从模板开始）
+CREATE TABLE IF NOT EXISTS note_templates (
+    name TEXT PRIMARY KEY,
+    description TEXT,
+    format TEXT NOT NULL DEFAULT 'html' CHECK(format IN ('html', 'markdown')),
+    content TEXT NOT NULL DEFAULT '',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 创建标签表及笔记与标签的多对多关联
+CREATE TABLE IF NOT EXISTS tags (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS note_tags (
+    path TEXT NOT NULL,
+    tag_id INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (path, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_tags_tag ON note_tags(tag_id);
+
+-- 笔记内容中的 [[路径]] 链接，保存时提取；target_key为目标路径的查找键
+CREATE TABLE IF NOT EXISTS note_links (
+    source TEXT NOT NULL,
+    target TEXT NOT NULL,
+    target_key TEXT NOT NULL,
+    PRIMARY KEY (source, target)
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_links_target ON note_links(target);
+CREATE INDEX IF NOT EXISTS idx_note_links_target_key ON note_links(target_key);
+
+-- 锁定笔记的分享链接，链接令牌只包含id，权限、过期时间和使用次数以此表为准
+CREATE TABLE IF NOT EXISTS share_links (
+    id TEXT PRIMARY KEY,
+    path TEXT NOT NULL,
+    access TEXT NOT NULL CHECK(access IN ('view', 'edit')),
+    expires_at DATETIME NOT NULL,
+    max_uses INTEGER,
+    use_count INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_path ON share_links(path);
+
+-- 创建全文搜索索引（纯文本，访问锁定笔记的正文单独存放在locked_body列）
+CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+    path,
+    body,
+    locked_body,
+    tokenize = 'trigram'
+);
+
+-- 删除笔记时同步删除索引
+CREATE TRIGGER IF NOT EXISTS notes_fts_delete AFTER DELETE ON notes
+BEGIN
+    DELETE FROM notes_fts WHERE rowid = OLD.rowid;
+END;
+
+-- 访问锁定状态变化时在body和locked_body之间移动正文
+CREATE TRIGGER IF NOT EXISTS notes_fts_lock AFTER UPDATE OF lock_type ON notes
+WHEN (OLD.lock_type IS 'read') != (NEW.lock_type IS 'read')
+BEGIN
+    UPDATE notes_fts SET
+        body = CASE WHEN NEW.lock_type IS 'read' THEN '' ELSE body || locked_body END,
+        locked_body = CASE WHEN NEW.lock_type IS 'read' THEN body || locked_body ELSE '' END
+    WHERE rowid = NEW.rowid;
+END;
+
+-- 已有数据库升级后，调用 POST /admin/api/search/reindex 为现有笔记建立索引
@@ -2,6 +2,29 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 
+// 笔记表的列定义，建表和重建时共用
+const NOTES_COLUMNS = `
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  path TEXT UNIQUE NOT NULL,
+  path_key TEXT,
+  content TEXT,
+  format TEXT NOT NULL DEFAULT 'html' CHECK(format IN ('html', 'markdown')),
+  is_locked BOOLEAN DEFAULT 0,
+  lock_type TEXT CHECK(lock_type IN ('read', 'write', 'append')),
+  password_hash TEXT,
+  view_password_hash TEXT,
+  encrypted BOOLEAN NOT NULL DEFAULT 0,
+  view_count INTEGER DEFAULT 0,
+  version INTEGER NOT NULL DEFAULT 1,
+  expires_at DATETIME,
+  remaining_views INTEGER,
+  burn_after_reading BOOLEAN DEFAULT 0,
+  deleted_at DATETIME,
+  deleted_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+`;
+
 export interface D1Result<T = unknown> {
   results: T[];
   success: boolean;
@@ -40,24 +63,157 @@ export class D1Database {
 
   private initTables() {
     // 创建笔记表
+    this.db.exec(`CREATE TABLE IF NOT EXISTS notes (${NOTES_COLUMNS})`);
+
+    // 为旧版本数据库补充新增的列
+    this.addColumnIfMissing('notes', 'version', 'INTEGER NOT NULL DEFAULT 1');
+    this.addColumnIfMissing('notes', 'expires_at', 'DATETIME');
+    this.addColumnIfMissing('notes', 'remaining_views', 'INTEGER');
+    this.addColumnIfMissing('notes', 'burn_after_reading', 'BOOLEAN DEFAULT 0');
+    this.addColumnIfMissing('notes', 'format', "TEXT NOT NULL DEFAULT 'html' CHECK(format IN ('html', 'markdown'))");
+    this.addColumnIfMissing('notes', 'deleted_at', 'DATETIME');
+    this.addColumnIfMissing('notes', 'deleted_by', 'TEXT');
+    this.addColumnIfMissing('notes', 'path_key', 'TEXT');
+    this.addColumnIfMissing('notes', 'view_password_hash', 'TEXT');
+    this.addColumnIfMissing('notes', 'encrypted', 'BOOLEAN NOT NULL DEFAULT 0');
+    this.rebuildNotesIfOutdated();
+
+    // 补充查找键（此前的路径只包含ASCII字符，lower即可）
+    this.db.exec('UPDATE notes SET path_key = lower(path) WHERE path_key IS NULL');
+
+    // 创建索引
     this.db.exec(`
-      CREATE TABLE IF NOT EXISTS notes (
+      CREATE INDEX IF NOT EXISTS idx_notes_path ON notes(path);
+      CREATE INDEX IF NOT EXISTS idx_notes_updated ON notes(updated_at);
+      CREATE INDEX IF NOT EXISTS idx_notes_expires_at ON notes(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_notes_deleted_at ON notes(deleted_at);
+      CREATE INDEX IF NOT EXISTS idx_notes_path_key ON notes(path_key);
+    `);
+
+    // 创建修订历史表
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS note_revisions (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        path TEXT UNIQUE NOT NULL,
-        content TEXT,
-        is_locked BOOLEAN DEFAULT 0,
-        lock_type TEXT CHECK(lock_type IN ('read', 'write')),
-        password_hash TEXT,
-        view_count INTEGER DEFAULT 0,
+        path TEXT NOT NULL,
+        content TEXT NOT NULL,
+        format TEXT NOT NULL DEFAULT 'html',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_note_revisions_path ON note_revisions(path, id DESC);
+    `);
+    this.addColumnIfMissing('note_revisions', 'format', "TEXT NOT NULL DEFAULT 'html'");
+
+    // 创建附件表（文件内容存储在存储目录中）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS attachments (
+        id TEXT PRIMARY KEY,
+        path TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        content_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_attachments_path ON attachments(path);
+    `);
+
+    // 创建路径别名表（笔记改名后旧路径重定向到新路径）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS note_aliases (
+        path TEXT PRIMARY KEY,
+        target TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_note_aliases_target ON note_aliases(target);
+    `);
+
+    // 创建笔记模板表（新笔记可以从模板开始）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS note_templates (
+        name TEXT PRIMARY KEY,
+        description TEXT,
+        format TEXT NOT NULL DEFAULT 'html' CHECK(format IN ('html', 'markdown')),
+        content TEXT NOT NULL DEFAULT '',
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
+      );
     `);
 
-    // 创建索引
+    // 创建标签表及笔记与标签的多对多关联
     this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_notes_path ON notes(path);
-      CREATE INDEX IF NOT EXISTS idx_notes_updated ON notes(updated_at);
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE TABLE IF NOT EXISTS note_tags (
+        path TEXT NOT NULL,
+        tag_id INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (path, tag_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_note_tags_tag ON note_tags(tag_id);
+    `);
+
+    // 创建笔记链接表
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS note_links (
+        source TEXT NOT NULL,
+        target TEXT NOT NULL,
+        target_key TEXT NOT NULL,
+        PRIMARY KEY (source, target)
+      );
+      CREATE INDEX IF NOT EXISTS idx_note_links_target ON note_links(target);
+      CREATE INDEX IF NOT EXISTS idx_note_links_target_key ON note_links(target_key);
+    `);
+
+    // 创建分享链接表
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS share_links (
+        id TEXT PRIMARY KEY,
+        path TEXT NOT NULL,
+        access TEXT NOT NULL CHECK(access IN ('view', 'edit')),
+        expires_at DATETIME NOT NULL,
+        max_uses INTEGER,
+        use_count INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_share_links_path ON share_links(path);
+    `);
+
+    // 创建管理日志表（记录笔记密码尝试失败等安全事件）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS admin_logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        action TEXT NOT NULL,
+        target_path TEXT,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        details TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_admin_logs_action ON admin_logs(action, timestamp);
+    `);
+
+    // 创建全文搜索索引及同步触发器（正文由应用写入纯文本）
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+        path,
+        body,
+        locked_body,
+        tokenize = 'trigram'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS notes_fts_delete AFTER DELETE ON notes
+      BEGIN
+        DELETE FROM notes_fts WHERE rowid = OLD.rowid;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS notes_fts_lock AFTER UPDATE OF lock_type ON notes
+      WHEN (OLD.lock_type IS 'read') != (NEW.lock_type IS 'read')
+      BEGIN
+        UPDATE notes_fts SET
+          body = CASE WHEN NEW.lock_type IS 'read' THEN '' ELSE body || locked_body END,
+          locked_body = CASE WHEN NEW.lock_type IS 'read' THEN body || locked_body ELSE '' END
+        WHERE rowid = NEW.rowid;
+      END;
     `);
 
     // 创建更新时间触发器
@@ -70,6 +226,34 @@ export class D1Database {
     `);
   }
 
+  // 旧版本的lock_type约束不包含append，SQLite无法修改约束，重建笔记表（保留rowid，与搜索索引对应）
+  private rebuildNotesIfOutdated() {
+    const table = this.db
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'notes'")
+      .get() as { sql: string } | undefined;
+    if (!table || table.sql.includes("'append'")) {
+      return;
+    }
+
+    const columns = (this.db.prepare('PRAGMA table_info(notes)').all() as { name: string }[])
+      .map(col => col.name)
+      .join(', ');
+
+    this.db.transaction(() => {
+      this.db.exec(`CREATE TABLE notes_rebuild (${NOTES_COLUMNS})`);
+      this.db.exec(`INSERT INTO notes_rebuild (rowid, ${columns}) SELECT rowid, ${columns} FROM notes`);
+      this.db.exec('DROP TABLE notes');
+      this.db.exec('ALTER TABLE notes_rebuild RENAME TO notes');
+    })();
+  }
+
+  private addColumnIfMissing(table: string, column: string, definition: string) {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(col => col.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
   prepare(sql: string): D1PreparedStatement {
     const stmt = this.db.prepare(sql);
     const boundValues: any[] = [];
@@ -1,4 +1,5 @@
 import { serve } from '@hono/node-server';
+import { createNodeWebSocket } from '@hono/node-ws';
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
@@ -14,15 +15,26 @@ import { KVStore } from './adapters/cache';
 import { R2Storage } from './adapters/storage';
 
 // 导入路由
-import apiRoutes from './routes/api';
+import apiRoutes, { rawRoutes } from './routes/api';
 import adminRoutes from './routes/admin';
 import noteRoutes from './routes/note';
 
 // 导入中间件
 import { rateLimiter } from './middleware/rateLimiter';
+import { csrfProtection, originCheck, parseAllowedOrigins, isAllowedOrigin } from './middleware/csrf';
+
+// 导入实时协作
+import { collabEvents } from './realtime/hub';
+import { validatePath } from './utils/crypto';
+import { purgeExpiredNotes } from './utils/expiry';
+import { purgeOrphanedAttachments } from './utils/attachments';
+import { emptyTrash } from './utils/trash';
+import { purgeExpiredShareLinks } from './utils/shares';
+import { rebuildSearchIndex } from './utils/search';
 
 // 创建应用实例
 const app = new Hono();
+const { injectWebSocket, upgradeWebSocket } = createNodeWebSocket({ app });
 
 // 初始化适配器
 const db = new D1Database(process.env.DATABASE_PATH || './data/cloudnote.db');
@@ -47,31 +59,67 @@ const env = {
     console.error('⚠️  ADMIN_PASSWORD not set! Please set ADMIN_PASSWORD environment variable.');
     process.exit(1);
   })(),
+  PATH_DEFAULT_LENGTH: process.env.PATH_DEFAULT_LENGTH || '4',
+  PATH_STRATEGY: process.env.PATH_STRATEGY || 'random',
+  PATH_ALPHABET: process.env.PATH_ALPHABET || 'abcdefghijkmnpqrstuvwxyz23456789',
   PATH_MIN_LENGTH: process.env.PATH_MIN_LENGTH || '1',
   PATH_MAX_LENGTH: process.env.PATH_MAX_LENGTH || '20',
+  PATH_MAX_DEPTH: process.env.PATH_MAX_DEPTH || '5',
+  PATH_CASE_POLICY: process.env.PATH_CASE_POLICY || 'sensitive',
   RATE_LIMIT_PER_MINUTE: process.env.RATE_LIMIT_PER_MINUTE || '60',
-  SESSION_DURATION: process.env.SESSION_DURATION || '86400'
+  SESSION_DURATION: process.env.SESSION_DURATION || '86400',
+  NOTE_SESSION_DURATION: process.env.NOTE_SESSION_DURATION || '3600',
+  UNLOCK_MAX_ATTEMPTS: process.env.UNLOCK_MAX_ATTEMPTS || '5',
+  UNLOCK_LOCKOUT_DURATION: process.env.UNLOCK_LOCKOUT_DURATION || '900',
+  REVISION_LIMIT: process.env.REVISION_LIMIT || '50',
+  ATTACHMENT_MAX_SIZE: process.env.ATTACHMENT_MAX_SIZE || '10485760',
+  TRASH_RETENTION_DAYS: process.env.TRASH_RETENTION_DAYS || '30',
+  CORS_ORIGINS: process.env.CORS_ORIGINS || ''
 };
 
 // 全局中间件
 app.use('*', logger());
+// 只允许CORS_ORIGINS中的来源跨域访问，同源页面不受影响
 app.use('*', cors({
-  origin: '*',
+  origin: (origin) => isAllowedOrigin(origin, parseAllowedOrigins(env.CORS_ORIGINS)) ? origin : null,
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization']
+  allowHeaders: ['Content-Type', 'Authorization', 'If-Match', 'X-Note-Password', 'X-Note-Token', 'X-Note-Share', 'X-Client-Id'],
+  exposeHeaders: ['ETag']
 }));
 
 // 添加环境到上下文
 app.use('*', async (c, next) => {
-  c.env = env;
+  // 合并到node-server传入的env上，保留WebSocket升级所需的原始请求
+  c.env = Object.assign(c.env ?? {}, env);
   await next();
 });
 
 // 速率限制中间件
 app.use('/api/*', rateLimiter);
+app.use('/:path{.+}/raw', rateLimiter);
+
+// 笔记接口需要CSRF令牌，管理接口使用Authorization请求头认证，只检查来源
+app.use('/api/note/*', csrfProtection);
+app.use('/admin/*', originCheck);
+
+// 实时协作WebSocket
+app.get(
+  '/api/note/:path/ws',
+  async (c, next) => {
+    const minLength = parseInt(env.PATH_MIN_LENGTH) || 1;
+    const maxLength = parseInt(env.PATH_MAX_LENGTH) || 20;
+    const maxDepth = parseInt(env.PATH_MAX_DEPTH) || 5;
+    if (!validatePath(c.req.param('path'), minLength, maxLength, maxDepth)) {
+      return c.json({ error: 'Invalid path' }, 400);
+    }
+    await next();
+  },
+  upgradeWebSocket((c) => collabEvents(c.req.param('path')!, env.DB, env.JWT_SECRET))
+);
 
 // 挂载路由
 app.route('/api', apiRoutes);
+app.route('/', rawRoutes);
 app.route('/admin', adminRoutes);
 app.route('/', noteRoutes);
 
@@ -106,7 +154,7 @@ console.log(`
 🔐 Admin user: ${env.ADMIN_USER}
 `);
 
-serve({
+const server = serve({
   fetch: app.fetch,
   port,
   hostname: host
@@ -120,6 +168,35 @@ serve({
 Press Ctrl+C to stop the server.
 `);
 });
+injectWebSocket(server);
+
+// 升级后首次启动时为已有笔记建立全文搜索索引
+(async () => {
+  const indexed = await db.prepare('SELECT COUNT(*) as count FROM notes_fts').first<{ count: number }>();
+  const notes = await db.prepare('SELECT COUNT(*) as count FROM notes').first<{ count: number }>();
+  if (!indexed?.count && notes?.count) {
+    const count = await rebuildSearchIndex(db);
+    console.log(`🔎 Indexed ${count} notes for search`);
+  }
+})().catch((error) => {
+  console.error('Error building search index:', error);
+});
+
+// 定时清理过期笔记、孤立附件、超过保留期限的回收站笔记和过期的分享链接
+const cleanupInterval = (parseInt(process.env.CLEANUP_INTERVAL || '600') || 600) * 1000;
+setInterval(async () => {
+  try {
+    const notes = await purgeExpiredNotes(db, cache);
+    const attachments = await purgeOrphanedAttachments(db, storage);
+    const trashed = await emptyTrash(db, storage, parseInt(env.TRASH_RETENTION_DAYS) || 30);
+    await purgeExpiredShareLinks(db);
+    if (notes > 0 || attachments > 0 || trashed > 0) {
+      console.log(`🧹 Purged ${notes} expired notes, ${trashed} trashed notes and ${attachments} orphaned attachments`);
+    }
+  } catch (error) {
+    console.error('Error purging expired notes:', error);
+  }
+}, cleanupInterval);
 
 // 优雅关闭
 process.on('SIGINT', () => {
@@ -0,0 +1,122 @@
+import { Context, Next } from 'hono';
+import { getCookie, setCookie } from 'hono/cookie';
+import { AppContext } from '../types';
+import { createCsrfToken, verifyCsrfToken } from '../utils/jwt';
+
+const CSRF_COOKIE = 'csrf_token';
+const CSRF_HEADER = 'X-CSRF-Token';
+// 令牌有效30天，每次打开笔记页面时续期Cookie
+const CSRF_TOKEN_DURATION = 30 * 86400;
+
+// 请求来源：同源、CORS_ORIGINS中允许的来源、不允许的来源，或无法判断（没有Origin和Referer）
+type RequestSource = 'same-origin' | 'allowed' | 'blocked' | 'unknown';
+
+// CORS_ORIGINS：逗号分隔的允许跨域访问的来源（如 https://app.example.com），* 表示任意来源
+export function parseAllowedOrigins(value: string | undefined): string[] {
+  return (value || '').split(',').map((origin) => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+}
+
+export function isAllowedOrigin(origin: string, allowed: string[]): boolean {
+  return allowed.includes('*') || allowed.includes(origin);
+}
+
+// 优先使用Origin请求头，没有时取Referer的来源
+function requestOrigin(c: Context): string | null {
+  const origin = c.req.header('Origin');
+  if (origin) {
+    return origin;
+  }
+
+  const referer = c.req.header('Referer');
+  if (!referer) {
+    return null;
+  }
+
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return 'null';
+  }
+}
+
+// 只比较主机名和端口：反向代理终止HTTPS时服务器看到的协议与浏览器不同
+function isSameOrigin(origin: string, url: string): boolean {
+  try {
+    return new URL(origin).host === new URL(url).host;
+  } catch {
+    return false;
+  }
+}
+
+function requestSource(c: AppContext): RequestSource {
+  const origin = requestOrigin(c);
+  if (origin === null) {
+    return 'unknown';
+  }
+  if (isSameOrigin(origin, c.req.url)) {
+    return 'same-origin';
+  }
+
+  return isAllowedOrigin(origin, parseAllowedOrigins(c.env.CORS_ORIGINS)) ? 'allowed' : 'blocked';
+}
+
+function isWebSocketUpgrade(c: Context): boolean {
+  return c.req.header('Upgrade')?.toLowerCase() === 'websocket';
+}
+
+// 修改类请求和WebSocket握手（不受CORS限制）需要检查
+function needsCheck(c: Context): boolean {
+  return !['GET', 'HEAD', 'OPTIONS'].includes(c.req.method) || isWebSocketUpgrade(c);
+}
+
+// 来源检查：Origin（或Referer）须与本站同源或在CORS_ORIGINS中。
+// 两者都没有的请求来自脚本等非浏览器客户端，不存在CSRF问题，直接放行
+export async function originCheck(c: AppContext, next: Next) {
+  if (needsCheck(c) && requestSource(c) === 'blocked') {
+    return c.json({ error: 'Cross-origin request blocked' }, 403);
+  }
+
+  await next();
+}
+
+// 笔记接口的CSRF防护：在来源检查之外，浏览器发起的同源请求还需在X-CSRF-Token请求头中
+// 带上与Cookie相同的签名令牌（双重提交）。CORS_ORIGINS中的来源不会携带本站的Cookie，只检查来源
+export async function csrfProtection(c: AppContext, next: Next) {
+  if (!needsCheck(c)) {
+    return next();
+  }
+
+  const source = requestSource(c);
+  if (source === 'blocked') {
+    return c.json({ error: 'Cross-origin request blocked' }, 403);
+  }
+
+  // WebSocket握手无法设置请求头，只检查来源
+  const fromBrowser = source === 'same-origin' || (source === 'unknown' && !!c.req.header('Sec-Fetch-Site'));
+  if (fromBrowser && !isWebSocketUpgrade(c)) {
+    const token = c.req.header(CSRF_HEADER);
+    if (!token || token !== getCookie(c, CSRF_COOKIE) || !await verifyCsrfToken(token, c.env.JWT_SECRET)) {
+      return c.json({ error: 'Invalid CSRF token' }, 403);
+    }
+  }
+
+  await next();
+}
+
+// 笔记页面使用的CSRF令牌：沿用Cookie中仍然有效的令牌，同时打开的其他页面不受影响
+export async function issueCsrfToken(c: Context<{ Bindings: AppContext['env'] }>): Promise<string> {
+  const existing = getCookie(c, CSRF_COOKIE);
+  const token = existing && await verifyCsrfToken(existing, c.env.JWT_SECRET)
+    ? existing
+    : await createCsrfToken(c.env.JWT_SECRET, CSRF_TOKEN_DURATION);
+
+  setCookie(c, CSRF_COOKIE, token, {
+    path: '/',
+    httpOnly: true,
+    secure: new URL(c.req.url).protocol === 'https:',
+    sameSite: 'Strict',
+    maxAge: CSRF_TOKEN_DURATION
+  });
+
+  return token;
+}
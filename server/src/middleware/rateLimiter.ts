@@ -9,7 +9,8 @@ export async function rateLimiter(c: AppContext, next: Next) {
   
   // 只对关键路径进行速率限制
   const protectedPaths = ['/api/note/', '/api/admin/', '/admin/api/'];
-  const needsRateLimit = protectedPaths.some(path => c.req.path.startsWith(path));
+  const needsRateLimit = protectedPaths.some(path => c.req.path.startsWith(path)) ||
+    /^\/.+\/raw$/.test(c.req.path); // 纯文本写入接口（包括多级路径）
   
   if (!needsRateLimit) {
     return next();
@@ -0,0 +1,32 @@
+import type { NoteEvent } from '../types';
+
+type NoteEventListener = (event: NoteEvent) => void;
+
+// 每个路径的SSE订阅者（单进程内广播）
+const listeners = new Map<string, Set<NoteEventListener>>();
+
+export function subscribeNoteEvents(path: string, listener: NoteEventListener): () => void {
+  let pathListeners = listeners.get(path);
+  if (!pathListeners) {
+    pathListeners = new Set();
+    listeners.set(path, pathListeners);
+  }
+  pathListeners.add(listener);
+
+  return () => {
+    pathListeners!.delete(listener);
+    if (pathListeners!.size === 0) {
+      listeners.delete(path);
+    }
+  };
+}
+
+export function publishNoteEvent(path: string, event: NoteEvent) {
+  listeners.get(path)?.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error publishing note event:', error);
+    }
+  });
+}
@@ -0,0 +1,67 @@
+import type { WSEvents } from 'hono/ws';
+import type { D1Database } from '../adapters/database';
+import { Note } from '../types';
+import { CollabRoom, resolveNoteAccess } from './room';
+import { subscribeNoteEvents } from './events';
+
+interface RoomEntry {
+  room: CollabRoom;
+  unsubscribe: () => void;
+}
+
+// 进程内的协作房间表，每个笔记路径一个房间
+const rooms = new Map<string, RoomEntry>();
+
+function getRoom(path: string, db: D1Database, secret: string): CollabRoom {
+  let entry = rooms.get(path);
+  if (!entry) {
+    const room = new CollabRoom(async (token) => {
+      const note = await db
+        .prepare('SELECT path, is_locked, lock_type, password_hash, view_password_hash, encrypted, deleted_at, expires_at, remaining_views FROM notes WHERE path = ?')
+        .bind(path)
+        .first<Note>();
+      return resolveNoteAccess(note, token, secret);
+    });
+
+    // 锁定状态变化后重新检查已加入连接的权限
+    const unsubscribe = subscribeNoteEvents(path, (event) => {
+      if (event.type === 'locked' || event.type === 'unlocked') {
+        room.revalidate().catch((error) => console.error('Collab revalidate error:', error));
+      }
+    });
+
+    entry = { room, unsubscribe };
+    rooms.set(path, entry);
+  }
+  return entry.room;
+}
+
+// 为单个WebSocket连接创建事件处理器
+export function collabEvents(path: string, db: D1Database, secret: string): WSEvents {
+  let room: CollabRoom;
+  let sessionId: string;
+
+  return {
+    onOpen(_event, ws) {
+      room = getRoom(path, db, secret);
+      sessionId = room.connect({
+        send: (data) => ws.send(data),
+        close: (code, reason) => ws.close(code, reason)
+      });
+    },
+    onMessage(event, ws) {
+      // 查询权限等操作失败时断开该连接，客户端稍后重连
+      room.receive(sessionId, String(event.data)).catch((error) => {
+        console.error('Collab message error:', error);
+        ws.close(1011, 'Internal error');
+      });
+    },
+    onClose() {
+      room.disconnect(sessionId);
+      if (room.size === 0) {
+        rooms.get(path)?.unsubscribe();
+        rooms.delete(path);
+      }
+    }
+  };
+}
@@ -1,8 +1,22 @@
 import { Hono } from 'hono';
-import { AppContext, Note, AdminStats } from '../types';
+import { AppContext, LockType, Note, NoteFormat, AdminStats, SearchResult } from '../types';
 import { createJWT } from '../utils/jwt';
 import { requireAuth } from '../middleware/auth';
-import { verifyPassword, hashPassword } from '../utils/crypto';
+import { verifyPassword, hashPassword, validatePath, pathKey } from '../utils/crypto';
+import { publishNoteEvent } from '../realtime/events';
+import { trashNote, restoreNote, listTrash, purgeTrashedNote } from '../utils/trash';
+import { resolveAlias, isPathTaken, renameNote } from '../utils/rename';
+import { indexNote, rebuildSearchIndex, searchNotes } from '../utils/search';
+import { updateNoteLinks, rebuildNoteLinks, listBrokenLinks } from '../utils/links';
+import { listAttackedNotes } from '../utils/attempts';
+import { listShareLinks, revokeShareLink, deleteShareLinks } from '../utils/shares';
+import { isNoteFormat } from '../utils/markdown';
+import { sanitizeHtml } from '../utils/sanitize';
+import { isEncryptedContent } from '../utils/encryption';
+import { recordRevision } from '../utils/revisions';
+import { isViewLimited } from '../utils/expiry';
+import { isValidTemplateName, listTemplates, saveTemplate, deleteTemplate } from '../utils/templates';
+import { TAGGED_PATHS, normalizeTag, listTags, withTags } from '../utils/tags';
 
 const admin = new Hono<{ Bindings: AppContext['env'] }>();
 
@@ -40,15 +54,15 @@ admin.post('/login', async (c) => {
 // 获取统计信息
 admin.get('/stats', requireAuth, async (c) => {
   const totalNotes = await c.env.DB
-    .prepare('SELECT COUNT(*) as count FROM notes')
+    .prepare('SELECT COUNT(*) as count FROM notes WHERE deleted_at IS NULL')
     .first<{ count: number }>();
   
   const lockedNotes = await c.env.DB
-    .prepare('SELECT COUNT(*) as count FROM notes WHERE is_locked = 1')
+    .prepare('SELECT COUNT(*) as count FROM notes WHERE is_locked = 1 AND deleted_at IS NULL')
     .first<{ count: number }>();
   
   const totalViews = await c.env.DB
-    .prepare('SELECT SUM(view_count) as total FROM notes')
+    .prepare('SELECT SUM(view_count) as total FROM notes WHERE deleted_at IS NULL')
     .first<{ total: number }>();
   
   const stats: AdminStats = {
@@ -65,45 +79,100 @@ admin.get('/notes', requireAuth, async (c) => {
   const page = parseInt(c.req.query('page') || '1');
   const limit = parseInt(c.req.query('limit') || '20');
   const search = c.req.query('search') || '';
+  const tag = normalizeTag(c.req.query('tag') || '');
   const offset = (page - 1) * limit;
   
-  let query = 'SELECT * FROM notes';
-  let countQuery = 'SELECT COUNT(*) as count FROM notes';
-  const params: any[] = [];
+  let notes: Array<Note | SearchResult>;
+  let total: number;
   
   if (search) {
-    query += ' WHERE path LIKE ? OR content LIKE ?';
-    countQuery += ' WHERE path LIKE ? OR content LIKE ?';
-    params.push(`%${search}%`, `%${search}%`);
+    // 全文搜索，按相关度排序并返回高亮片段
+    const found = await searchNotes(c.env.DB, search, {
+      limit,
+      offset,
+      includeReadLocked: true
+    });
+    notes = found.results;
+    total = found.total;
+  } else {
+    // 指定标签时只列出带有该标签的笔记
+    const where = tag ? `deleted_at IS NULL AND path IN (${TAGGED_PATHS})` : 'deleted_at IS NULL';
+    const params = tag ? [tag] : [];
+    
+    const result = await c.env.DB
+      .prepare(`SELECT * FROM notes WHERE ${where} ORDER BY updated_at DESC LIMIT ? OFFSET ?`)
+      .bind(...params, limit, offset)
+      .all<Note>();
+    
+    const count = await c.env.DB
+      .prepare(`SELECT COUNT(*) as count FROM notes WHERE ${where}`)
+      .bind(...params)
+      .first<{ count: number }>();
+    
+    notes = result.results;
+    total = count?.count || 0;
   }
   
-  query += ' ORDER BY updated_at DESC LIMIT ? OFFSET ?';
-  
-  const result = await c.env.DB
-    .prepare(query)
-    .bind(...params, limit, offset)
-    .all<Note>();
-  
-  const total = await c.env.DB
-    .prepare(countQuery)
-    .bind(...(search ? params : []))
-    .first<{ count: number }>();
-  
   return c.json({
-    notes: result.results,
-    total: total?.count || 0,
+    notes: await withTags(c.env.DB, notes),
+    total,
     page,
     limit,
-    totalPages: Math.ceil((total?.count || 0) / limit)
+    totalPages: Math.ceil(total / limit)
   });
 });
 
+// 获取所有标签及其笔记数量（包括访问锁定的笔记）
+admin.get('/tags', requireAuth, async (c) => {
+  return c.json({ tags: await listTags(c.env.DB, true) });
+});
+
+// 获取指向不存在的笔记的链接
+admin.get('/links/broken', requireAuth, async (c) => {
+  return c.json({ links: await listBrokenLinks(c.env.DB, c.env.PATH_CASE_POLICY === 'insensitive') });
+});
+
+// 获取最近密码尝试失败较多、可能正在被暴力破解的笔记
+admin.get('/unlock-attempts', requireAuth, async (c) => {
+  const notes = await listAttackedNotes(c.env.DB, c.env.CACHE, {
+    maxAttempts: parseInt(c.env.UNLOCK_MAX_ATTEMPTS) || 5,
+    lockoutDuration: parseInt(c.env.UNLOCK_LOCKOUT_DURATION) || 900
+  });
+  
+  return c.json({ notes });
+});
+
+// 获取所有笔记的分享链接
+admin.get('/shares', requireAuth, async (c) => {
+  return c.json({ shares: await listShareLinks(c.env.DB, null) });
+});
+
+// 撤销分享链接
+admin.delete('/shares/:id', requireAuth, async (c) => {
+  const id = c.req.param('id');
+  
+  const revoked = await revokeShareLink(c.env.DB, id!, null);
+  if (!revoked) {
+    return c.json({ error: 'Share link not found' }, 404);
+  }
+  
+  return c.json({ success: true });
+});
+
+// 重建全文搜索索引和笔记链接
+admin.post('/search/reindex', requireAuth, async (c) => {
+  const count = await rebuildSearchIndex(c.env.DB);
+  await rebuildNoteLinks(c.env.DB);
+  
+  return c.json({ success: true, count });
+});
+
 // 获取单个笔记
 admin.get('/notes/:path', requireAuth, async (c) => {
   const path = c.req.param('path');
   
   const note = await c.env.DB
-    .prepare('SELECT * FROM notes WHERE path = ?')
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
     .bind(path)
     .first<Note>();
   
@@ -111,6 +180,11 @@ admin.get('/notes/:path', requireAuth, async (c) => {
     return c.json({ error: 'Note not found' }, 404);
   }
   
+  // 编辑框直接显示富文本内容，早于当前过滤规则保存的内容在这里再过滤一次
+  if (note.format === 'html' && !note.encrypted) {
+    return c.json({ ...note, content: sanitizeHtml(note.content || '') });
+  }
+  
   return c.json(note);
 });
 
@@ -120,13 +194,13 @@ admin.put('/notes/:path', requireAuth, async (c) => {
   const { content, is_locked, lock_type, password } = await c.req.json<{
     content?: string;
     is_locked?: boolean;
-    lock_type?: 'read' | 'write';
+    lock_type?: LockType;
     password?: string;
   }>();
   
   // 检查笔记是否存在
   const existing = await c.env.DB
-    .prepare('SELECT * FROM notes WHERE path = ?')
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
     .bind(path)
     .first<Note>();
   
@@ -134,13 +208,19 @@ admin.put('/notes/:path', requireAuth, async (c) => {
     return c.json({ error: 'Note not found' }, 404);
   }
   
+  // 加密笔记的内容只能由持有密钥的浏览器修改，后台只能修改锁定设置
+  if (content !== undefined && existing.encrypted) {
+    return c.json({ error: 'Note is encrypted' }, 400);
+  }
+  
   // 构建更新查询
   const updates: string[] = [];
   const values: any[] = [];
+  const newContent = content === undefined || existing.format === 'markdown' ? content : sanitizeHtml(content);
   
-  if (content !== undefined) {
-    updates.push('content = ?');
-    values.push(content);
+  if (newContent !== undefined) {
+    updates.push('content = ?', 'version = version + 1');
+    values.push(newContent);
   }
   
   if (is_locked !== undefined) {
@@ -156,9 +236,15 @@ admin.put('/notes/:path', requireAuth, async (c) => {
         updates.push('password_hash = ?');
         values.push(passwordHash);
       }
+      
+      // 查看密码只用于访问锁定，更换密码后也不再保留
+      if (password || lock_type !== 'read') {
+        updates.push('view_password_hash = NULL');
+      }
     } else if (!is_locked) {
       updates.push('lock_type = NULL');
       updates.push('password_hash = NULL');
+      updates.push('view_password_hash = NULL');
     }
   }
   
@@ -174,27 +260,150 @@ admin.put('/notes/:path', requireAuth, async (c) => {
     .bind(...values)
     .run();
   
+  // 与编辑器保存时一样记录修订历史，修改前的内容可以从历史中恢复（限制查看次数的笔记不保留历史）
+  if (newContent !== undefined && !isViewLimited(existing)) {
+    const revisionLimit = parseInt(c.env.REVISION_LIMIT) || 50;
+    await recordRevision(c.env.DB, path!, newContent, revisionLimit, existing.content, existing.format);
+  }
+  
+  // 更换或解除锁定后此前生成的分享链接失效
+  if (is_locked === false || (is_locked && password)) {
+    await deleteShareLinks(c.env.DB, path!);
+  }
+  
+  // 更新搜索索引和链接
+  if (content !== undefined) {
+    await indexNote(c.env.DB, path!);
+    await updateNoteLinks(c.env.DB, path!);
+  }
+  
   // 清除缓存
   await c.env.CACHE.delete(`note:${path}`);
   
+  // 通知正在查看该笔记的客户端
+  if (content !== undefined) {
+    publishNoteEvent(path!, { type: 'saved', version: existing.version + 1 });
+  }
+  if (is_locked !== undefined) {
+    publishNoteEvent(path!, is_locked ? { type: 'locked', lock_type } : { type: 'unlocked' });
+  }
+  
   return c.json({ success: true });
 });
 
-// 删除笔记
+// 删除笔记（移入回收站，保留期限内可以恢复）
 admin.delete('/notes/:path', requireAuth, async (c) => {
   const path = c.req.param('path');
   
-  const result = await c.env.DB
-    .prepare('DELETE FROM notes WHERE path = ?')
-    .bind(path)
-    .run();
+  const trashed = await trashNote(c.env.DB, c.env.CACHE, path!, c.get('user').sub);
+  if (!trashed) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
   
-  if (result.meta?.changes === 0) {
+  return c.json({ success: true });
+});
+
+// 重命名笔记（默认保留旧路径作为重定向别名）
+admin.post('/notes/:path/rename', requireAuth, async (c) => {
+  const path = c.req.param('path');
+  const { new_path, keep_alias } = await c.req.json<{
+    new_path: string;
+    keep_alias?: boolean;
+  }>();
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH) || 1;
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH) || 20;
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH) || 5;
+  
+  if (typeof new_path !== 'string' || !validatePath(new_path, minLength, maxLength, maxDepth) || new_path === path) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  const result = await renameNote(c.env.DB, c.env.CACHE, path!, new_path, keep_alias !== false, c.env.PATH_CASE_POLICY === 'insensitive');
+  if (result === 'exists') {
+    return c.json({ error: 'Path already exists' }, 409);
+  }
+  if (result === 'not_found') {
     return c.json({ error: 'Note not found' }, 404);
   }
   
-  // 清除缓存
-  await c.env.CACHE.delete(`note:${path}`);
+  // 通知正在查看该笔记的客户端
+  publishNoteEvent(path!, { type: 'renamed', path: new_path });
+  
+  return c.json({ success: true, path: new_path });
+});
+
+// 获取回收站中的笔记
+admin.get('/trash', requireAuth, async (c) => {
+  const notes = await listTrash(c.env.DB);
+  
+  return c.json({
+    notes,
+    retentionDays: parseInt(c.env.TRASH_RETENTION_DAYS) || 30
+  });
+});
+
+// 从回收站恢复笔记
+admin.post('/trash/:path/restore', requireAuth, async (c) => {
+  const path = c.req.param('path');
+  
+  const restored = await restoreNote(c.env.DB, c.env.CACHE, path!);
+  if (!restored) {
+    return c.json({ error: 'Note not found in trash' }, 404);
+  }
+  
+  return c.json({ success: true });
+});
+
+// 彻底删除回收站中的笔记（包括修订历史和附件）
+admin.delete('/trash/:path', requireAuth, async (c) => {
+  const path = c.req.param('path');
+  
+  const purged = await purgeTrashedNote(c.env.DB, c.env.STORAGE, path!);
+  if (!purged) {
+    return c.json({ error: 'Note not found in trash' }, 404);
+  }
+  
+  return c.json({ success: true });
+});
+
+// 获取笔记模板
+admin.get('/templates', requireAuth, async (c) => {
+  const templates = await listTemplates(c.env.DB);
+  
+  return c.json({ templates });
+});
+
+// 创建或更新笔记模板
+admin.put('/templates/:name', requireAuth, async (c) => {
+  const name = c.req.param('name');
+  const { description, format = 'html', content } = await c.req.json<{
+    description?: string;
+    format?: NoteFormat;
+    content: string;
+  }>();
+  
+  if (!isValidTemplateName(name!)) {
+    return c.json({ error: 'Invalid template name' }, 400);
+  }
+  
+  if (typeof content !== 'string' || !isNoteFormat(format)) {
+    return c.json({ error: 'Invalid template' }, 400);
+  }
+  
+  const template = format === 'html' ? sanitizeHtml(content) : content;
+  await saveTemplate(c.env.DB, name!, description?.trim() || null, format, template);
+  
+  return c.json({ success: true });
+});
+
+// 删除笔记模板
+admin.delete('/templates/:name', requireAuth, async (c) => {
+  const name = c.req.param('name');
+  
+  const deleted = await deleteTemplate(c.env.DB, name!);
+  if (!deleted) {
+    return c.json({ error: 'Template not found' }, 404);
+  }
   
   return c.json({ success: true });
 });
@@ -205,7 +414,7 @@ admin.post('/notes', requireAuth, async (c) => {
     path: string;
     content?: string;
     is_locked?: boolean;
-    lock_type?: 'read' | 'write';
+    lock_type?: LockType;
     password?: string;
   }>();
   
@@ -213,20 +422,15 @@ admin.post('/notes', requireAuth, async (c) => {
     return c.json({ error: 'Path is required' }, 400);
   }
   
-  // 检查路径是否已存在
-  const existing = await c.env.DB
-    .prepare('SELECT 1 FROM notes WHERE path = ?')
-    .bind(path)
-    .first();
-  
-  if (existing) {
+  // 检查路径是否已存在（包括已改名笔记保留的别名）
+  if (await isPathTaken(c.env.DB, path, c.env.PATH_CASE_POLICY === 'insensitive')) {
     return c.json({ error: 'Path already exists' }, 409);
   }
   
   // 准备插入数据
-  const fields = ['path', 'content'];
-  const values: any[] = [path, content || ''];
-  const placeholders = ['?', '?'];
+  const fields = ['path', 'path_key', 'content'];
+  const values: any[] = [path, pathKey(path), sanitizeHtml(content || '')];
+  const placeholders = ['?', '?', '?'];
   
   if (is_locked && password) {
     fields.push('is_locked', 'lock_type', 'password_hash');
@@ -239,13 +443,16 @@ admin.post('/notes', requireAuth, async (c) => {
     .bind(...values)
     .run();
   
+  await indexNote(c.env.DB, path);
+  await updateNoteLinks(c.env.DB, path);
+  
   return c.json({ success: true, path });
 });
 
 // 导出所有笔记
 admin.get('/export', requireAuth, async (c) => {
   const notes = await c.env.DB
-    .prepare('SELECT * FROM notes')
+    .prepare('SELECT * FROM notes WHERE deleted_at IS NULL')
     .all<Note>();
   
   const exportData = {
@@ -254,6 +461,8 @@ admin.get('/export', requireAuth, async (c) => {
     notes: notes.results.map(note => ({
       path: note.path,
       content: note.content,
+      format: note.format,
+      encrypted: !!note.encrypted,
       is_locked: note.is_locked,
       lock_type: note.lock_type,
       view_count: note.view_count,
@@ -283,8 +492,10 @@ admin.post('/import', requireAuth, async (c) => {
     notes: Array<{
       path: string;
       content: string;
+      format?: NoteFormat;
+      encrypted?: boolean;
       is_locked?: boolean;
-      lock_type?: 'read' | 'write';
+      lock_type?: LockType;
       password?: string;
     }>;
   }>();
@@ -298,24 +509,49 @@ admin.post('/import', requireAuth, async (c) => {
   
   for (const note of body.notes) {
     try {
+      const format = isNoteFormat(note.format) ? note.format : 'html';
+      const encrypted = note.encrypted ? 1 : 0;
+      
+      // 加密笔记只导入格式有效的密文
+      if (encrypted && !isEncryptedContent(note.content)) {
+        failed++;
+        continue;
+      }
+      
+      // 富文本笔记与编辑器保存时一样过滤
+      const content = format === 'html' && !encrypted ? sanitizeHtml(note.content || '') : note.content;
+      
       // 检查是否已存在
       const existing = await c.env.DB
-        .prepare('SELECT id FROM notes WHERE path = ?')
+        .prepare('SELECT content, deleted_at, remaining_views FROM notes WHERE path = ?')
         .bind(note.path)
-        .first();
+        .first<Pick<Note, 'content' | 'deleted_at' | 'remaining_views'>>();
+      
+      // 回收站中的路径在彻底删除前不能被导入覆盖
+      if (existing?.deleted_at) {
+        failed++;
+        continue;
+      }
+      
+      // 已改名笔记的旧路径保留为别名，不能被导入占用
+      if (!existing && await resolveAlias(c.env.DB, note.path)) {
+        failed++;
+        continue;
+      }
       
       if (existing) {
-        // 更新现有笔记
+        // 更新现有笔记，递增版本号，基于旧版本的保存会被视为冲突
         if (note.is_locked && note.password) {
           const passwordHash = await hashPassword(note.password);
           await c.env.DB
-            .prepare('UPDATE notes SET content = ?, is_locked = ?, lock_type = ?, password_hash = ? WHERE path = ?')
-            .bind(note.content, 1, note.lock_type || 'write', passwordHash, note.path)
+            .prepare('UPDATE notes SET content = ?, format = ?, encrypted = ?, is_locked = ?, lock_type = ?, password_hash = ?, view_password_hash = NULL, version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE path = ?')
+            .bind(content, format, encrypted, 1, note.lock_type || 'write', passwordHash, note.path)
             .run();
+          await deleteShareLinks(c.env.DB, note.path);
         } else {
           await c.env.DB
-            .prepare('UPDATE notes SET content = ? WHERE path = ?')
-            .bind(note.content, note.path)
+            .prepare('UPDATE notes SET content = ?, format = ?, encrypted = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE path = ?')
+            .bind(content, format, encrypted, note.path)
             .run();
         }
       } else {
@@ -323,17 +559,26 @@ admin.post('/import', requireAuth, async (c) => {
         if (note.is_locked && note.password) {
           const passwordHash = await hashPassword(note.password);
           await c.env.DB
-            .prepare('INSERT INTO notes (path, content, is_locked, lock_type, password_hash) VALUES (?, ?, ?, ?, ?)')
-            .bind(note.path, note.content, 1, note.lock_type || 'write', passwordHash)
+            .prepare('INSERT INTO notes (path, path_key, content, format, encrypted, is_locked, lock_type, password_hash) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+            .bind(note.path, pathKey(note.path), content, format, encrypted, 1, note.lock_type || 'write', passwordHash)
             .run();
         } else {
           await c.env.DB
-            .prepare('INSERT INTO notes (path, content) VALUES (?, ?)')
-            .bind(note.path, note.content)
+            .prepare('INSERT INTO notes (path, path_key, content, format, encrypted) VALUES (?, ?, ?, ?, ?)')
+            .bind(note.path, pathKey(note.path), content, format, encrypted)
             .run();
         }
       }
       
+      // 记录修订历史，被覆盖的内容可以从历史中恢复（限制查看次数的笔记和加密笔记不保留历史）
+      if (!encrypted && !(existing && isViewLimited(existing))) {
+        const revisionLimit = parseInt(c.env.REVISION_LIMIT) || 50;
+        await recordRevision(c.env.DB, note.path, content, revisionLimit, existing?.content, format);
+      }
+      
+      await indexNote(c.env.DB, note.path);
+      await updateNoteLinks(c.env.DB, note.path);
+      
       imported++;
       
       // 清除缓存
@@ -623,6 +868,19 @@ function getAdminPanelHTML(): string {
       text-decoration: underline;
     }
     
+    .note-snippet {
+      margin-top: 4px;
+      font-size: 12px;
+      color: var(--text-muted);
+      max-width: 480px;
+    }
+    
+    .note-snippet mark {
+      background: #fef08a;
+      color: inherit;
+      padding: 0 1px;
+    }
+    
     .badge {
       display: inline-block;
       padding: 2px 8px;
@@ -642,6 +900,19 @@ function getAdminPanelHTML(): string {
       color: #0050b3;
     }
     
+    .badge-encrypted {
+      background: #f0e6ff;
+      color: #531dab;
+    }
+    
+    .badge-tag {
+      margin: 4px 4px 0 0;
+      background: var(--bg-secondary);
+      color: var(--text-secondary);
+      text-transform: none;
+      cursor: pointer;
+    }
+    
     /* 按钮 */
     .btn {
       display: inline-flex;
@@ -1024,6 +1295,9 @@ function getAdminPanelHTML(): string {
             <span class="search-icon">🔍</span>
             <input type="text" id="searchInput" class="search-input" placeholder="搜索笔记路径或内容..." onkeyup="handleSearch(event)">
           </div>
+          <select id="tagFilter" class="form-select" style="width: auto;" onchange="filterByTag(this.value)">
+            <option value="">全部标签</option>
+          </select>
           <button class="btn btn-primary" onclick="showCreateModal()">➕ 新建笔记</button>
         </div>
         <div class="toolbar-right">
@@ -1031,6 +1305,11 @@ function getAdminPanelHTML(): string {
           <button class="btn" onclick="exportNotes()">📥 导出</button>
           <button class="btn" onclick="showImportModal()">📤 导入</button>
           <button class="btn" onclick="createBackup()">💾 备份</button>
+          <button class="btn" onclick="showTrashModal()">🗑️ 回收站</button>
+          <button class="btn" onclick="showTemplateModal()">📝 模板</button>
+          <button class="btn" onclick="showLinksModal()">🔗 失效链接</button>
+          <button class="btn" id="attemptsBtn" onclick="showAttemptsModal()">🛡️ 密码尝试</button>
+          <button class="btn" onclick="showSharesModal()">🎫 分享链接</button>
         </div>
       </div>
       
@@ -1076,7 +1355,11 @@ function getAdminPanelHTML(): string {
         
         <div class="form-group">
           <label class="form-label">内容</label>
-          <div id="noteEditor"></div>
+          <div id="noteEditorWrapper">
+            <div id="noteEditor"></div>
+          </div>
+          <textarea id="noteMarkdown" class="form-textarea" style="display: none; min-height: 300px;"></textarea>
+          <p id="noteEncrypted" style="display: none; color: var(--text-muted);">🔐 此笔记已端到端加密，内容只能在持有密钥的浏览器中查看和编辑，这里只能修改锁定设置。</p>
         </div>
         
         <div class="form-group">
@@ -1092,6 +1375,7 @@ function getAdminPanelHTML(): string {
             <select id="editLockType" class="form-select">
               <option value="write">限制编辑</option>
               <option value="read">限制访问</option>
+              <option value="append">仅允许追加</option>
             </select>
           </div>
           
@@ -1139,6 +1423,7 @@ function getAdminPanelHTML(): string {
             <select id="createLockType" class="form-select">
               <option value="write">限制编辑</option>
               <option value="read">限制访问</option>
+              <option value="append">仅允许追加</option>
             </select>
           </div>
           
@@ -1179,13 +1464,176 @@ function getAdminPanelHTML(): string {
     </div>
   </div>
   
+  <!-- 回收站模态框 -->
+  <div class="modal" id="trashModal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h2 class="modal-title">回收站</h2>
+        <button class="modal-close" onclick="closeTrashModal()">×</button>
+      </div>
+      <div class="modal-body">
+        <p id="trashRetention" style="color: var(--text-muted); margin-bottom: 12px;"></p>
+        <table>
+          <thead>
+            <tr>
+              <th style="width: 30%;">路径</th>
+              <th style="width: 15%;">删除者</th>
+              <th style="width: 25%;">删除时间</th>
+              <th style="width: 30%;">操作</th>
+            </tr>
+          </thead>
+          <tbody id="trashTable"></tbody>
+        </table>
+      </div>
+      <div class="modal-footer">
+        <button class="btn" onclick="closeTrashModal()">关闭</button>
+      </div>
+    </div>
+  </div>
+  
+  <!-- 密码尝试异常模态框 -->
+  <div class="modal" id="attemptsModal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h2 class="modal-title">密码尝试异常</h2>
+        <button class="modal-close" onclick="closeAttemptsModal()">×</button>
+      </div>
+      <div class="modal-body">
+        <p style="color: var(--text-muted); margin-bottom: 12px;">最近一天内解锁失败较多、可能正在被暴力破解的笔记</p>
+        <table>
+          <thead>
+            <tr>
+              <th style="width: 30%;">路径</th>
+              <th style="width: 15%;">失败次数</th>
+              <th style="width: 15%;">来源IP数</th>
+              <th style="width: 20%;">最近尝试</th>
+              <th style="width: 20%;">状态</th>
+            </tr>
+          </thead>
+          <tbody id="attemptsTable"></tbody>
+        </table>
+      </div>
+      <div class="modal-footer">
+        <button class="btn" onclick="closeAttemptsModal()">关闭</button>
+      </div>
+    </div>
+  </div>
+  
+  <!-- 分享链接模态框 -->
+  <div class="modal" id="sharesModal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h2 class="modal-title">分享链接</h2>
+        <button class="modal-close" onclick="closeSharesModal()">×</button>
+      </div>
+      <div class="modal-body">
+        <p style="color: var(--text-muted); margin-bottom: 12px;">锁定笔记的持有者生成的免密码链接，撤销后立即失效</p>
+        <table>
+          <thead>
+            <tr>
+              <th style="width: 30%;">路径</th>
+              <th style="width: 15%;">权限</th>
+              <th style="width: 15%;">使用次数</th>
+              <th style="width: 25%;">到期时间</th>
+              <th style="width: 15%;">操作</th>
+            </tr>
+          </thead>
+          <tbody id="sharesTable"></tbody>
+        </table>
+      </div>
+      <div class="modal-footer">
+        <button class="btn" onclick="closeSharesModal()">关闭</button>
+      </div>
+    </div>
+  </div>
+  
+  <!-- 失效链接模态框 -->
+  <div class="modal" id="linksModal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h2 class="modal-title">失效链接</h2>
+        <button class="modal-close" onclick="closeLinksModal()">×</button>
+      </div>
+      <div class="modal-body">
+        <p style="color: var(--text-muted); margin-bottom: 12px;">笔记中指向不存在的笔记的 [[路径]] 链接</p>
+        <table>
+          <thead>
+            <tr>
+              <th style="width: 35%;">目标路径</th>
+              <th style="width: 35%;">所在笔记</th>
+              <th style="width: 30%;">操作</th>
+            </tr>
+          </thead>
+          <tbody id="linksTable"></tbody>
+        </table>
+      </div>
+      <div class="modal-footer">
+        <button class="btn" onclick="closeLinksModal()">关闭</button>
+      </div>
+    </div>
+  </div>
+  
+  <!-- 笔记模板模态框 -->
+  <div class="modal" id="templateModal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h2 class="modal-title">笔记模板</h2>
+        <button class="modal-close" onclick="closeTemplateModal()">×</button>
+      </div>
+      <div class="modal-body">
+        <table>
+          <thead>
+            <tr>
+              <th style="width: 25%;">名称</th>
+              <th style="width: 35%;">说明</th>
+              <th style="width: 15%;">格式</th>
+              <th style="width: 25%;">操作</th>
+            </tr>
+          </thead>
+          <tbody id="templateTable"></tbody>
+        </table>
+        
+        <div class="form-group" style="margin-top: 20px;">
+          <label class="form-label">名称（小写字母、数字、- 和 _，访问 /?template=名称 从模板新建笔记）</label>
+          <input type="text" id="templateName" class="form-input" placeholder="如 incident">
+        </div>
+        
+        <div class="form-group">
+          <label class="form-label">格式</label>
+          <select id="templateFormat" class="form-select">
+            <option value="html">富文本</option>
+            <option value="markdown">Markdown</option>
+          </select>
+        </div>
+        
+        <div class="form-group">
+          <label class="form-label">说明（可选）</label>
+          <input type="text" id="templateDescription" class="form-input">
+        </div>
+        
+        <div class="form-group">
+          <label class="form-label">内容（可使用 {{date}}、{{time}}、{{datetime}}、{{path}}、{{title}} 占位符）</label>
+          <textarea id="templateContent" class="form-textarea" style="min-height: 200px;"></textarea>
+        </div>
+      </div>
+      <div class="modal-footer">
+        <button class="btn" onclick="closeTemplateModal()">关闭</button>
+        <button class="btn" onclick="editTemplate('')">清空</button>
+        <button class="btn btn-primary" onclick="saveTemplate()">保存模板</button>
+      </div>
+    </div>
+  </div>
+  
   <script src="https://cdn.quilljs.com/1.3.6/quill.js"></script>
   <script>
     let token = localStorage.getItem('adminToken');
     let quillEditor = null;
+    let editFormat = 'html';
+    let editEncrypted = false;
     let currentPage = 1;
     let totalPages = 1;
     let searchQuery = '';
+    let tagFilter = '';
     
     // 初始化
     if (token) {
@@ -1202,7 +1650,9 @@ function getAdminPanelHTML(): string {
         if (response.ok) {
           showAdminPanel();
           loadStats();
+          loadTags();
           loadNotes();
+          loadUnlockAttempts();
         } else {
           localStorage.removeItem('adminToken');
           token = null;
@@ -1239,7 +1689,9 @@ function getAdminPanelHTML(): string {
           document.getElementById('adminUser').textContent = username;
           showAdminPanel();
           loadStats();
+          loadTags();
           loadNotes();
+          loadUnlockAttempts();
         } else {
           error.textContent = data.error || '登录失败';
           error.style.display = 'block';
@@ -1288,7 +1740,8 @@ function getAdminPanelHTML(): string {
         const params = new URLSearchParams({
           page: page.toString(),
           limit: '10',
-          search: searchQuery
+          search: searchQuery,
+          tag: tagFilter
         });
         
         const response = await fetch('/admin/notes?' + params, {
@@ -1320,11 +1773,14 @@ function getAdminPanelHTML(): string {
         <tr>
           <td>
             <a href="/\${note.path}" target="_blank" class="note-path">/\${note.path}</a>
+            \${note.snippet ? '<div class="note-snippet">' + note.snippet + '</div>' : ''}
+            <div>\${(note.tags || []).map(tag => '<span class="badge badge-tag" onclick="filterByTag(\\'' + tag + '\\')">#' + tag + '</span>').join('')}</div>
           </td>
           <td>
             <span class="badge \${note.is_locked ? 'badge-locked' : 'badge-unlocked'}">
-              \${note.is_locked ? '🔒 ' + (note.lock_type === 'read' ? '访问锁定' : '编辑锁定') : '🔓 未锁定'}
+              \${note.is_locked ? '🔒 ' + (note.lock_type === 'read' ? '访问锁定' : note.lock_type === 'append' ? '追加锁定' : '编辑锁定') : '🔓 未锁定'}
             </span>
+            \${note.encrypted ? '<span class="badge badge-encrypted">🔐 端到端加密</span>' : ''}
           </td>
           <td>\${note.view_count || 0}</td>
           <td>\${new Date(note.updated_at).toLocaleString('zh-CN')}</td>
@@ -1332,6 +1788,7 @@ function getAdminPanelHTML(): string {
             <div class="btn-group">
               <button class="btn btn-small" onclick="viewNote('\${note.path}')">查看</button>
               <button class="btn btn-small" onclick="editNote('\${note.path}')">编辑</button>
+              <button class="btn btn-small" onclick="renameNote('\${note.path}')">重命名</button>
               <button class="btn btn-small btn-danger" onclick="deleteNote('\${note.path}')">删除</button>
             </div>
           </td>
@@ -1376,10 +1833,39 @@ function getAdminPanelHTML(): string {
       }
     }
     
+    // 加载标签及其笔记数量，用于按标签筛选
+    async function loadTags() {
+      try {
+        const response = await fetch('/admin/tags', {
+          headers: { 'Authorization': 'Bearer ' + token }
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          const select = document.getElementById('tagFilter');
+          select.innerHTML = '<option value="">全部标签</option>' + data.tags.map(tag =>
+            '<option value="' + tag.name + '">#' + tag.name + ' (' + tag.count + ')</option>'
+          ).join('');
+          select.value = tagFilter;
+        }
+      } catch (error) {
+        console.error('Failed to load tags:', error);
+      }
+    }
+    
+    // 按标签筛选
+    function filterByTag(tag) {
+      tagFilter = tag;
+      document.getElementById('tagFilter').value = tag;
+      loadNotes(1);
+    }
+    
     // 刷新
     function refreshNotes() {
       loadStats();
+      loadTags();
       loadNotes(currentPage);
+      loadUnlockAttempts();
       showToast('已刷新', 'success');
     }
     
@@ -1391,7 +1877,7 @@ function getAdminPanelHTML(): string {
     // 编辑笔记
     async function editNote(path) {
       try {
-        const response = await fetch('/admin/notes/' + path, {
+        const response = await fetch('/admin/notes/' + encodeURIComponent(path), {
           headers: { 'Authorization': 'Bearer ' + token }
         });
         
@@ -1423,7 +1909,22 @@ function getAdminPanelHTML(): string {
             });
           }
           
-          quillEditor.root.innerHTML = note.content || '';
+          // Markdown笔记以源文本编辑，加密笔记只有密文，不显示编辑器
+          editFormat = note.format || 'html';
+          editEncrypted = !!note.encrypted;
+          const isMarkdown = editFormat === 'markdown';
+          document.getElementById('noteEditorWrapper').style.display = isMarkdown || editEncrypted ? 'none' : 'block';
+          document.getElementById('noteMarkdown').style.display = isMarkdown && !editEncrypted ? 'block' : 'none';
+          document.getElementById('noteEncrypted').style.display = editEncrypted ? 'block' : 'none';
+          
+          if (editEncrypted) {
+            quillEditor.root.innerHTML = '';
+            document.getElementById('noteMarkdown').value = '';
+          } else if (isMarkdown) {
+            document.getElementById('noteMarkdown').value = note.content || '';
+          } else {
+            quillEditor.root.innerHTML = note.content || '';
+          }
           document.getElementById('editModalTitle').textContent = '编辑笔记: /' + path;
           document.getElementById('editModal').classList.add('show');
         }
@@ -1436,12 +1937,18 @@ function getAdminPanelHTML(): string {
     // 保存笔记
     async function saveNote() {
       const path = document.getElementById('editPath').value;
-      const content = quillEditor.root.innerHTML;
       const isLocked = document.getElementById('editLocked').checked;
       const lockType = document.getElementById('editLockType').value;
       const password = document.getElementById('editPassword').value;
       
-      const data = { content, is_locked: isLocked };
+      const data = { is_locked: isLocked };
+      
+      // 加密笔记不提交内容
+      if (!editEncrypted) {
+        data.content = editFormat === 'markdown'
+          ? document.getElementById('noteMarkdown').value
+          : quillEditor.root.innerHTML;
+      }
       
       if (isLocked) {
         data.lock_type = lockType;
@@ -1451,7 +1958,7 @@ function getAdminPanelHTML(): string {
       }
       
       try {
-        const response = await fetch('/admin/notes/' + path, {
+        const response = await fetch('/admin/notes/' + encodeURIComponent(path), {
           method: 'PUT',
           headers: {
             'Authorization': 'Bearer ' + token,
@@ -1473,14 +1980,48 @@ function getAdminPanelHTML(): string {
       }
     }
     
+    // 重命名笔记
+    async function renameNote(path) {
+      const newPath = prompt('将 /' + path + ' 重命名为：', path);
+      if (!newPath || newPath === path) {
+        return;
+      }
+      const keepAlias = confirm('是否保留旧路径 /' + path + ' 作为跳转链接？');
+      
+      try {
+        const response = await fetch('/admin/notes/' + encodeURIComponent(path) + '/rename', {
+          method: 'POST',
+          headers: {
+            'Authorization': 'Bearer ' + token,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ new_path: newPath, keep_alias: keepAlias })
+        });
+        
+        if (response.ok) {
+          loadNotes(currentPage);
+          showToast('已重命名为 /' + newPath, 'success');
+        } else if (response.status === 409) {
+          showToast('路径已被占用', 'error');
+        } else if (response.status === 400) {
+          showToast('路径格式无效', 'error');
+        } else {
+          showToast('重命名失败', 'error');
+        }
+      } catch (error) {
+        console.error('Failed to rename note:', error);
+        showToast('重命名失败', 'error');
+      }
+    }
+    
     // 删除笔记
     async function deleteNote(path) {
-      if (!confirm('确定要删除笔记 /' + path + ' 吗？')) {
+      if (!confirm('确定要删除笔记 /' + path + ' 吗？笔记将移入回收站。')) {
         return;
       }
       
       try {
-        const response = await fetch('/admin/notes/' + path, {
+        const response = await fetch('/admin/notes/' + encodeURIComponent(path), {
           method: 'DELETE',
           headers: { 'Authorization': 'Bearer ' + token }
         });
@@ -1488,7 +2029,7 @@ function getAdminPanelHTML(): string {
         if (response.ok) {
           loadNotes(currentPage);
           loadStats();
-          showToast('删除成功', 'success');
+          showToast('已移入回收站', 'success');
         } else {
           showToast('删除失败', 'error');
         }
@@ -1498,6 +2039,350 @@ function getAdminPanelHTML(): string {
       }
     }
     
+    // 加载回收站
+    async function loadTrash() {
+      try {
+        const response = await fetch('/admin/trash', {
+          headers: { 'Authorization': 'Bearer ' + token }
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          document.getElementById('trashRetention').textContent = '删除 ' + data.retentionDays + ' 天后自动清除';
+          renderTrash(data.notes);
+        }
+      } catch (error) {
+        console.error('Failed to load trash:', error);
+        showToast('加载回收站失败', 'error');
+      }
+    }
+    
+    // 加载密码尝试异常的笔记，有异常时在工具栏按钮上显示数量
+    async function loadUnlockAttempts() {
+      try {
+        const response = await fetch('/admin/unlock-attempts', {
+          headers: { 'Authorization': 'Bearer ' + token }
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          document.getElementById('attemptsBtn').textContent = data.notes.length > 0
+            ? '🛡️ 密码尝试 (' + data.notes.length + ')'
+            : '🛡️ 密码尝试';
+          renderUnlockAttempts(data.notes);
+        }
+      } catch (error) {
+        console.error('Failed to load unlock attempts:', error);
+        showToast('加载密码尝试记录失败', 'error');
+      }
+    }
+    
+    // 渲染密码尝试异常列表
+    function renderUnlockAttempts(notes) {
+      const tbody = document.getElementById('attemptsTable');
+      
+      if (notes.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="5" style="text-align: center; padding: 40px; color: var(--text-muted);">暂无异常</td></tr>';
+        return;
+      }
+      
+      tbody.innerHTML = notes.map(note => \`
+        <tr>
+          <td><a href="/\${note.path}" target="_blank" class="note-path">/\${escapeHtml(note.path)}</a></td>
+          <td>\${note.failures}</td>
+          <td>\${note.ips}</td>
+          <td>\${new Date(note.last_attempt).toLocaleString('zh-CN')}</td>
+          <td>
+            \${note.retry_after > 0
+              ? '<span class="badge badge-locked">锁定中 ' + Math.ceil(note.retry_after / 60) + ' 分钟</span>'
+              : '<span class="badge badge-unlocked">可尝试</span>'}
+          </td>
+        </tr>
+      \`).join('');
+    }
+    
+    // 加载所有分享链接
+    async function loadShares() {
+      try {
+        const response = await fetch('/admin/shares', {
+          headers: { 'Authorization': 'Bearer ' + token }
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          renderShares(data.shares);
+        }
+      } catch (error) {
+        console.error('Failed to load share links:', error);
+        showToast('加载分享链接失败', 'error');
+      }
+    }
+    
+    // 渲染分享链接列表
+    function renderShares(shares) {
+      const tbody = document.getElementById('sharesTable');
+      
+      if (shares.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="5" style="text-align: center; padding: 40px; color: var(--text-muted);">暂无分享链接</td></tr>';
+        return;
+      }
+      
+      tbody.innerHTML = shares.map(share => \`
+        <tr>
+          <td><a href="/\${share.path}" target="_blank" class="note-path">/\${escapeHtml(share.path)}</a></td>
+          <td>\${share.access === 'edit' ? '可以编辑' : '只能查看'}</td>
+          <td>\${share.use_count}\${share.max_uses ? ' / ' + share.max_uses : ''}</td>
+          <td>\${new Date(share.expires_at.replace(' ', 'T') + 'Z').toLocaleString('zh-CN')}</td>
+          <td>
+            <button class="btn btn-small btn-danger" onclick="revokeShare('\${share.id}')">撤销</button>
+          </td>
+        </tr>
+      \`).join('');
+    }
+    
+    async function revokeShare(id) {
+      if (!confirm('撤销后该链接将立即失效，确定继续吗？')) {
+        return;
+      }
+      
+      try {
+        const response = await fetch('/admin/shares/' + encodeURIComponent(id), {
+          method: 'DELETE',
+          headers: { 'Authorization': 'Bearer ' + token }
+        });
+        
+        if (response.ok) {
+          loadShares();
+          showToast('分享链接已撤销', 'success');
+        } else {
+          showToast('撤销失败', 'error');
+        }
+      } catch (error) {
+        console.error('Failed to revoke share link:', error);
+        showToast('撤销失败', 'error');
+      }
+    }
+    
+    // 加载失效链接
+    async function loadBrokenLinks() {
+      try {
+        const response = await fetch('/admin/links/broken', {
+          headers: { 'Authorization': 'Bearer ' + token }
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          renderBrokenLinks(data.links);
+        }
+      } catch (error) {
+        console.error('Failed to load broken links:', error);
+        showToast('加载失效链接失败', 'error');
+      }
+    }
+    
+    // 渲染失效链接列表
+    function renderBrokenLinks(links) {
+      const tbody = document.getElementById('linksTable');
+      
+      if (links.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="3" style="text-align: center; padding: 40px; color: var(--text-muted);">暂无失效链接</td></tr>';
+        return;
+      }
+      
+      tbody.innerHTML = links.map(link => \`
+        <tr>
+          <td>/\${escapeHtml(link.target)}</td>
+          <td><a href="/\${link.source}" target="_blank" class="note-path">/\${link.source}</a></td>
+          <td>
+            <a href="/\${encodeURI(link.target)}" target="_blank" class="btn btn-small">创建笔记</a>
+          </td>
+        </tr>
+      \`).join('');
+    }
+    
+    // 渲染回收站列表
+    function renderTrash(notes) {
+      const tbody = document.getElementById('trashTable');
+      
+      if (notes.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="4" style="text-align: center; padding: 40px; color: var(--text-muted);">回收站为空</td></tr>';
+        return;
+      }
+      
+      tbody.innerHTML = notes.map(note => \`
+        <tr>
+          <td>/\${note.path}</td>
+          <td>\${note.deleted_by || '-'}</td>
+          <td>\${new Date(note.deleted_at).toLocaleString('zh-CN')}</td>
+          <td>
+            <div class="btn-group">
+              <button class="btn btn-small" onclick="restoreNote('\${note.path}')">恢复</button>
+              <button class="btn btn-small btn-danger" onclick="purgeNote('\${note.path}')">彻底删除</button>
+            </div>
+          </td>
+        </tr>
+      \`).join('');
+    }
+    
+    // 从回收站恢复笔记
+    async function restoreNote(path) {
+      try {
+        const response = await fetch('/admin/trash/' + encodeURIComponent(path) + '/restore', {
+          method: 'POST',
+          headers: { 'Authorization': 'Bearer ' + token }
+        });
+        
+        if (response.ok) {
+          loadTrash();
+          loadNotes(currentPage);
+          loadStats();
+          showToast('恢复成功', 'success');
+        } else {
+          showToast('恢复失败', 'error');
+        }
+      } catch (error) {
+        console.error('Failed to restore note:', error);
+        showToast('恢复失败', 'error');
+      }
+    }
+    
+    // 彻底删除笔记
+    async function purgeNote(path) {
+      if (!confirm('确定要彻底删除笔记 /' + path + ' 吗？修订历史和附件将一并删除，此操作不可恢复。')) {
+        return;
+      }
+      
+      try {
+        const response = await fetch('/admin/trash/' + encodeURIComponent(path), {
+          method: 'DELETE',
+          headers: { 'Authorization': 'Bearer ' + token }
+        });
+        
+        if (response.ok) {
+          loadTrash();
+          showToast('已彻底删除', 'success');
+        } else {
+          showToast('删除失败', 'error');
+        }
+      } catch (error) {
+        console.error('Failed to purge note:', error);
+        showToast('删除失败', 'error');
+      }
+    }
+    
+    let templates = [];
+    
+    // 加载笔记模板
+    async function loadTemplates() {
+      try {
+        const response = await fetch('/admin/templates', {
+          headers: { 'Authorization': 'Bearer ' + token }
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          templates = data.templates;
+          renderTemplates();
+        }
+      } catch (error) {
+        console.error('Failed to load templates:', error);
+        showToast('加载模板失败', 'error');
+      }
+    }
+    
+    // 渲染模板列表
+    function renderTemplates() {
+      const tbody = document.getElementById('templateTable');
+      
+      if (templates.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="4" style="text-align: center; padding: 40px; color: var(--text-muted);">暂无模板</td></tr>';
+        return;
+      }
+      
+      tbody.innerHTML = templates.map(template => \`
+        <tr>
+          <td><a href="/?template=\${template.name}" target="_blank">\${template.name}</a></td>
+          <td>\${escapeHtml(template.description || '-')}</td>
+          <td>\${template.format === 'markdown' ? 'Markdown' : '富文本'}</td>
+          <td>
+            <div class="btn-group">
+              <button class="btn btn-small" onclick="editTemplate('\${template.name}')">编辑</button>
+              <button class="btn btn-small btn-danger" onclick="deleteTemplate('\${template.name}')">删除</button>
+            </div>
+          </td>
+        </tr>
+      \`).join('');
+    }
+    
+    // 将模板填入表单，name为空时清空表单以新建模板
+    function editTemplate(name) {
+      const template = templates.find(t => t.name === name);
+      document.getElementById('templateName').value = name;
+      document.getElementById('templateFormat').value = template ? template.format : 'html';
+      document.getElementById('templateDescription').value = template ? template.description || '' : '';
+      document.getElementById('templateContent').value = template ? template.content : '';
+    }
+    
+    // 保存模板（名称已存在时更新）
+    async function saveTemplate() {
+      const name = document.getElementById('templateName').value.trim();
+      if (!name) {
+        showToast('请输入模板名称', 'error');
+        return;
+      }
+      
+      try {
+        const response = await fetch('/admin/templates/' + encodeURIComponent(name), {
+          method: 'PUT',
+          headers: {
+            'Authorization': 'Bearer ' + token,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            format: document.getElementById('templateFormat').value,
+            description: document.getElementById('templateDescription').value,
+            content: document.getElementById('templateContent').value
+          })
+        });
+        
+        if (response.ok) {
+          loadTemplates();
+          showToast('模板已保存', 'success');
+        } else if (response.status === 400) {
+          showToast('模板名称只能包含小写字母、数字、- 和 _', 'error');
+        } else {
+          showToast('保存模板失败', 'error');
+        }
+      } catch (error) {
+        console.error('Failed to save template:', error);
+        showToast('保存模板失败', 'error');
+      }
+    }
+    
+    // 删除模板
+    async function deleteTemplate(name) {
+      if (!confirm('确定要删除模板 ' + name + ' 吗？')) {
+        return;
+      }
+      
+      try {
+        const response = await fetch('/admin/templates/' + encodeURIComponent(name), {
+          method: 'DELETE',
+          headers: { 'Authorization': 'Bearer ' + token }
+        });
+        
+        if (response.ok) {
+          loadTemplates();
+          showToast('模板已删除', 'success');
+        } else {
+          showToast('删除模板失败', 'error');
+        }
+      } catch (error) {
+        console.error('Failed to delete template:', error);
+        showToast('删除模板失败', 'error');
+      }
+    }
+    
     // 创建笔记
     async function createNote() {
       const path = document.getElementById('createPath').value.trim();
@@ -1673,6 +2558,52 @@ function getAdminPanelHTML(): string {
       document.getElementById('editPassword').value = '';
     }
     
+    function showTrashModal() {
+      document.getElementById('trashModal').classList.add('show');
+      loadTrash();
+    }
+    
+    function closeTrashModal() {
+      document.getElementById('trashModal').classList.remove('show');
+    }
+    
+    function showLinksModal() {
+      document.getElementById('linksModal').classList.add('show');
+      loadBrokenLinks();
+    }
+    
+    function showAttemptsModal() {
+      document.getElementById('attemptsModal').classList.add('show');
+      loadUnlockAttempts();
+    }
+    
+    function closeAttemptsModal() {
+      document.getElementById('attemptsModal').classList.remove('show');
+    }
+    
+    function showSharesModal() {
+      document.getElementById('sharesModal').classList.add('show');
+      loadShares();
+    }
+    
+    function closeSharesModal() {
+      document.getElementById('sharesModal').classList.remove('show');
+    }
+    
+    function closeLinksModal() {
+      document.getElementById('linksModal').classList.remove('show');
+    }
+    
+    function showTemplateModal() {
+      document.getElementById('templateModal').classList.add('show');
+      editTemplate('');
+      loadTemplates();
+    }
+    
+    function closeTemplateModal() {
+      document.getElementById('templateModal').classList.remove('show');
+    }
+    
     function showImportModal() {
       document.getElementById('importModal').classList.add('show');
     }
@@ -1693,6 +2624,12 @@ function getAdminPanelHTML(): string {
       document.getElementById('createLockOptions').style.display = locked ? 'block' : 'none';
     }
     
+    function escapeHtml(text) {
+      const div = document.createElement('div');
+      div.textContent = text;
+      return div.innerHTML;
+    }
+    
     // 显示提示消息
     function showToast(message, type = 'success') {
       const toast = document.createElement('div');
@@ -1,27 +1,339 @@
 import { Hono } from 'hono';
-import { AppContext, Note, NoteResponse } from '../types';
-import { hashPassword, verifyPassword, validatePath, sanitizeHtml } from '../utils/crypto';
+import type { Context, Next } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { getCookie, setCookie } from 'hono/cookie';
+import { AppContext, Attachment, ExpiryOptions, LockType, Note, NoteAccessLevel, NoteFormat, NoteResponse, NoteRevision, ShareLink, ShareRequest } from '../types';
+import { hashPassword, verifyPassword, validatePath, pathKey } from '../utils/crypto';
+import { sanitizeHtml } from '../utils/sanitize';
+import { recordRevision, diffLines } from '../utils/revisions';
+import { noteText } from '../utils/text';
+import { isEncryptedContent } from '../utils/encryption';
+import { isNoteFormat, renderMarkdown, htmlToMarkdown } from '../utils/markdown';
+import { publishNoteEvent, subscribeNoteEvents } from '../realtime/events';
+import { hasExpiryOptions, parseExpiry, isExpired, isViewLimited, setExpiry, readViewLimitedNote, purgeNote } from '../utils/expiry';
+import type { NoteExpiry } from '../utils/expiry';
+import { generateAttachmentId, attachmentKey, isInlineType, contentDisposition } from '../utils/attachments';
+import { createNoteAccessToken, verifyNoteAccessToken, createNoteSessionToken, verifyNoteSessionToken, createShareToken, verifyShareToken } from '../utils/jwt';
+import { indexNote } from '../utils/search';
+import { updateNoteLinks, getBacklinks, wikiLinkHref } from '../utils/links';
+import { unlockRetryAfter, recordUnlockFailure, clearUnlockFailures } from '../utils/attempts';
+import type { AttemptLimits } from '../utils/attempts';
+import { parseShareOptions, shareExpiresAt, createShareLink, listShareLinks, revokeShareLink, redeemShareLink, checkShareLink, deleteShareLinks } from '../utils/shares';
+import { appendToNote } from '../utils/append';
+import { resolveCanonicalPath, renameNote } from '../utils/rename';
+import { listFolder } from '../utils/folders';
+import { listTemplates, getTemplate, renderTemplate } from '../utils/templates';
+import { normalizeTag, getNoteTags, addNoteTag, removeNoteTag, listTags, listNotesByTag } from '../utils/tags';
+import { negotiateRawType, renderRaw, parseRawBody } from '../utils/raw';
+import type { RawType } from '../utils/raw';
 
 const api = new Hono<{ Bindings: AppContext['env'] }>();
+// 纯文本接口，同时挂载在 /api/note/:path/raw 和 /:path/raw
+// （/api/note 下多级路径编码为一段，如 team%2Foncall；根路径下直接使用 /team/oncall/raw）
+const raw = new Hono<{ Bindings: AppContext['env'] }>();
+
+// 非规范形式的路径重定向到规范路径（308保留请求方法和请求体）：未经NFC规范化的路径、
+// 已改名笔记的旧路径、不区分大小写时大小写不同的路径。rewrite根据原请求路径生成新地址
+function redirectCanonical(rewrite: (pathname: string, target: string) => string) {
+  return async (c: Context<{ Bindings: AppContext['env'] }>, next: Next) => {
+    const target = await resolveCanonicalPath(c.env.DB, c.req.param('path')!, c.env.PATH_CASE_POLICY === 'insensitive');
+    if (!target) {
+      await next();
+      return;
+    }
+    
+    const url = new URL(c.req.url);
+    return c.redirect(rewrite(url.pathname, target) + url.search, 308);
+  };
+}
+
+// 替换 /api/note/ 之后的笔记路径段
+function replaceNoteSegment(pathname: string, target: string): string {
+  const segments = pathname.split('/');
+  segments[segments.indexOf('note') + 1] = encodeURIComponent(target);
+  return segments.join('/');
+}
+
+api.use('/note/:path', redirectCanonical(replaceNoteSegment));
+api.use('/note/:path/*', redirectCanonical(replaceNoteSegment));
+raw.use('/:path{.+}/raw', redirectCanonical((_pathname, target) => encodeURI(`/${target}/raw`)));
+
+// 读取请求头中的笔记密码（客户端使用encodeURIComponent编码，以支持非ASCII字符）
+function readPasswordHeader(value: string | undefined): string | null {
+  if (!value) return null;
+  
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+// 解锁或设置锁定后下发的笔记会话令牌，之后的请求通过该请求头代替密码
+const NOTE_TOKEN_HEADER = 'X-Note-Token';
+
+async function issueNoteSessionToken(c: Context<{ Bindings: AppContext['env'] }>, path: string, passwordHash: string): Promise<string> {
+  const duration = parseInt(c.env.NOTE_SESSION_DURATION) || 3600;
+  return createNoteSessionToken(c.env.JWT_SECRET, path, passwordHash, duration);
+}
+
+// 请求中的会话令牌是否有效：编辑权限只接受编辑密码签发的令牌，查看权限也接受查看密码签发的令牌
+async function verifyNoteToken(
+  c: Context<{ Bindings: AppContext['env'] }>,
+  note: Note,
+  access: NoteAccessLevel,
+  token: string | undefined = c.req.header(NOTE_TOKEN_HEADER)
+): Promise<boolean> {
+  if (!token) {
+    return false;
+  }
+  if (note.password_hash && await verifyNoteSessionToken(token, c.env.JWT_SECRET, note.path, note.password_hash)) {
+    return true;
+  }
+  
+  return access === 'view' && !!note.view_password_hash &&
+    verifyNoteSessionToken(token, c.env.JWT_SECRET, note.path, note.view_password_hash);
+}
+
+// 验证锁定笔记的凭据（access为view时查看密码也可以），通过时返回null，否则返回错误响应。
+// 除解锁外的笔记密码都经过这里验证：先检查会话令牌，避免每次保存都重新执行开销较大的密码验证；
+// 密码与解锁共用尝试次数限制，退避或临时锁定期间返回429，密码错误计入失败次数
+async function rejectNoteCredential(
+  c: Context<{ Bindings: AppContext['env'] }>,
+  note: Note,
+  password: string | null | undefined,
+  access: NoteAccessLevel,
+  missingError: string = 'Password required'
+) {
+  if (!note.password_hash || await verifyNoteToken(c, note, access)) {
+    return null;
+  }
+  if (!password) {
+    return c.json({ error: c.req.header(NOTE_TOKEN_HEADER) ? 'Invalid password' : missingError }, 403);
+  }
+  
+  const throttled = await rejectThrottledAttempt(c, note.path);
+  if (throttled) {
+    return throttled;
+  }
+  
+  const level = await passwordAccess(note, password);
+  if (level === 'edit' || (level === 'view' && access === 'view')) {
+    // 与解锁一样，密码正确后清除该IP此前的失败计数
+    await clearUnlockFailures(c.env.CACHE, clientIp(c));
+    return null;
+  }
+  
+  return rejectInvalidPassword(c, note.path);
+}
+
+// 解锁时密码对应的权限：编辑密码获得完整权限，查看密码只能查看，都不匹配时返回null
+async function passwordAccess(note: Note, password: string): Promise<NoteAccessLevel | null> {
+  if (note.password_hash && await verifyPassword(password, note.password_hash)) {
+    return 'edit';
+  }
+  if (note.view_password_hash && await verifyPassword(password, note.view_password_hash)) {
+    return 'view';
+  }
+  return null;
+}
+
+// 分享链接令牌：通过页面地址的share参数打开笔记，之后的保存请求通过该请求头携带
+const NOTE_SHARE_HEADER = 'X-Note-Share';
+
+// 请求携带的分享链接授予的权限，consume为true时（打开笔记）消耗一次使用次数，链接无效时返回null
+async function shareAccess(c: Context<{ Bindings: AppContext['env'] }>, note: Note, consume: boolean): Promise<NoteAccessLevel | null> {
+  const token = c.req.query('share') || c.req.header(NOTE_SHARE_HEADER);
+  if (!token) {
+    return null;
+  }
+  
+  const id = await verifyShareToken(token, c.env.JWT_SECRET);
+  if (!id) {
+    return null;
+  }
+  
+  return consume ? redeemShareLink(c.env.DB, id, note.path) : checkShareLink(c.env.DB, id, note.path);
+}
+
+// 分享链接的页面地址，令牌根据链接记录重新签发，列出链接时也能取得地址
+async function shareUrl(c: Context<{ Bindings: AppContext['env'] }>, link: ShareLink): Promise<string> {
+  const token = await createShareToken(c.env.JWT_SECRET, link.path, link.id, shareExpiresAt(link));
+  return `${wikiLinkHref(link.path)}?share=${token}`;
+}
+
+// 客户端IP，与速率限制中间件的取值方式一致
+function clientIp(c: Context<{ Bindings: AppContext['env'] }>): string {
+  return c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'unknown';
+}
+
+function attemptLimits(c: Context<{ Bindings: AppContext['env'] }>): AttemptLimits {
+  return {
+    maxAttempts: parseInt(c.env.UNLOCK_MAX_ATTEMPTS) || 5,
+    lockoutDuration: parseInt(c.env.UNLOCK_LOCKOUT_DURATION) || 900
+  };
+}
+
+// 该笔记或IP的密码尝试处于退避或临时锁定中时返回429及Retry-After，否则返回null
+async function rejectThrottledAttempt(c: Context<{ Bindings: AppContext['env'] }>, path: string) {
+  const retryAfter = await unlockRetryAfter(c.env.CACHE, path, clientIp(c));
+  if (retryAfter === 0) {
+    return null;
+  }
+  
+  c.header('Retry-After', String(retryAfter));
+  return c.json({ error: 'Too many attempts', retry_after: retryAfter }, 429);
+}
+
+// 记录一次密码错误，开始退避后通过Retry-After告知客户端下次可尝试的时间
+async function rejectInvalidPassword(c: Context<{ Bindings: AppContext['env'] }>, path: string) {
+  const wait = await recordUnlockFailure(c.env.DB, c.env.CACHE, path, clientIp(c), attemptLimits(c));
+  if (wait > 0) {
+    c.header('Retry-After', String(wait));
+    return c.json({ error: 'Invalid password', retry_after: wait }, 403);
+  }
+  
+  return c.json({ error: 'Invalid password' }, 403);
+}
+
+// 解析保存所基于的版本：优先使用请求体中的 base_version，其次是 If-Match 请求头
+function parseBaseVersion(bodyVersion: number | undefined, ifMatch: string | undefined): number | null {
+  if (typeof bodyVersion === 'number') return bodyVersion;
+  if (!ifMatch) return null;
+  
+  const version = parseInt(ifMatch.replace(/^W\//, '').replace(/"/g, ''));
+  return isNaN(version) ? null : version;
+}
+
+// 将数据库记录转换为API响应（不包含密码哈希），Markdown笔记附带渲染后的HTML（加密笔记只返回密文）
+function toNoteResponse(note: Note): NoteResponse {
+  return {
+    exists: true,
+    content: note.content || '',
+    format: note.format,
+    html: note.format === 'markdown' && !note.encrypted ? renderMarkdown(note.content || '') : undefined,
+    encrypted: !!note.encrypted,
+    is_locked: note.is_locked,
+    lock_type: note.lock_type,
+    view_count: note.view_count,
+    created_at: note.created_at,
+    updated_at: note.updated_at,
+    version: note.version,
+    expires_at: note.expires_at,
+    remaining_views: note.remaining_views,
+    burn_after_reading: note.burn_after_reading
+  };
+}
+
+// 检查是否有权查看笔记内容，无权时返回错误响应（访问锁定的笔记需要密码；
+// 已过期或限制查看次数的笔记只能通过获取/解锁接口读取）
+async function rejectUnreadableNote(c: Context<{ Bindings: AppContext['env'] }>, note: Note, password: string | null) {
+  if (isExpired(note) || isViewLimited(note)) {
+    return c.json({ error: 'Password required' }, 403);
+  }
+  
+  return note.is_locked && note.lock_type === 'read' ? rejectNoteCredential(c, note, password, 'view') : null;
+}
+
+// 保存冲突：返回409及服务器当前版本。访问锁定的笔记只在本次请求已验证编辑权限（verified）
+// 或携带有效会话令牌时返回内容，不再单独验证请求中的密码
+async function conflictResponse(c: Context<{ Bindings: AppContext['env'] }>, note: Note, verified: boolean) {
+  const readable = !isExpired(note) && !isViewLimited(note) &&
+    (verified || !note.is_locked || note.lock_type !== 'read' || !note.password_hash || await verifyNoteToken(c, note, 'view'));
+  
+  c.header('ETag', `"${note.version}"`);
+  return c.json({
+    error: 'Conflict',
+    version: note.version,
+    updated_at: note.updated_at,
+    content: readable ? note.content : undefined
+  }, 409);
+}
+
+// 解锁访问锁定的笔记后下发的访问令牌，限定在该笔记的附件路径下
+const NOTE_ACCESS_COOKIE = 'note_access';
+
+async function setNoteAccessCookie(c: Context<{ Bindings: AppContext['env'] }>, path: string) {
+  const duration = parseInt(c.env.SESSION_DURATION) || 86400;
+  const token = await createNoteAccessToken(c.env.JWT_SECRET, path, duration);
+  
+  setCookie(c, NOTE_ACCESS_COOKIE, token, {
+    path: `/api/note/${encodeURIComponent(path)}/attachments`,
+    httpOnly: true,
+    secure: new URL(c.req.url).protocol === 'https:',
+    sameSite: 'Strict',
+    maxAge: duration
+  });
+}
+
+async function hasNoteAccessCookie(c: Context<{ Bindings: AppContext['env'] }>, path: string): Promise<boolean> {
+  const token = getCookie(c, NOTE_ACCESS_COOKIE);
+  return !!token && verifyNoteAccessToken(token, c.env.JWT_SECRET, path);
+}
+
+// 附件所属的笔记是否可以访问：回收站中和已过期的笔记不可访问；尚未创建的笔记
+// 只有上传者（持有上传时下发的访问令牌）可以访问
+async function canAccessAttachments(c: Context<{ Bindings: AppContext['env'] }>, path: string, note: Note | null): Promise<boolean> {
+  if (!note) {
+    return hasNoteAccessCookie(c, path);
+  }
+  
+  return !note.deleted_at && !isExpired(note);
+}
+
+// 附件读取权限，无权时返回错误响应：访问锁定的笔记需要访问令牌或密码（<img>等请求无法携带密码请求头）
+async function rejectAttachmentRead(c: Context<{ Bindings: AppContext['env'] }>, note: Note) {
+  if (!note.is_locked || note.lock_type !== 'read' || await hasNoteAccessCookie(c, note.path)) {
+    return null;
+  }
+  
+  return rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'view');
+}
+
+// 附件写入权限，无权时返回错误响应：锁定的笔记需要密码
+async function rejectAttachmentWrite(c: Context<{ Bindings: AppContext['env'] }>, note: Note) {
+  return note.is_locked
+    ? rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'edit')
+    : null;
+}
+
+function attachmentUrl(path: string, id: string): string {
+  return `/api/note/${encodeURIComponent(path)}/attachments/${id}`;
+}
 
 // 获取笔记
 api.get('/note/:path', async (c) => {
   const path = c.req.param('path');
   const minLength = parseInt(c.env.PATH_MIN_LENGTH) || 1;
   const maxLength = parseInt(c.env.PATH_MAX_LENGTH) || 20;
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH) || 5;
   
-  if (!validatePath(path, minLength, maxLength)) {
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
     return c.json({ error: 'Invalid path' }, 400);
   }
   
-  // 先检查缓存
-  const cached = await c.env.CACHE.get(`note:${path}`);
+  // 客户端要求纯文本、Markdown或HTML时返回原始内容
+  c.header('Vary', 'Accept');
+  const rawType = negotiateRawType(c.req.header('Accept'), true);
+  if (rawType) {
+    return rawNoteResponse(c, path, rawType);
+  }
+  
+  // 先检查缓存（通过分享链接打开时需要查询链接，直接读取数据库）
+  const cached = c.req.query('share') ? null : await c.env.CACHE.get(`note:${path}`);
   if (cached) {
     const note = JSON.parse(cached);
+    
+    if (isExpired(note)) {
+      await purgeNote(c.env.DB, c.env.CACHE, path);
+      return c.json({ exists: false, expired: true });
+    }
+    
     // 异步更新访问计数
     c.env.DB.prepare('UPDATE notes SET view_count = view_count + 1 WHERE path = ?')
       .bind(path)
       .run();
+    c.header('ETag', `"${note.version}"`);
     return c.json(note);
   }
   
@@ -34,103 +346,400 @@ api.get('/note/:path', async (c) => {
     return c.json({ exists: false });
   }
   
-  // 处理锁定逻辑
+  // 回收站中的笔记不可查看
+  if (result.deleted_at) {
+    return c.json({ exists: false, trashed: true });
+  }
+  
+  // 已过期的笔记立即清理
+  if (isExpired(result)) {
+    await purgeNote(c.env.DB, c.env.CACHE, path);
+    return c.json({ exists: false, expired: true });
+  }
+  
+  // 通过分享链接打开锁定的笔记，消耗链接的一次使用次数
+  const share = result.is_locked ? await shareAccess(c, result, true) : null;
+  
+  // 处理锁定逻辑（访问锁定的笔记需要密码或有效的分享链接）
   if (result.is_locked && result.lock_type === 'read') {
-    return c.json({
-      exists: true,
-      requires_password: true,
-      lock_type: 'read'
-    });
+    if (!share) {
+      return c.json({
+        exists: true,
+        requires_password: true,
+        lock_type: 'read'
+      });
+    }
+    
+    await setNoteAccessCookie(c, path);
   }
   
-  const response: NoteResponse = {
-    exists: true,
-    content: result.content || '',
-    is_locked: result.is_locked,
-    lock_type: result.lock_type,
-    view_count: result.view_count,
-    created_at: result.created_at,
-    updated_at: result.updated_at
-  };
+  // 限制查看次数的笔记不缓存，每次读取消耗一次次数
+  if (isViewLimited(result)) {
+    const note = await readViewLimitedNote(c.env.DB, c.env.CACHE, result);
+    if (!note) {
+      return c.json({ exists: false, expired: true });
+    }
+    
+    c.header('ETag', `"${note.version}"`);
+    return c.json({ ...toNoteResponse(note), share_access: share || undefined });
+  }
+  
+  const response = toNoteResponse(result);
   
   // 异步更新访问计数
   c.env.DB.prepare('UPDATE notes SET view_count = view_count + 1 WHERE path = ?')
     .bind(path)
     .run();
   
-  // 缓存热门笔记
-  if (result.view_count >= 2) {
+  // 缓存热门笔记（通过分享链接读取的访问锁定笔记不缓存）
+  if (result.view_count >= 2 && !share) {
     const ttl = Math.min(86400, Math.max(300, result.view_count * 180));
     await c.env.CACHE.put(`note:${path}`, JSON.stringify(response), {
       expirationTtl: ttl
     });
   }
   
-  return c.json(response);
+  c.header('ETag', `"${result.version}"`);
+  return c.json({ ...response, share_access: share || undefined });
 });
 
+// 保存笔记内容（JSON保存接口和纯文本PUT接口共用），
+// resolve根据已有笔记（新笔记为null）确定保存的内容和格式
+async function saveNoteContent(
+  c: Context<{ Bindings: AppContext['env'] }>,
+  path: string,
+  resolve: (existing: Note | null) => { content: string; format: NoteFormat; encrypted?: boolean },
+  options: { password?: string; baseVersion: number | null; expiry: NoteExpiry | null }
+) {
+  // 检查是否存在
+  const existing = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ?')
+    .bind(path)
+    .first<Note>();
+  
+  // 回收站中的笔记在彻底删除前不能重新使用
+  if (existing?.deleted_at) {
+    return c.json({ error: 'Note is in trash' }, 410);
+  }
+  
+  const { content, format, encrypted } = resolve(existing);
+  
+  // 加密与否在创建时确定，之后只能以相同方式保存；加密笔记只接受格式有效的密文
+  if (existing && !!existing.encrypted !== !!encrypted) {
+    return c.json({ error: existing.encrypted ? 'Note is encrypted' : 'Note is not encrypted' }, 400);
+  }
+  if (encrypted && !isEncryptedContent(content)) {
+    return c.json({ error: 'Invalid encrypted content' }, 400);
+  }
+  
+  let version: number;
+  // 通过验证的锁定笔记返回续期后的会话令牌，编辑期间令牌不会过期
+  let token: string | undefined;
+  
+  if (existing) {
+    // 检查锁定（密码或会话令牌）。通过编辑权限的分享链接保存时不下发会话令牌，撤销链接后随即无法保存
+    const editLocked = existing.is_locked && !!existing.password_hash;
+    if (editLocked && await shareAccess(c, existing, false) !== 'edit') {
+      const rejected = await rejectNoteCredential(c, existing, options.password, 'edit');
+      if (rejected) {
+        return rejected;
+      }
+      
+      token = await issueNoteSessionToken(c, path, existing.password_hash!);
+    }
+    
+    // 更新过期设置
+    if (options.expiry) {
+      await setExpiry(c.env.DB, path, options.expiry);
+      await c.env.CACHE.delete(`note:${path}`);
+    }
+    
+    // 内容未变化，无需写入
+    if (existing.content === content) {
+      return c.json({ success: true, version: existing.version, token });
+    }
+    
+    // 基于旧版本的保存视为冲突，返回服务器当前内容
+    if (options.baseVersion !== null && options.baseVersion !== existing.version) {
+      return conflictResponse(c, existing, editLocked);
+    }
+    
+    // 以版本号为条件更新，防止并发保存互相覆盖
+    const result = await c.env.DB
+      .prepare('UPDATE notes SET content = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE path = ? AND version = ?')
+      .bind(content, path, existing.version)
+      .run();
+    
+    if (!result.meta?.changes) {
+      const current = await c.env.DB
+        .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+        .bind(path)
+        .first<Note>();
+      return conflictResponse(c, current || existing, editLocked);
+    }
+    
+    version = existing.version + 1;
+    
+    // 清除缓存
+    await c.env.CACHE.delete(`note:${path}`);
+  } else {
+    // 创建新笔记
+    const result = await c.env.DB
+      .prepare('INSERT INTO notes (path, path_key, content, format, encrypted) VALUES (?, ?, ?, ?, ?) ON CONFLICT(path) DO NOTHING')
+      .bind(path, pathKey(path), content, format, encrypted ? 1 : 0)
+      .run();
+    
+    // 其他客户端抢先创建了同一路径
+    if (!result.meta?.changes) {
+      const current = await c.env.DB
+        .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+        .bind(path)
+        .first<Note>();
+      if (current) {
+        return conflictResponse(c, current, false);
+      }
+    }
+    
+    if (options.expiry) {
+      await setExpiry(c.env.DB, path, options.expiry);
+    }
+    
+    version = 1;
+  }
+  
+  // 更新搜索索引和链接
+  await indexNote(c.env.DB, path);
+  await updateNoteLinks(c.env.DB, path);
+  
+  // 记录修订历史（限制查看次数的笔记和加密笔记不保留历史）
+  const viewLimited = options.expiry ? options.expiry.remaining_views !== null : !!existing && isViewLimited(existing);
+  if (!viewLimited && !encrypted) {
+    const revisionLimit = parseInt(c.env.REVISION_LIMIT) || 50;
+    await recordRevision(c.env.DB, path, content, revisionLimit, existing?.content, format);
+  }
+  
+  // 通知其他正在查看该笔记的客户端
+  publishNoteEvent(path, { type: 'saved', version, client: c.req.header('X-Client-Id') });
+  
+  c.header('ETag', `"${version}"`);
+  return c.json({ success: true, version, token });
+}
+
 // 保存笔记
 api.post('/note/:path', async (c) => {
   const path = c.req.param('path');
   const minLength = parseInt(c.env.PATH_MIN_LENGTH) || 1;
   const maxLength = parseInt(c.env.PATH_MAX_LENGTH) || 20;
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH) || 5;
   
-  if (!validatePath(path, minLength, maxLength)) {
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
     return c.json({ error: 'Invalid path' }, 400);
   }
   
   const body = await c.req.json<{
     content: string;
+    format?: NoteFormat;
+    encrypted?: boolean;
     password?: string;
-  }>();
+    base_version?: number;
+  } & ExpiryOptions>();
   
-  const content = sanitizeHtml(body.content || '');
+  if (body.format !== undefined && !isNoteFormat(body.format)) {
+    return c.json({ error: 'Invalid format' }, 400);
+  }
   
-  // 检查是否存在
-  const existing = await c.env.DB
+  let expiry: NoteExpiry | null = null;
+  if (hasExpiryOptions(body)) {
+    expiry = parseExpiry(body);
+    if (!expiry) {
+      return c.json({ error: 'Invalid expiry options' }, 400);
+    }
+  }
+  
+  // 格式在创建时确定；Markdown笔记保存源文本，渲染时再过滤；加密笔记的密文原样保存
+  return saveNoteContent(c, path, (existing) => {
+    const format = existing ? existing.format : body.format || 'html';
+    if (body.encrypted) {
+      return { content: body.content || '', format, encrypted: true };
+    }
+    return { content: format === 'markdown' ? body.content || '' : sanitizeHtml(body.content || ''), format };
+  }, {
+    password: body.password,
+    baseVersion: parseBaseVersion(body.base_version, c.req.header('If-Match')),
+    expiry
+  });
+});
+
+// 追加内容到笔记末尾（JSON请求体，或纯文本请求体配合 X-Note-Password 请求头）。
+// 追加锁定的笔记任何人都可以追加，其他锁定类型需要密码
+api.post('/note/:path/append', async (c) => {
+  const path = c.req.param('path');
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH) || 1;
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH) || 20;
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH) || 5;
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  type AppendBody = { text?: string; format?: NoteFormat; password?: string };
+  const body: AppendBody = (c.req.header('Content-Type') || '').includes('application/json')
+    ? await c.req.json<AppendBody>().catch(() => ({}))
+    : { text: await c.req.text() };
+  const password = body.password ?? readPasswordHeader(c.req.header('X-Note-Password'));
+  
+  if (typeof body.text !== 'string' || !body.text.trim()) {
+    return c.json({ error: 'Content cannot be empty' }, 400);
+  }
+  
+  if (body.format !== undefined && !isNoteFormat(body.format)) {
+    return c.json({ error: 'Invalid format' }, 400);
+  }
+  
+  let existing = await c.env.DB
     .prepare('SELECT * FROM notes WHERE path = ?')
     .bind(path)
     .first<Note>();
   
-  if (existing) {
-    // 检查锁定
-    if (existing.is_locked && existing.password_hash) {
-      if (!body.password) {
-        return c.json({ error: 'Password required' }, 403);
-      }
-      
-      const valid = await verifyPassword(body.password, existing.password_hash);
-      if (!valid) {
-        return c.json({ error: 'Invalid password' }, 403);
-      }
+  if (existing?.deleted_at) {
+    return c.json({ error: 'Note is in trash' }, 410);
+  }
+  
+  // 已过期的笔记先清理，追加时重新创建
+  if (existing && isExpired(existing)) {
+    await purgeNote(c.env.DB, c.env.CACHE, path);
+    existing = null;
+  }
+  
+  // 加密笔记只能在浏览器中解密后编辑，服务器无法追加内容
+  if (existing?.encrypted) {
+    return c.json({ error: 'Note is encrypted' }, 400);
+  }
+  
+  if (existing && existing.is_locked && existing.lock_type !== 'append') {
+    const rejected = await rejectNoteCredential(c, existing, password, 'edit');
+    if (rejected) {
+      return rejected;
     }
-    
-    // 更新笔记
-    await c.env.DB
-      .prepare('UPDATE notes SET content = ?, updated_at = CURRENT_TIMESTAMP WHERE path = ?')
-      .bind(content, path)
-      .run();
-    
-    // 清除缓存
-    await c.env.CACHE.delete(`note:${path}`);
+  }
+  
+  const result = await appendToNote(c.env.DB, path, body.text, body.format || 'html');
+  if (!result) {
+    return c.json({ error: 'Database error' }, 500);
+  }
+  
+  await indexNote(c.env.DB, path);
+  await updateNoteLinks(c.env.DB, path);
+  
+  // 记录修订历史（限制查看次数的笔记不保留历史）
+  if (!existing || !isViewLimited(existing)) {
+    const revisionLimit = parseInt(c.env.REVISION_LIMIT) || 50;
+    await recordRevision(c.env.DB, path, result.content, revisionLimit, existing?.content, result.format);
+  }
+  
+  // 清除缓存
+  await c.env.CACHE.delete(`note:${path}`);
+  
+  publishNoteEvent(path, { type: 'saved', version: result.version, client: c.req.header('X-Client-Id') });
+  
+  c.header('ETag', `"${result.version}"`);
+  return c.json({ success: true, version: result.version });
+});
+
+// 以纯文本形式返回笔记内容，访问锁定的笔记通过 X-Note-Password 请求头传递密码
+async function rawNoteResponse(c: Context<{ Bindings: AppContext['env'] }>, path: string, type: RawType) {
+  let note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!note) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  if (isExpired(note)) {
+    await purgeNote(c.env.DB, c.env.CACHE, path);
+    return c.json({ error: 'Note has expired' }, 410);
+  }
+  
+  if (note.is_locked && note.lock_type === 'read') {
+    const rejected = await rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'view');
+    if (rejected) {
+      return rejected;
+    }
+  }
+  
+  // 限制查看次数的笔记每次读取消耗一次次数
+  if (isViewLimited(note)) {
+    const readable = await readViewLimitedNote(c.env.DB, c.env.CACHE, note);
+    if (!readable) {
+      return c.json({ error: 'Note has expired' }, 410);
+    }
+    note = readable;
   } else {
-    // 创建新笔记
-    await c.env.DB
-      .prepare('INSERT INTO notes (path, content) VALUES (?, ?)')
-      .bind(path, content)
+    c.env.DB.prepare('UPDATE notes SET view_count = view_count + 1 WHERE path = ?')
+      .bind(path)
       .run();
   }
   
-  return c.json({ success: true });
+  c.header('ETag', `"${note.version}"`);
+  c.header('Vary', 'Accept');
+  
+  // 加密笔记无法转换格式，总是原样返回密文
+  if (note.encrypted) {
+    c.header('Content-Type', 'application/json; charset=utf-8');
+    return c.body(note.content || '');
+  }
+  
+  c.header('Content-Type', `${type}; charset=utf-8`);
+  return c.body(renderRaw(note.content || '', note.format, type));
+}
+
+// 获取笔记原始内容（默认纯文本，可通过Accept选择text/markdown或text/html）
+raw.get('/:path{.+}/raw', async (c) => {
+  const path = c.req.param('path');
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH) || 1;
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH) || 20;
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH) || 5;
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  return rawNoteResponse(c, path, negotiateRawType(c.req.header('Accept'), false) ?? 'text/plain');
+});
+
+// 以纯文本请求体保存笔记，锁定的笔记通过 X-Note-Password 请求头传递密码，
+// 可使用 If-Match 请求头检查版本冲突
+raw.put('/:path{.+}/raw', async (c) => {
+  const path = c.req.param('path');
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH) || 1;
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH) || 20;
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH) || 5;
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  const text = await c.req.text();
+  const contentType = c.req.header('Content-Type');
+  
+  return saveNoteContent(c, path, (existing) => parseRawBody(text, contentType, existing?.format ?? null), {
+    password: readPasswordHeader(c.req.header('X-Note-Password')) ?? undefined,
+    baseVersion: parseBaseVersion(undefined, c.req.header('If-Match')),
+    expiry: null
+  });
 });
 
+api.route('/note', raw);
+
 // 解锁笔记
 api.post('/note/:path/unlock', async (c) => {
   const path = c.req.param('path');
   const { password } = await c.req.json<{ password: string }>();
   
   const note = await c.env.DB
-    .prepare('SELECT * FROM notes WHERE path = ?')
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
     .bind(path)
     .first<Note>();
   
@@ -138,40 +747,121 @@ api.post('/note/:path/unlock', async (c) => {
     return c.json({ error: 'Note not found or not locked' }, 404);
   }
   
-  const valid = await verifyPassword(password, note.password_hash);
-  if (!valid) {
-    return c.json({ error: 'Invalid password' }, 403);
+  const throttled = await rejectThrottledAttempt(c, path);
+  if (throttled) {
+    return throttled;
+  }
+  
+  const access = await passwordAccess(note, password);
+  if (!access) {
+    return rejectInvalidPassword(c, path);
   }
   
+  await clearUnlockFailures(c.env.CACHE, clientIp(c));
+  
+  // 会话令牌绑定所用密码的哈希，查看密码签发的令牌不能用于编辑
+  const sessionHash = access === 'edit' ? note.password_hash : note.view_password_hash!;
+  
   // 清除缓存
   await c.env.CACHE.delete(`note:${path}`);
   
+  if (isExpired(note)) {
+    await purgeNote(c.env.DB, c.env.CACHE, path);
+    return c.json({ error: 'Note has expired' }, 410);
+  }
+  
+  // 访问锁定的笔记下发附件访问令牌
+  if (note.lock_type === 'read') {
+    await setNoteAccessCookie(c, path);
+  }
+  
+  // 访问锁定且限制查看次数的笔记，解锁即读取
+  if (note.lock_type === 'read' && isViewLimited(note)) {
+    const readable = await readViewLimitedNote(c.env.DB, c.env.CACHE, note);
+    if (!readable) {
+      return c.json({ error: 'Note has expired' }, 410);
+    }
+    
+    return c.json({
+      success: true,
+      access,
+      note: toNoteResponse(readable),
+      token: await issueNoteSessionToken(c, path, sessionHash)
+    });
+  }
+  
   return c.json({
     success: true,
+    access,
+    token: await issueNoteSessionToken(c, path, sessionHash),
     note: {
       content: note.content,
+      format: note.format,
+      html: note.format === 'markdown' && !note.encrypted ? renderMarkdown(note.content || '') : undefined,
+      encrypted: !!note.encrypted,
       lock_type: note.lock_type,
       view_count: note.view_count,
       created_at: note.created_at,
-      updated_at: note.updated_at
+      updated_at: note.updated_at,
+      version: note.version,
+      expires_at: note.expires_at,
+      remaining_views: note.remaining_views,
+      burn_after_reading: note.burn_after_reading
     }
   });
 });
 
+// 锁定请求中的密码。分别设置查看密码和编辑密码时为访问锁定，password_hash保存编辑密码；
+// 只设置查看密码等同于单密码的访问锁定，只设置编辑密码等同于编辑锁定（可指定为追加锁定）
+function resolveLockPasswords(body: { password?: string; lock_type?: LockType; view_password?: string; edit_password?: string }): { lockType: LockType; password: string; viewPassword: string | null } | null {
+  if (body.view_password && body.edit_password) {
+    return { lockType: 'read', password: body.edit_password, viewPassword: body.view_password };
+  }
+  if (body.view_password) {
+    return { lockType: 'read', password: body.view_password, viewPassword: null };
+  }
+  if (body.edit_password) {
+    return { lockType: body.lock_type === 'append' ? 'append' : 'write', password: body.edit_password, viewPassword: null };
+  }
+  if (body.password && body.lock_type) {
+    return { lockType: body.lock_type, password: body.password, viewPassword: null };
+  }
+  return null;
+}
+
 // 设置锁定
 api.post('/note/:path/lock', async (c) => {
   const path = c.req.param('path');
-  const { password, lock_type } = await c.req.json<{
-    password: string;
-    lock_type: 'read' | 'write';
-  }>();
+  const body = await c.req.json<{
+    password?: string;
+    lock_type?: LockType;
+    view_password?: string;
+    edit_password?: string;
+  } & ExpiryOptions>();
+  
+  if (body.lock_type && body.lock_type !== 'read' && body.lock_type !== 'write' && body.lock_type !== 'append') {
+    return c.json({ error: 'Invalid lock_type' }, 400);
+  }
   
-  if (!password || !lock_type) {
+  const lock = resolveLockPasswords(body);
+  if (!lock) {
     return c.json({ error: 'Password and lock_type required' }, 400);
   }
   
+  if (lock.viewPassword === lock.password) {
+    return c.json({ error: 'View and edit passwords must differ' }, 400);
+  }
+  
+  let expiry: NoteExpiry | null = null;
+  if (hasExpiryOptions(body)) {
+    expiry = parseExpiry(body);
+    if (!expiry) {
+      return c.json({ error: 'Invalid expiry options' }, 400);
+    }
+  }
+  
   const note = await c.env.DB
-    .prepare('SELECT * FROM notes WHERE path = ?')
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
     .bind(path)
     .first<Note>();
   
@@ -179,17 +869,35 @@ api.post('/note/:path/lock', async (c) => {
     return c.json({ error: 'Note not found' }, 404);
   }
   
-  const passwordHash = await hashPassword(password);
-  
+  // 修改已有的锁定需要会话令牌或当前的编辑密码
+  if (note.is_locked) {
+    const rejected = await rejectNoteCredential(c, note, lock.password, 'edit', 'Invalid password');
+    if (rejected) {
+      return rejected;
+    }
+  }
+  
+  const passwordHash = await hashPassword(lock.password);
+  const viewPasswordHash = lock.viewPassword ? await hashPassword(lock.viewPassword) : null;
+  
   await c.env.DB
-    .prepare('UPDATE notes SET is_locked = 1, lock_type = ?, password_hash = ? WHERE path = ?')
-    .bind(lock_type, passwordHash, path)
+    .prepare('UPDATE notes SET is_locked = 1, lock_type = ?, password_hash = ?, view_password_hash = ? WHERE path = ?')
+    .bind(lock.lockType, passwordHash, viewPasswordHash, path)
     .run();
   
+  // 更换密码后此前生成的分享链接失效
+  await deleteShareLinks(c.env.DB, path);
+  
+  if (expiry) {
+    await setExpiry(c.env.DB, path, expiry);
+  }
+  
   // 清除缓存
   await c.env.CACHE.delete(`note:${path}`);
   
-  return c.json({ success: true });
+  publishNoteEvent(path, { type: 'locked', lock_type: lock.lockType, client: c.req.header('X-Client-Id') });
+  
+  return c.json({ success: true, token: await issueNoteSessionToken(c, path, passwordHash) });
 });
 
 // 移除锁定
@@ -198,7 +906,7 @@ api.delete('/note/:path/lock', async (c) => {
   const { password } = await c.req.json<{ password: string }>();
   
   const note = await c.env.DB
-    .prepare('SELECT * FROM notes WHERE path = ?')
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
     .bind(path)
     .first<Note>();
   
@@ -206,20 +914,805 @@ api.delete('/note/:path/lock', async (c) => {
     return c.json({ error: 'Note not found or not locked' }, 404);
   }
   
-  const valid = await verifyPassword(password, note.password_hash);
-  if (!valid) {
-    return c.json({ error: 'Invalid password' }, 403);
+  const rejected = await rejectNoteCredential(c, note, password, 'edit', 'Invalid password');
+  if (rejected) {
+    return rejected;
+  }
+  
+  await c.env.DB
+    .prepare('UPDATE notes SET is_locked = 0, lock_type = NULL, password_hash = NULL, view_password_hash = NULL WHERE path = ?')
+    .bind(path)
+    .run();
+  await deleteShareLinks(c.env.DB, path);
+  
+  // 清除缓存
+  await c.env.CACHE.delete(`note:${path}`);
+  
+  publishNoteEvent(path, { type: 'unlocked', client: c.req.header('X-Client-Id') });
+  
+  return c.json({ success: true });
+});
+
+// 生成分享链接：持有编辑密码可以生成查看或编辑链接，持有查看密码只能生成查看链接。
+// 查看链接只用于访问锁定的笔记
+api.post('/note/:path/shares', async (c) => {
+  const path = c.req.param('path');
+  const body = await c.req.json<ShareRequest>();
+  
+  const options = parseShareOptions(body);
+  if (!options) {
+    return c.json({ error: 'Invalid share options' }, 400);
+  }
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!note || !note.is_locked || !note.password_hash) {
+    return c.json({ error: 'Note not found or not locked' }, 404);
+  }
+  
+  if (options.access === 'view' && note.lock_type !== 'read') {
+    return c.json({ error: 'View links require a read lock' }, 400);
+  }
+  
+  const rejected = await rejectNoteCredential(c, note, body.password, options.access, 'Invalid password');
+  if (rejected) {
+    return rejected;
+  }
+  
+  const link = await createShareLink(c.env.DB, path, options);
+  if (!link) {
+    return c.json({ error: 'Too many share links' }, 400);
+  }
+  
+  return c.json({ success: true, share: { ...link, url: await shareUrl(c, link) } });
+});
+
+// 获取笔记的分享链接（需要编辑密码或会话令牌）
+api.get('/note/:path/shares', async (c) => {
+  const path = c.req.param('path');
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!note) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  if (!note.is_locked || !note.password_hash) {
+    return c.json({ shares: [] });
+  }
+  
+  const rejected = await rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'edit', 'Invalid password');
+  if (rejected) {
+    return rejected;
+  }
+  
+  const links = await listShareLinks(c.env.DB, path);
+  const shares = await Promise.all(links.map(async (link) => ({ ...link, url: await shareUrl(c, link) })));
+  
+  return c.json({ shares });
+});
+
+// 撤销分享链接（需要编辑密码或会话令牌）
+api.delete('/note/:path/shares/:id', async (c) => {
+  const path = c.req.param('path');
+  const id = c.req.param('id');
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!note) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  const rejected = await rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'edit', 'Invalid password');
+  if (rejected) {
+    return rejected;
+  }
+  
+  const revoked = await revokeShareLink(c.env.DB, id!, path!);
+  if (!revoked) {
+    return c.json({ error: 'Share link not found' }, 404);
+  }
+  
+  return c.json({ success: true });
+});
+
+// 是否可以订阅笔记的变更事件：访问锁定的笔记需要会话令牌或分享链接，
+// EventSource无法携带请求头，令牌通过token查询参数传递
+async function canSubscribeEvents(c: Context<{ Bindings: AppContext['env'] }>, note: Note | null): Promise<boolean> {
+  if (!note || !note.is_locked || note.lock_type !== 'read' || !note.password_hash) {
+    return true;
+  }
+  
+  return await verifyNoteToken(c, note, 'view', c.req.query('token')) || !!(await shareAccess(c, note, false));
+}
+
+// 笔记变更事件流（SSE），推送其他客户端的保存和锁定变化
+api.get('/note/:path/events', async (c) => {
+  const path = c.req.param('path');
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH) || 1;
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH) || 20;
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH) || 5;
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!(await canSubscribeEvents(c, note))) {
+    return c.json({ error: 'Password required' }, 403);
+  }
+  
+  return streamSSE(c, async (stream) => {
+    const unsubscribe = subscribeNoteEvents(path, (event) => {
+      stream.writeSSE({ event: event.type, data: JSON.stringify(event) });
+    });
+    stream.onAbort(unsubscribe);
+    
+    // 定期发送心跳，避免空闲连接被代理断开
+    while (!stream.aborted) {
+      await stream.write(': ping\n\n');
+      await stream.sleep(25000);
+    }
+  });
+});
+
+// 获取修订历史列表
+api.get('/note/:path/revisions', async (c) => {
+  const path = c.req.param('path');
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!note) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  const rejected = await rejectUnreadableNote(c, note, readPasswordHeader(c.req.header('X-Note-Password')));
+  if (rejected) {
+    return rejected;
+  }
+  
+  const { results } = await c.env.DB
+    .prepare('SELECT id, created_at, LENGTH(content) AS size FROM note_revisions WHERE path = ? ORDER BY id DESC')
+    .bind(path)
+    .all<{ id: number; created_at: string; size: number }>();
+  
+  return c.json({ revisions: results });
+});
+
+// 对比两个修订版本（to 可以是 current，表示当前内容）
+api.get('/note/:path/revisions/diff', async (c) => {
+  const path = c.req.param('path');
+  const from = parseInt(c.req.query('from') || '');
+  const to = c.req.query('to') || 'current';
+  
+  if (isNaN(from) || (to !== 'current' && isNaN(parseInt(to)))) {
+    return c.json({ error: 'Invalid revision id' }, 400);
+  }
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!note) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  const rejected = await rejectUnreadableNote(c, note, readPasswordHeader(c.req.header('X-Note-Password')));
+  if (rejected) {
+    return rejected;
+  }
+  
+  const base = await c.env.DB
+    .prepare('SELECT * FROM note_revisions WHERE path = ? AND id = ?')
+    .bind(path, from)
+    .first<NoteRevision>();
+  
+  const target = to === 'current'
+    ? { content: note.content || '', format: note.format }
+    : await c.env.DB
+        .prepare('SELECT * FROM note_revisions WHERE path = ? AND id = ?')
+        .bind(path, parseInt(to))
+        .first<NoteRevision>();
+  
+  if (!base || !target) {
+    return c.json({ error: 'Revision not found' }, 404);
+  }
+  
+  return c.json({
+    from,
+    to,
+    diff: diffLines(noteText(base.content, base.format), noteText(target.content, target.format))
+  });
+});
+
+// 获取单个修订版本
+api.get('/note/:path/revisions/:id', async (c) => {
+  const path = c.req.param('path');
+  const id = parseInt(c.req.param('id'));
+  
+  if (isNaN(id)) {
+    return c.json({ error: 'Invalid revision id' }, 400);
+  }
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!note) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  const rejected = await rejectUnreadableNote(c, note, readPasswordHeader(c.req.header('X-Note-Password')));
+  if (rejected) {
+    return rejected;
+  }
+  
+  const revision = await c.env.DB
+    .prepare('SELECT * FROM note_revisions WHERE path = ? AND id = ?')
+    .bind(path, id)
+    .first<NoteRevision>();
+  
+  if (!revision) {
+    return c.json({ error: 'Revision not found' }, 404);
+  }
+  
+  return c.json(revision);
+});
+
+// 恢复到指定修订版本
+api.post('/note/:path/revisions/:id/restore', async (c) => {
+  const path = c.req.param('path');
+  const id = parseInt(c.req.param('id'));
+  const { password } = await c.req.json<{ password?: string }>().catch(() => ({ password: undefined }));
+  
+  if (isNaN(id)) {
+    return c.json({ error: 'Invalid revision id' }, 400);
+  }
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!note) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  // 锁定的笔记需要密码才能恢复
+  if (note.is_locked) {
+    const rejected = await rejectNoteCredential(c, note, password, 'edit');
+    if (rejected) {
+      return rejected;
+    }
   }
   
+  const revision = await c.env.DB
+    .prepare('SELECT * FROM note_revisions WHERE path = ? AND id = ?')
+    .bind(path, id)
+    .first<NoteRevision>();
+  
+  if (!revision) {
+    return c.json({ error: 'Revision not found' }, 404);
+  }
+  
+  // 旧版本可能是在当前的过滤规则之前保存的
+  const content = revision.format === 'markdown' ? revision.content : sanitizeHtml(revision.content);
+  
   await c.env.DB
-    .prepare('UPDATE notes SET is_locked = 0, lock_type = NULL, password_hash = NULL WHERE path = ?')
+    .prepare('UPDATE notes SET content = ?, format = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE path = ?')
+    .bind(content, revision.format, path)
+    .run();
+  
+  const revisionLimit = parseInt(c.env.REVISION_LIMIT) || 50;
+  await recordRevision(c.env.DB, path, content, revisionLimit, note.content, revision.format);
+  await indexNote(c.env.DB, path);
+  await updateNoteLinks(c.env.DB, path);
+  
+  // 清除缓存
+  await c.env.CACHE.delete(`note:${path}`);
+  
+  publishNoteEvent(path, { type: 'saved', version: note.version + 1, client: c.req.header('X-Client-Id') });
+  
+  return c.json({ success: true, content, format: revision.format, version: note.version + 1 });
+});
+
+// 转换笔记格式（HTML与Markdown互相转换），转换前的内容保留在修订历史中
+api.post('/note/:path/format', async (c) => {
+  const path = c.req.param('path');
+  const body = await c.req.json<{
+    format: NoteFormat;
+    password?: string;
+    base_version?: number;
+  }>().catch(() => ({} as { format?: NoteFormat; password?: string; base_version?: number }));
+  
+  if (!isNoteFormat(body.format)) {
+    return c.json({ error: 'Invalid format' }, 400);
+  }
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
     .bind(path)
+    .first<Note>();
+  
+  if (!note) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  if (note.encrypted) {
+    return c.json({ error: 'Note is encrypted' }, 400);
+  }
+  
+  // 锁定的笔记需要密码才能转换
+  if (note.is_locked) {
+    const rejected = await rejectNoteCredential(c, note, body.password, 'edit');
+    if (rejected) {
+      return rejected;
+    }
+  }
+  
+  if (note.format === body.format) {
+    return c.json({ success: true, content: note.content || '', format: note.format, version: note.version });
+  }
+  
+  const baseVersion = parseBaseVersion(body.base_version, c.req.header('If-Match'));
+  if (baseVersion !== null && baseVersion !== note.version) {
+    return conflictResponse(c, note, true);
+  }
+  
+  const content = body.format === 'markdown'
+    ? htmlToMarkdown(note.content || '')
+    : renderMarkdown(note.content || '');
+  
+  const result = await c.env.DB
+    .prepare('UPDATE notes SET content = ?, format = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE path = ? AND version = ?')
+    .bind(content, body.format, path, note.version)
     .run();
   
+  if (!result.meta?.changes) {
+    const current = await c.env.DB
+      .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+      .bind(path)
+      .first<Note>();
+    return conflictResponse(c, current || note, true);
+  }
+  
+  // 先记录转换前的内容，再记录转换结果（限制查看次数的笔记不保留历史）
+  if (!isViewLimited(note)) {
+    const revisionLimit = parseInt(c.env.REVISION_LIMIT) || 50;
+    await recordRevision(c.env.DB, path, note.content || '', revisionLimit, null, note.format);
+    await recordRevision(c.env.DB, path, content, revisionLimit, null, body.format);
+  }
+  
+  await indexNote(c.env.DB, path);
+  await updateNoteLinks(c.env.DB, path);
+  
   // 清除缓存
   await c.env.CACHE.delete(`note:${path}`);
   
+  const version = note.version + 1;
+  publishNoteEvent(path, { type: 'saved', version, client: c.req.header('X-Client-Id') });
+  
+  c.header('ETag', `"${version}"`);
+  return c.json({ success: true, content, format: body.format, version });
+});
+
+// 重命名笔记（移动到新路径），锁定的笔记需要密码；默认保留旧路径作为重定向别名
+api.post('/note/:path/rename', async (c) => {
+  const path = c.req.param('path');
+  const body = await c.req.json<{
+    new_path: string;
+    keep_alias?: boolean;
+    password?: string;
+  }>().catch(() => ({} as { new_path?: string; keep_alias?: boolean; password?: string }));
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH) || 1;
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH) || 20;
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH) || 5;
+  
+  if (typeof body.new_path !== 'string' || !validatePath(body.new_path, minLength, maxLength, maxDepth) || body.new_path === path) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!note) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  // 锁定的笔记需要密码才能重命名
+  if (note.is_locked) {
+    const rejected = await rejectNoteCredential(c, note, body.password, 'edit');
+    if (rejected) {
+      return rejected;
+    }
+  }
+  
+  const result = await renameNote(c.env.DB, c.env.CACHE, path, body.new_path, body.keep_alias !== false, c.env.PATH_CASE_POLICY === 'insensitive');
+  if (result === 'exists') {
+    return c.json({ error: 'Path already exists' }, 409);
+  }
+  if (result === 'not_found') {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  // 通知正在查看旧路径的客户端
+  publishNoteEvent(path, { type: 'renamed', path: body.new_path, client: c.req.header('X-Client-Id') });
+  
+  return c.json({ success: true, path: body.new_path });
+});
+
+// 列出文件夹（路径前缀）下的子笔记和子文件夹，多级前缀编码为一段
+api.get('/folder/:prefix', async (c) => {
+  const prefix = c.req.param('prefix');
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH) || 1;
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH) || 20;
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH) || 5;
+  
+  if (!validatePath(prefix, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  return c.json(await listFolder(c.env.DB, prefix, c.env.PATH_CASE_POLICY === 'insensitive'));
+});
+
+// 获取链接到笔记的其他笔记，笔记尚未创建时也可查看
+api.get('/note/:path/backlinks', async (c) => {
+  const path = c.req.param('path');
+  
+  return c.json({ backlinks: await getBacklinks(c.env.DB, path, c.env.PATH_CASE_POLICY === 'insensitive') });
+});
+
+// 获取所有标签及其笔记数量（不包括访问锁定的笔记）
+api.get('/tags', async (c) => {
+  return c.json({ tags: await listTags(c.env.DB, false) });
+});
+
+// 列出带有某个标签的笔记（不包括访问锁定的笔记）
+api.get('/tags/:tag', async (c) => {
+  const tag = normalizeTag(c.req.param('tag'));
+  
+  if (!tag) {
+    return c.json({ error: 'Invalid tag' }, 400);
+  }
+  
+  return c.json({ tag, notes: await listNotesByTag(c.env.DB, tag, false) });
+});
+
+// 获取可用的笔记模板
+api.get('/templates', async (c) => {
+  const templates = await listTemplates(c.env.DB);
+  
+  return c.json({
+    templates: templates.map(({ name, description, format }) => ({ name, description, format }))
+  });
+});
+
+// 获取替换占位符后的模板内容，path为新笔记路径，tz为浏览器时区
+api.get('/templates/:name', async (c) => {
+  const name = c.req.param('name');
+  const path = c.req.query('path') || '';
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH) || 1;
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH) || 20;
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH) || 5;
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  const template = await getTemplate(c.env.DB, name);
+  if (!template) {
+    return c.json({ error: 'Template not found' }, 404);
+  }
+  
+  return c.json({
+    name: template.name,
+    format: template.format,
+    content: renderTemplate(template.content, path, new Date(), c.req.query('tz'))
+  });
+});
+
+// 标签读取权限，无权时返回错误响应：访问锁定的笔记需要密码，以免未解锁的访问者得知其标签
+async function rejectTagRead(c: Context<{ Bindings: AppContext['env'] }>, note: Note) {
+  return note.is_locked && note.lock_type === 'read'
+    ? rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'view')
+    : null;
+}
+
+// 标签修改权限，无权时返回错误响应：锁定的笔记需要密码
+async function rejectTagEdit(c: Context<{ Bindings: AppContext['env'] }>, note: Note) {
+  return note.is_locked
+    ? rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'edit', 'Password required for editing')
+    : null;
+}
+
+// 获取笔记的标签
+api.get('/note/:path/tags', async (c) => {
+  const path = c.req.param('path');
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!note || isExpired(note)) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  const rejected = await rejectTagRead(c, note);
+  if (rejected) {
+    return rejected;
+  }
+  
+  return c.json({ tags: await getNoteTags(c.env.DB, path!) });
+});
+
+// 给笔记添加标签
+api.post('/note/:path/tags', async (c) => {
+  const path = c.req.param('path');
+  const body = await c.req.json<{ tag?: string }>().catch(() => ({ tag: undefined }));
+  const tag = typeof body.tag === 'string' ? normalizeTag(body.tag) : null;
+  
+  if (!tag) {
+    return c.json({ error: 'Invalid tag' }, 400);
+  }
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!note || isExpired(note)) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  const rejected = await rejectTagEdit(c, note);
+  if (rejected) {
+    return rejected;
+  }
+  
+  if (!(await addNoteTag(c.env.DB, path!, tag))) {
+    return c.json({ error: 'Too many tags' }, 400);
+  }
+  
+  return c.json({ tags: await getNoteTags(c.env.DB, path!) });
+});
+
+// 移除笔记的标签
+api.delete('/note/:path/tags/:tag', async (c) => {
+  const path = c.req.param('path');
+  const tag = normalizeTag(c.req.param('tag')!);
+  
+  if (!tag) {
+    return c.json({ error: 'Invalid tag' }, 400);
+  }
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL')
+    .bind(path)
+    .first<Note>();
+  
+  if (!note || isExpired(note)) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  const rejected = await rejectTagEdit(c, note);
+  if (rejected) {
+    return rejected;
+  }
+  
+  await removeNoteTag(c.env.DB, path!, tag);
+  
+  return c.json({ tags: await getNoteTags(c.env.DB, path!) });
+});
+
+// 渲染Markdown预览（与服务器渲染笔记使用相同的规则和过滤）
+api.post('/markdown', async (c) => {
+  const body = await c.req.json<{ content?: string }>().catch(() => ({ content: undefined }));
+  
+  if (typeof body.content !== 'string') {
+    return c.json({ error: 'Content required' }, 400);
+  }
+  
+  return c.json({ html: renderMarkdown(body.content) });
+});
+
+// 上传附件（multipart/form-data，字段名 file）
+api.post('/note/:path/attachments', async (c) => {
+  const path = c.req.param('path');
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH) || 1;
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH) || 20;
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH) || 5;
+  const maxSize = parseInt(c.env.ATTACHMENT_MAX_SIZE) || 10485760;
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ?')
+    .bind(path)
+    .first<Note>();
+  
+  // 尚未创建的路径任何人都可以上传，其他情况按笔记的锁定状态检查
+  if (note && !(await canAccessAttachments(c, path, note))) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  const rejected = note && await rejectAttachmentWrite(c, note);
+  if (rejected) {
+    return rejected;
+  }
+  
+  // 附件以明文保存，加密笔记不能上传附件
+  if (note?.encrypted) {
+    return c.json({ error: 'Note is encrypted' }, 400);
+  }
+  
+  const body = await c.req.parseBody();
+  const file = body['file'];
+  
+  if (!(file instanceof File)) {
+    return c.json({ error: 'File required' }, 400);
+  }
+  
+  if (file.size > maxSize) {
+    return c.json({ error: 'File too large' }, 413);
+  }
+  
+  const id = generateAttachmentId();
+  const filename = (file.name || 'file').slice(0, 255);
+  const contentType = file.type || 'application/octet-stream';
+  
+  const stored = await c.env.STORAGE.put(attachmentKey(id), await file.arrayBuffer());
+  if (!stored) {
+    return c.json({ error: 'Upload failed' }, 500);
+  }
+  
+  await c.env.DB
+    .prepare('INSERT INTO attachments (id, path, filename, content_type, size) VALUES (?, ?, ?, ?, ?)')
+    .bind(id, path, filename, contentType, file.size)
+    .run();
+  
+  // 上传到尚未创建的笔记时下发访问令牌，保存笔记前上传者即可查看和删除附件
+  if (!note) {
+    await setNoteAccessCookie(c, path);
+  }
+  
+  return c.json({
+    id,
+    filename,
+    content_type: contentType,
+    size: file.size,
+    url: attachmentUrl(path, id)
+  }, 201);
+});
+
+// 获取附件列表
+api.get('/note/:path/attachments', async (c) => {
+  const path = c.req.param('path');
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ?')
+    .bind(path)
+    .first<Note>();
+  
+  if (!(await canAccessAttachments(c, path, note))) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  const rejected = note && await rejectAttachmentRead(c, note);
+  if (rejected) {
+    return rejected;
+  }
+  
+  const { results } = await c.env.DB
+    .prepare('SELECT * FROM attachments WHERE path = ? ORDER BY created_at DESC')
+    .bind(path)
+    .all<Attachment>();
+  
+  return c.json({
+    attachments: results.map((attachment) => ({
+      ...attachment,
+      url: attachmentUrl(path, attachment.id)
+    }))
+  });
+});
+
+// 下载附件（仅常见图片类型内联显示，其余按下载处理）
+api.get('/note/:path/attachments/:id', async (c) => {
+  const path = c.req.param('path');
+  const id = c.req.param('id');
+  
+  const attachment = await c.env.DB
+    .prepare('SELECT * FROM attachments WHERE path = ? AND id = ?')
+    .bind(path, id)
+    .first<Attachment>();
+  
+  if (!attachment) {
+    return c.json({ error: 'Attachment not found' }, 404);
+  }
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ?')
+    .bind(path)
+    .first<Note>();
+  
+  if (!(await canAccessAttachments(c, path, note))) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  const rejected = note && await rejectAttachmentRead(c, note);
+  if (rejected) {
+    return rejected;
+  }
+  
+  const object = await c.env.STORAGE.get(attachmentKey(id));
+  if (!object) {
+    return c.json({ error: 'Attachment not found' }, 404);
+  }
+  
+  const inline = isInlineType(attachment.content_type);
+  return c.body(await object.arrayBuffer(), 200, {
+    'Content-Type': inline ? attachment.content_type : 'application/octet-stream',
+    'Content-Length': String(attachment.size),
+    'Content-Disposition': contentDisposition(attachment.filename, inline),
+    'X-Content-Type-Options': 'nosniff',
+    'Cache-Control': 'private, max-age=3600'
+  });
+});
+
+// 删除附件
+api.delete('/note/:path/attachments/:id', async (c) => {
+  const path = c.req.param('path');
+  const id = c.req.param('id');
+  
+  const note = await c.env.DB
+    .prepare('SELECT * FROM notes WHERE path = ?')
+    .bind(path)
+    .first<Note>();
+  
+  if (!(await canAccessAttachments(c, path, note))) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+  
+  const rejected = note && await rejectAttachmentWrite(c, note);
+  if (rejected) {
+    return rejected;
+  }
+  
+  const result = await c.env.DB
+    .prepare('DELETE FROM attachments WHERE path = ? AND id = ?')
+    .bind(path, id)
+    .run();
+  
+  if (!result.meta?.changes) {
+    return c.json({ error: 'Attachment not found' }, 404);
+  }
+  
+  await c.env.STORAGE.delete(attachmentKey(id));
+  
   return c.json({ success: true });
 });
 
+export { raw as rawRoutes };
 export default api;
\ No newline at end of file
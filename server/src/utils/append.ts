@@ -0,0 +1,35 @@
+import type { NoteFormat } from '../types';
+import type { D1Database } from '../adapters/database';
+import { textToHtml } from './text';
+import { pathKey } from './crypto';
+
+// 时间戳由数据库生成，与追加的先后顺序一致
+const TIMESTAMP = "datetime('now') || ' UTC'";
+const HTML_BLOCK = `'<p><strong>' || ${TIMESTAMP} || '</strong></p>' || ?`;
+const MARKDOWN_BLOCK = `'**' || ${TIMESTAMP} || '**' || char(10) || char(10) || ?`;
+
+// 在笔记末尾追加带时间戳的内容块（笔记不存在时创建）。
+// 读取和拼接在同一条SQL语句中完成，并发追加不会互相覆盖
+export async function appendToNote(
+  db: D1Database,
+  path: string,
+  text: string,
+  format: NoteFormat
+): Promise<{ version: number; content: string; format: NoteFormat } | null> {
+  const markdown = text.replace(/\r\n?/g, '\n').trim();
+  const html = textToHtml(markdown);
+
+  return db.prepare(
+    `INSERT INTO notes (path, path_key, content, format)
+     VALUES (?, ?, CASE ? WHEN 'markdown' THEN ${MARKDOWN_BLOCK} ELSE ${HTML_BLOCK} END, ?)
+     ON CONFLICT(path) DO UPDATE SET
+       content = COALESCE(notes.content, '') || CASE notes.format
+         WHEN 'markdown' THEN CASE WHEN COALESCE(notes.content, '') = '' THEN '' ELSE char(10) || char(10) END || ${MARKDOWN_BLOCK}
+         ELSE ${HTML_BLOCK}
+       END,
+       version = notes.version + 1,
+       updated_at = CURRENT_TIMESTAMP
+     WHERE notes.deleted_at IS NULL
+     RETURNING version, content, format`
+  ).bind(path, pathKey(path), format, markdown, html, format, markdown, html).first<{ version: number; content: string; format: NoteFormat }>();
+}
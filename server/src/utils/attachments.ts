@@ -0,0 +1,52 @@
+import type { D1Database } from '../adapters/database';
+import type { R2Bucket } from '../adapters/storage';
+
+// 允许在浏览器中直接显示的图片类型（SVG可能包含脚本，按下载处理）
+const INLINE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/bmp', 'image/avif'];
+
+// 未保存的新笔记上传的附件保留一段时间，超过后视为孤立附件清理
+const ORPHAN_GRACE_PERIOD = '-1 day';
+
+export function generateAttachmentId(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+export function attachmentKey(id: string): string {
+  return `attachments/${id}`;
+}
+
+export function isInlineType(contentType: string): boolean {
+  return INLINE_TYPES.includes(contentType);
+}
+
+export function contentDisposition(filename: string, inline: boolean): string {
+  return `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+// 删除笔记的全部附件
+export async function deleteAttachments(db: D1Database, storage: R2Bucket, path: string): Promise<void> {
+  const { results } = await db.prepare(
+    'SELECT id FROM attachments WHERE path = ?'
+  ).bind(path).all<{ id: string }>();
+
+  for (const attachment of results) {
+    await storage.delete(attachmentKey(attachment.id));
+  }
+
+  await db.prepare('DELETE FROM attachments WHERE path = ?').bind(path).run();
+}
+
+// 定时任务：清理笔记已不存在的附件，返回清理数量
+export async function purgeOrphanedAttachments(db: D1Database, storage: R2Bucket): Promise<number> {
+  const { results } = await db.prepare(
+    `SELECT id FROM attachments
+     WHERE path NOT IN (SELECT path FROM notes) AND created_at <= datetime('now', ?)`
+  ).bind(ORPHAN_GRACE_PERIOD).all<{ id: string }>();
+
+  for (const attachment of results) {
+    await storage.delete(attachmentKey(attachment.id));
+    await db.prepare('DELETE FROM attachments WHERE id = ?').bind(attachment.id).run();
+  }
+
+  return results.length;
+}
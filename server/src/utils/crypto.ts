@@ -27,39 +27,55 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   });
 }
 
-export function generateRandomPath(length: number): string {
-  const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
+// 默认路径字符集：去掉容易混淆的 0/o、1/l
+export const DEFAULT_PATH_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+
+export function generateRandomPath(length: number, chars: string = DEFAULT_PATH_ALPHABET): string {
+  const alphabet = [...chars];
   let result = '';
   const array = crypto.randomBytes(length);
   
   for (let i = 0; i < length; i++) {
-    result += chars[array[i] % chars.length];
+    result += alphabet[array[i] % alphabet.length];
   }
   
   return result;
 }
 
-export function validatePath(path: string, minLength: number, maxLength: number): boolean {
-  if (!path || path === 'admin' || path === 'api' || path === 'static') {
+// 0 到 max-1 之间的随机整数
+export function randomIndex(max: number): number {
+  return crypto.randomInt(max);
+}
+
+// 路径由最多 maxDepth 段组成（以 / 分隔），每段可以包含任意语言的字母和数字（如中文），
+// 长度按字符计算，限制作用于每一段；路径需已经过NFC规范化
+export function validatePath(path: string, minLength: number, maxLength: number, maxDepth: number = 1): boolean {
+  if (!path || path !== path.normalize('NFC')) {
     return false;
   }
   
-  if (path.length < minLength || path.length > maxLength) {
+  const segments = path.split('/');
+  if (segments.length > maxDepth) {
     return false;
   }
   
-  return /^[a-zA-Z0-9-_]+$/.test(path);
-}
-
-export function sanitizeHtml(html: string): string {
-  // 基础XSS防护，移除危险标签和属性
-  const dangerousTags = /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi;
-  const dangerousAttrs = /on\w+\s*=\s*["'][^"']*["']/gi;
-  const dangerousProtocols = /javascript:|data:text\/html/gi;
+  // 第一段不能是保留路径
+  if (segments[0] === 'admin' || segments[0] === 'api' || segments[0] === 'static') {
+    return false;
+  }
   
-  let clean = html.replace(dangerousTags, '');
-  clean = clean.replace(dangerousAttrs, '');
-  clean = clean.replace(dangerousProtocols, '');
+  // 第一段之后不能出现 raw，否则笔记或文件夹会与 /:path/raw 接口冲突
+  if (segments.slice(1).includes('raw')) {
+    return false;
+  }
   
-  return clean;
+  return segments.every((segment) => {
+    const length = [...segment].length;
+    return length >= minLength && length <= maxLength && /^[\p{L}\p{N}\p{M}_-]+$/u.test(segment);
+  });
+}
+
+// 路径查找键：NFC规范化后转为小写，不区分大小写时按查找键匹配笔记
+export function pathKey(path: string): string {
+  return path.normalize('NFC').toLowerCase();
 }
\ No newline at end of file
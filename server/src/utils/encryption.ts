@@ -0,0 +1,46 @@
+// 端到端加密笔记的内容：浏览器用PBKDF2从口令派生AES-GCM密钥加密后得到的JSON，
+// 各字段为Base64编码。服务器只检查结构，不接触密钥和明文
+interface EncryptedEnvelope {
+  v: number;
+  kdf: string;
+  iter: number;
+  salt: string;
+  iv: string;
+  ct: string;
+}
+
+const ENVELOPE_VERSION = 1;
+const MIN_ITERATIONS = 100000;
+const MAX_ITERATIONS = 10000000;
+const MIN_SALT_BYTES = 16;
+const IV_BYTES = 12;
+// AES-GCM认证标签的长度，空明文加密后也至少有这么长
+const TAG_BYTES = 16;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+// Base64字符串解码后的字节数，格式无效时返回-1
+function base64Bytes(value: unknown): number {
+  if (typeof value !== 'string' || value.length % 4 !== 0 || !BASE64.test(value)) {
+    return -1;
+  }
+
+  return value.length / 4 * 3 - (value.endsWith('==') ? 2 : value.endsWith('=') ? 1 : 0);
+}
+
+// 内容是否为有效的加密笔记密文
+export function isEncryptedContent(content: string): boolean {
+  let envelope: EncryptedEnvelope;
+  try {
+    envelope = JSON.parse(content);
+  } catch (error) {
+    return false;
+  }
+
+  return !!envelope && typeof envelope === 'object'
+    && envelope.v === ENVELOPE_VERSION
+    && envelope.kdf === 'PBKDF2'
+    && Number.isInteger(envelope.iter) && envelope.iter >= MIN_ITERATIONS && envelope.iter <= MAX_ITERATIONS
+    && base64Bytes(envelope.salt) >= MIN_SALT_BYTES
+    && base64Bytes(envelope.iv) === IV_BYTES
+    && base64Bytes(envelope.ct) >= TAG_BYTES;
+}
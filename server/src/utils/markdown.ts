@@ -0,0 +1,431 @@
+import type { NoteFormat } from '../types';
+import { sanitizeHtml } from './sanitize';
+import { decodeEntities } from './text';
+import { WIKI_LINK, wikiLinkTarget, wikiLinkHref } from './links';
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// Quill的缩进层级上限
+const MAX_INDENT = 8;
+
+export function isNoteFormat(value: unknown): value is NoteFormat {
+  return value === 'html' || value === 'markdown';
+}
+
+// 将Markdown渲染为HTML，输出经过sanitizeHtml过滤。
+// 列表使用Quill的ql-indent类表示层级，便于转换后直接在富文本编辑器中编辑
+export function renderMarkdown(markdown: string): string {
+  return sanitizeHtml(renderBlocks(markdown.replace(/\r\n?/g, '\n').split('\n')));
+}
+
+function renderBlocks(lines: string[]): string {
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // 围栏代码块
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+      html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const match = lines[i].match(QUOTE);
+        quoted.push(match ? match[1] : lines[i]);
+        i++;
+      }
+      html.push(`<blockquote>${renderBlocks(quoted)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      i = renderList(lines, i, html);
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      i = renderTable(lines, i, html);
+      continue;
+    }
+
+    // 段落：直到空行或其他块开始
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    if (paragraph.length === 0) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    html.push(`<p>${renderParagraph(paragraph)}</p>`);
+  }
+
+  return html.join('');
+}
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+// 行尾两个空格或反斜杠表示强制换行，其余换行合并为空格
+function renderParagraph(lines: string[]): string {
+  return lines.map((line, index) => {
+    const last = index === lines.length - 1;
+    const hardBreak = !last && (/ {2,}$/.test(line) || /\\$/.test(line));
+    const text = renderInline(line.replace(/\\$/, '').trim());
+    return text + (last ? '' : hardBreak ? '<br>' : ' ');
+  }).join('');
+}
+
+function renderList(lines: string[], start: number, html: string[]): number {
+  const indents: number[] = [];
+  let listTag = '';
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM);
+
+    if (!match) {
+      // 缩进的续行属于上一个列表项；空行后接列表项时列表继续
+      if (lines[i].trim() && /^\s+/.test(lines[i]) && html.length > 0) {
+        html[html.length - 1] = html[html.length - 1].replace(/<\/li>$/, ' ' + renderInline(lines[i].trim()) + '</li>');
+        i++;
+        continue;
+      }
+      if (!lines[i].trim() && i + 1 < lines.length && LIST_ITEM.test(lines[i + 1])) {
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    const indent = match[1].replace(/\t/g, '    ').length;
+    while (indents.length > 0 && indent < indents[indents.length - 1]) {
+      indents.pop();
+    }
+    if (indents.length === 0 || indent > indents[indents.length - 1]) {
+      indents.push(indent);
+    }
+    const level = Math.min(indents.length - 1, MAX_INDENT);
+
+    const tag = /\d/.test(match[2]) ? 'ol' : 'ul';
+    if (tag !== listTag) {
+      if (listTag) html.push(`</${listTag}>`);
+      html.push(`<${tag}>`);
+      listTag = tag;
+    }
+
+    const className = level > 0 ? ` class="ql-indent-${level}"` : '';
+    html.push(`<li${className}>${renderInline(match[3])}</li>`);
+    i++;
+  }
+
+  html.push(`</${listTag}>`);
+  return i;
+}
+
+function renderTable(lines: string[], start: number, html: string[]): number {
+  const cells = (line: string) => line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map((cell) => renderInline(cell.trim()));
+
+  const header = cells(lines[start]);
+  const rows: string[] = [];
+  let i = start + 2;
+  while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+    rows.push('<tr>' + cells(lines[i]).map((cell) => `<td>${cell}</td>`).join('') + '</tr>');
+    i++;
+  }
+
+  html.push(
+    '<table><thead><tr>' + header.map((cell) => `<th>${cell}</th>`).join('') + '</tr></thead>' +
+    `<tbody>${rows.join('')}</tbody></table>`
+  );
+  return i;
+}
+
+// 行内语法：代码、图片、链接先替换为占位符，其余文本转义后再处理强调
+function renderInline(text: string, autolink = true): string {
+  const tokens: string[] = [];
+  const stash = (html: string) => `\u0000${tokens.push(html) - 1}\u0000`;
+
+  let out = text
+    .replace(/\\([\\`*_{}[\]()#+\-.!~|<>])/g, (_, char) => stash(escapeHtml(char)))
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code) => stash(`<code>${escapeHtml(code.trim())}</code>`))
+    .replace(/!\[([^\]]*)\]\(\s*((?:[^\s()]|\([^\s()]*\))+)(?:\s+"([^"]*)")?\s*\)/g, (_, alt, url, title) =>
+      stash(`<img src="${safeUrl(url)}" alt="${escapeHtml(alt)}"${title ? ` title="${escapeHtml(title)}"` : ''}>`)
+    )
+    .replace(/\[([^\]]+)\]\(\s*((?:[^\s()]|\([^\s()]*\))+)(?:\s+"([^"]*)")?\s*\)/g, (_, label, url, title) =>
+      stash(`<a href="${safeUrl(url)}"${title ? ` title="${escapeHtml(title)}"` : ''}>${renderInline(label, false)}</a>`)
+    );
+
+  if (autolink) {
+    out = out
+      // [[路径]] 链接保留原文作为链接文字，转换格式后仍能识别
+      .replace(WIKI_LINK, (match, target) => {
+        const path = wikiLinkTarget(target);
+        return path ? stash(`<a href="${escapeHtml(wikiLinkHref(path))}" class="wiki-link">${escapeHtml(match)}</a>`) : match;
+      })
+      .replace(/<((?:https?:\/\/|mailto:)[^\s<>]+)>/g, (_, url) =>
+        stash(`<a href="${safeUrl(url)}">${escapeHtml(url)}</a>`)
+      )
+      .replace(/(^|[\s(])(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/g, (_, before, url) =>
+        before + stash(`<a href="${safeUrl(url)}">${escapeHtml(url)}</a>`)
+      );
+  }
+
+  out = escapeHtml(out)
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>');
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_, index) => tokens[parseInt(index)] ?? '');
+}
+
+// 只允许http(s)、mailto和相对地址
+function safeUrl(url: string): string {
+  // 浏览器会忽略地址中的控制字符，检查协议前先去掉
+  url = url.replace(/[\u0000-\u001f\u007f]/g, '');
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (scheme && !/^(https?|mailto)$/i.test(scheme[1])) {
+    return '#';
+  }
+  return escapeHtml(url);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// 将Quill生成的HTML转换为Markdown，Markdown无法表示的格式（颜色、对齐、下划线等）会被丢弃
+export function htmlToMarkdown(html: string): string {
+  const blocks: { type: string; text: string }[] = [];
+  const pattern = /<(p|h[1-6]|blockquote|pre|ol|ul|table)\b([^>]*)>([\s\S]*?)<\/\1>|<hr\s*\/?>/gi;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const pushInline = (fragment: string) => {
+    const text = inlineToMarkdown(fragment).trim();
+    if (text) {
+      blocks.push({ type: 'p', text: escapeLineStart(text) });
+    }
+  };
+
+  while ((match = pattern.exec(html)) !== null) {
+    pushInline(html.slice(lastIndex, match.index));
+    lastIndex = pattern.lastIndex;
+
+    const tag = (match[1] || 'hr').toLowerCase();
+    const inner = match[3] || '';
+
+    if (tag === 'hr') {
+      blocks.push({ type: 'hr', text: '---' });
+    } else if (tag === 'p') {
+      pushInline(inner);
+    } else if (tag.startsWith('h')) {
+      const text = inlineToMarkdown(inner).trim();
+      if (text) {
+        blocks.push({ type: 'h', text: '#'.repeat(parseInt(tag[1])) + ' ' + text });
+      }
+    } else if (tag === 'blockquote') {
+      const text = /<(p|h[1-6]|ol|ul|pre)\b/i.test(inner) ? htmlToMarkdown(inner) : escapeLineStart(inlineToMarkdown(inner).trim());
+      if (text) {
+        blocks.push({ type: 'quote', text: text.split('\n').map((line) => ('> ' + line).trimEnd()).join('\n') });
+      }
+    } else if (tag === 'pre') {
+      const code = decodeEntities(inner.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '')).replace(/\n$/, '');
+      const fence = code.includes('```') ? '~~~' : '```';
+      const language = (match[2] + ' ' + inner).match(/language-([\w+-]+)/);
+      blocks.push({ type: 'pre', text: fence + (language ? language[1] : '') + '\n' + code + '\n' + fence });
+    } else if (tag === 'ol' || tag === 'ul') {
+      blocks.push({ type: 'list', text: listToMarkdown(tag, inner) });
+    } else if (tag === 'table') {
+      blocks.push({ type: 'table', text: tableToMarkdown(inner) });
+    }
+  }
+  pushInline(html.slice(lastIndex));
+
+  // Quill每行引用是单独的blockquote，相邻的合并为同一段引用
+  return blocks.map((block, index) => {
+    const previous = blocks[index - 1];
+    if (!previous) return block.text;
+    return (block.type === 'quote' && previous.type === 'quote' ? '>\n' : '\n') + block.text;
+  }).join('\n');
+}
+
+function listToMarkdown(tag: string, html: string): string {
+  const items: string[] = [];
+  const pattern = /<li\b([^>]*)>([\s\S]*?)<\/li>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html)) !== null) {
+    const indent = match[1].match(/ql-indent-(\d+)/);
+    const level = indent ? parseInt(indent[1]) : 0;
+    const marker = tag === 'ol' ? '1.' : '-';
+    items.push('    '.repeat(level) + marker + ' ' + inlineToMarkdown(match[2]).trim());
+  }
+
+  return items.join('\n');
+}
+
+function tableToMarkdown(html: string): string {
+  const rows: string[][] = [];
+  const rowPattern = /<tr\b[^>]*>([\s\S]*?)<\/tr>/gi;
+  let row: RegExpExecArray | null;
+
+  while ((row = rowPattern.exec(html)) !== null) {
+    const cells: string[] = [];
+    const cellPattern = /<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi;
+    let cell: RegExpExecArray | null;
+    while ((cell = cellPattern.exec(row[1])) !== null) {
+      cells.push(inlineToMarkdown(cell[1]).trim().replace(/\|/g, '\\|').replace(/\n/g, ' '));
+    }
+    rows.push(cells);
+  }
+
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const line = (cells: string[]) => '| ' + cells.join(' | ') + ' |';
+  return [line(rows[0]), line(rows[0].map(() => '---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+// 逐个处理标签和文本，文本中的Markdown特殊字符需要转义（[[路径]] 链接保持原样）。
+// 强调标记需紧贴文字，标签内首尾的空白移到标记外
+function inlineToMarkdown(html: string): string {
+  const links: { href: string; start: number }[] = [];
+  let out = '';
+  let opened = '';
+  let openedAt = -1;
+
+  const open = (marker: string) => {
+    out += marker;
+    opened = marker;
+    openedAt = out.length;
+  };
+  const close = (marker: string) => {
+    const space = out.match(/\s*$/)![0];
+    out = out.slice(0, out.length - space.length) + marker + space;
+  };
+
+  for (const part of html.split(/(<[^>]+>)/)) {
+    if (!part) continue;
+
+    if (!part.startsWith('<')) {
+      let text = escapeInline(decodeEntities(part));
+      const space = text.match(/^\s*/)![0];
+      if (space && openedAt === out.length) {
+        out = out.slice(0, out.length - opened.length) + space + opened;
+        text = text.slice(space.length);
+      }
+      out += text;
+      continue;
+    }
+
+    const tag = part.match(/^<\/?([a-z0-9]+)/i);
+    if (!tag) continue;
+    const name = tag[1].toLowerCase();
+    const closing = part.startsWith('</');
+    const marker = ({ strong: '**', b: '**', em: '*', i: '*', s: '~~', strike: '~~', del: '~~', code: '`' } as Record<string, string>)[name];
+
+    if (marker) {
+      closing ? close(marker) : open(marker);
+    } else if (name === 'br') {
+      out += '\\\n';
+    } else if (name === 'a') {
+      const link = closing ? links.pop() : undefined;
+      if (!closing) {
+        open('[');
+        links.push({ href: decodeEntities(attribute(part, 'href')), start: out.length });
+      } else if (link && isWikiLink(out.slice(link.start), link.href)) {
+        // 编辑器为 [[路径]] 自动添加的链接，直接使用原文
+        out = out.slice(0, link.start - 1) + out.slice(link.start);
+      } else {
+        close('](' + (link?.href || '') + ')');
+      }
+    } else if (name === 'img') {
+      const alt = decodeEntities(attribute(part, 'alt')).replace(/[[\]]/g, '');
+      out += `![${alt}](${decodeEntities(attribute(part, 'src'))})`;
+    }
+  }
+
+  // 去掉空的强调标记（如Quill的<strong></strong>）
+  return out.replace(/\*\*\*\*|~~~~|``/g, '').replace(/\\\n$/, '');
+}
+
+function escapeInline(text: string): string {
+  const escape = (part: string) => part.replace(/[\\`*_[\]~]/g, '\\$&');
+  let out = '';
+  let last = 0;
+
+  for (const match of text.matchAll(WIKI_LINK)) {
+    out += escape(text.slice(last, match.index)) + match[0];
+    last = match.index! + match[0].length;
+  }
+
+  return out + escape(text.slice(last));
+}
+
+function isWikiLink(text: string, href: string): boolean {
+  const match = text.match(/^\[\[([^[\]|\n]+)(?:\|[^[\]\n]+)?\]\]$/);
+  const target = match && wikiLinkTarget(match[1]);
+  return !!target && wikiLinkHref(target) === href;
+}
+
+function attribute(tag: string, name: string): string {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[2] ?? match[3] ?? match[4] ?? '') : '';
+}
+
+// 段落开头的字符会被识别为标题、引用或列表时需要转义
+function escapeLineStart(text: string): string {
+  if (RULE.test(text)) {
+    return '\\' + text;
+  }
+  return text.replace(/^(\s*)([#>+-]|\d+[.)])(?=\s|$)/gm, (_, space, marker) =>
+    space + (/\d/.test(marker) ? marker.replace(/([.)])$/, '\\$1') : '\\' + marker)
+  );
+}
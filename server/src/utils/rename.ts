@@ -0,0 +1,96 @@
+import type { D1Database } from '../adapters/database';
+import type { KVNamespace } from '../adapters/cache';
+import { indexNote } from './search';
+import { pathKey } from './crypto';
+
+// 改名后保留的旧路径（别名）指向的新路径，不是别名时返回null
+export async function resolveAlias(db: D1Database, path: string): Promise<string | null> {
+  const alias = await db.prepare(
+    'SELECT target FROM note_aliases WHERE path = ?'
+  ).bind(path).first<{ target: string }>();
+
+  return alias?.target ?? null;
+}
+
+// 请求路径对应的规范路径：NFC规范化，别名指向新路径，不区分大小写时使用已有笔记的原始大小写。
+// 已是规范路径时返回null
+export async function resolveCanonicalPath(db: D1Database, path: string, caseInsensitive: boolean): Promise<string | null> {
+  const normalized = path.normalize('NFC');
+
+  let canonical = await resolveAlias(db, normalized);
+  if (!canonical && caseInsensitive) {
+    const note = await db.prepare(
+      'SELECT path FROM notes WHERE path_key = ? ORDER BY created_at LIMIT 1'
+    ).bind(pathKey(normalized)).first<{ path: string }>();
+    canonical = note?.path ?? null;
+  }
+
+  canonical = canonical || normalized;
+  return canonical !== path ? canonical : null;
+}
+
+// 路径是否已被占用：已有笔记（包括回收站中的笔记）或别名都不能再创建新笔记；
+// 不区分大小写时只有大小写不同的笔记也视为占用
+export async function isPathTaken(db: D1Database, path: string, caseInsensitive: boolean = false): Promise<boolean> {
+  const taken = await db.prepare(
+    'SELECT 1 FROM notes WHERE path = ? OR (? AND path_key = ?) UNION ALL SELECT 1 FROM note_aliases WHERE path = ?'
+  ).bind(path, caseInsensitive ? 1 : 0, pathKey(path), path).first();
+
+  return !!taken;
+}
+
+// 将笔记移动到新路径，访问计数、修订历史、附件、标签和出链随笔记迁移，内容中引用的附件地址同步更新。
+// keepAlias为true时旧路径保留为别名，访问时重定向到新路径
+export async function renameNote(
+  db: D1Database,
+  cache: KVNamespace,
+  from: string,
+  to: string,
+  keepAlias: boolean,
+  caseInsensitive: boolean = false
+): Promise<'renamed' | 'not_found' | 'exists'> {
+  // 新路径可以是该笔记自己的旧路径（别名）或只改变大小写，但不能是其他笔记或其他笔记的别名
+  const taken = await db.prepare(
+    `SELECT 1 FROM notes WHERE path = ? OR (? AND path_key = ? AND path != ?)
+     UNION ALL SELECT 1 FROM note_aliases WHERE path = ? AND target != ?`
+  ).bind(to, caseInsensitive ? 1 : 0, pathKey(to), from, to, from).first();
+
+  if (taken) {
+    return 'exists';
+  }
+
+  const oldPrefix = `/api/note/${encodeURIComponent(from)}/attachments/`;
+  const newPrefix = `/api/note/${encodeURIComponent(to)}/attachments/`;
+
+  const result = await db.prepare(
+    `UPDATE notes SET path = ?, path_key = ?, content = REPLACE(content, ?, ?), version = version + 1, updated_at = CURRENT_TIMESTAMP
+     WHERE path = ? AND deleted_at IS NULL`
+  ).bind(to, pathKey(to), oldPrefix, newPrefix, from).run();
+
+  if (!result.meta?.changes) {
+    return 'not_found';
+  }
+
+  await db.prepare(
+    'UPDATE note_revisions SET path = ?, content = REPLACE(content, ?, ?) WHERE path = ?'
+  ).bind(to, oldPrefix, newPrefix, from).run();
+  await db.prepare('UPDATE attachments SET path = ? WHERE path = ?').bind(to, from).run();
+  await db.prepare('UPDATE note_tags SET path = ? WHERE path = ?').bind(to, from).run();
+  await db.prepare('UPDATE note_links SET source = ? WHERE source = ?').bind(to, from).run();
+  await db.prepare('UPDATE share_links SET path = ? WHERE path = ?').bind(to, from).run();
+
+  // 指向旧路径的别名改为直接指向新路径，避免多次重定向
+  await db.prepare('DELETE FROM note_aliases WHERE path = ?').bind(to).run();
+  await db.prepare('UPDATE note_aliases SET target = ? WHERE target = ?').bind(to, from).run();
+  if (keepAlias) {
+    await db.prepare('INSERT INTO note_aliases (path, target) VALUES (?, ?)').bind(from, to).run();
+  }
+
+  // 搜索索引按rowid对应，重新写入以更新其中的路径
+  await indexNote(db, to);
+
+  await cache.delete(`note:${from}`);
+  await cache.delete(`note:${to}`);
+
+  return 'renamed';
+}
@@ -0,0 +1,94 @@
+import type { D1Database } from '../adapters/database';
+import type { NoteFormat } from '../types';
+
+export interface DiffLine {
+  type: 'equal' | 'add' | 'remove';
+  text: string;
+}
+
+// LCS表格的最大单元数，超过后退化为整体替换，避免大笔记占满内存
+const MAX_DIFF_CELLS = 4000000;
+
+// 记录一条修订；若笔记尚无历史，先保存旧内容（与新内容格式相同）作为基线
+export async function recordRevision(
+  db: D1Database,
+  path: string,
+  content: string,
+  limit: number,
+  previousContent?: string | null,
+  format: NoteFormat = 'html'
+): Promise<void> {
+  const latest = await db.prepare(
+    'SELECT content, format FROM note_revisions WHERE path = ? ORDER BY id DESC LIMIT 1'
+  ).bind(path).first<{ content: string; format: NoteFormat }>();
+
+  if (latest && latest.content === content && latest.format === format) {
+    return;
+  }
+
+  if (!latest && previousContent && previousContent !== content) {
+    await db.prepare(
+      'INSERT INTO note_revisions (path, content, format) VALUES (?, ?, ?)'
+    ).bind(path, previousContent, format).run();
+  }
+
+  await db.prepare(
+    'INSERT INTO note_revisions (path, content, format) VALUES (?, ?, ?)'
+  ).bind(path, content, format).run();
+
+  // 只保留最近的limit条修订
+  await db.prepare(
+    `DELETE FROM note_revisions
+     WHERE path = ? AND id NOT IN (
+       SELECT id FROM note_revisions WHERE path = ? ORDER BY id DESC LIMIT ?
+     )`
+  ).bind(path, path, limit).run();
+}
+
+// 基于最长公共子序列的逐行对比
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  const n = a.length;
+  const m = b.length;
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text) => ({ type: 'remove' as const, text })),
+      ...b.map((text) => ({ type: 'add' as const, text }))
+    ];
+  }
+
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      result.push({ type: 'remove', text: a[i++] });
+    } else {
+      result.push({ type: 'add', text: b[j++] });
+    }
+  }
+  while (i < n) {
+    result.push({ type: 'remove', text: a[i++] });
+  }
+  while (j < m) {
+    result.push({ type: 'add', text: b[j++] });
+  }
+
+  return result;
+}
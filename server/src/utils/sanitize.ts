@@ -0,0 +1,334 @@
+import { decodeEntities } from './text';
+
+// 笔记HTML的白名单：Quill编辑器和Markdown渲染生成的标签与属性。
+// 不在白名单中的标签去掉但保留其中的文字，属性一律丢弃
+const ALLOWED_TAGS: Record<string, string[]> = {
+  p: ['class'],
+  br: [],
+  span: ['class', 'style'],
+  strong: ['class', 'style'],
+  em: ['class', 'style'],
+  u: ['class', 'style'],
+  s: ['class', 'style'],
+  sub: ['class', 'style'],
+  sup: ['class', 'style'],
+  code: ['class', 'style'],
+  a: ['href', 'target', 'rel', 'title', 'class', 'style'],
+  img: ['src', 'alt', 'title', 'width', 'height', 'class'],
+  h1: ['class'],
+  h2: ['class'],
+  h3: ['class'],
+  h4: ['class'],
+  h5: ['class'],
+  h6: ['class'],
+  blockquote: ['class'],
+  pre: ['class', 'spellcheck'],
+  ol: ['class'],
+  ul: ['class'],
+  li: ['class'],
+  hr: [],
+  table: [],
+  thead: [],
+  tbody: [],
+  tr: [],
+  th: [],
+  td: []
+};
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+// 连同内容一起丢弃的元素
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'svg', 'math',
+  'template', 'noscript', 'noembed', 'noframes', 'xmp', 'plaintext', 'textarea', 'title', 'select', 'head'
+]);
+
+// 浏览器不解析其中标签的元素，内容一直延续到对应的结束标签
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'iframe', 'noscript', 'noembed', 'noframes', 'xmp', 'textarea', 'title']);
+
+// Quill的格式类（缩进、对齐、代码块）、双链和Markdown代码块的语言
+const SAFE_CLASS = /^(ql-indent-[1-8]|ql-align-(center|right|justify)|ql-direction-rtl|ql-syntax|wiki-link|language-[\w+-]+)$/;
+// Quill的文字颜色和背景颜色
+const SAFE_STYLE_PROPERTY = /^(color|background-color)$/;
+const SAFE_STYLE_VALUE = /^(#[0-9a-f]{3,8}|rgba?\(\s*[\d.]+%?\s*(,\s*[\d.]+%?\s*){2,3}\)|[a-z]+)$/i;
+const SAFE_URL_SCHEME = /^(https?|mailto)$/i;
+// 只允许内嵌常见的位图格式（SVG图片可以包含脚本）
+const SAFE_DATA_IMAGE = /^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/]+=*$/i;
+
+const TAG_NAME = /^[a-z][^\s/>]*/i;
+
+interface Attribute {
+  name: string;
+  value: string;
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// 文本中的实体引用原样保留，其余的 & < > 转义
+function escapeText(text: string): string {
+  return text
+    .replace(/&(?!(#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);)/gi, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// 浏览器会忽略地址中的空白和控制字符，检查协议前先去掉
+function safeUrl(value: string, image: boolean): string | null {
+  const url = value.replace(/[\u0000- \u007f]/g, '');
+  if (image && SAFE_DATA_IMAGE.test(url)) {
+    return url;
+  }
+
+  const scheme = url.match(/^([^/?#]*):/);
+  if (scheme && !SAFE_URL_SCHEME.test(scheme[1])) {
+    return null;
+  }
+
+  // 协议部分还有未解码的字符引用（如 &colon;）时无法确定浏览器看到的协议
+  if (/&#?[a-z0-9]+;/i.test(url.match(/^[^/?#]*/)![0])) {
+    return null;
+  }
+
+  return value.trim();
+}
+
+function safeClass(value: string): string | null {
+  const classes = value.split(/\s+/).filter((name) => SAFE_CLASS.test(name));
+  return classes.length > 0 ? classes.join(' ') : null;
+}
+
+function safeStyle(value: string): string | null {
+  const declarations = value.split(';').flatMap((declaration) => {
+    const index = declaration.indexOf(':');
+    if (index < 0) {
+      return [];
+    }
+    const property = declaration.slice(0, index).trim().toLowerCase();
+    const propertyValue = declaration.slice(index + 1).trim();
+    return SAFE_STYLE_PROPERTY.test(property) && SAFE_STYLE_VALUE.test(propertyValue) ? [`${property}: ${propertyValue};`] : [];
+  });
+
+  return declarations.length > 0 ? declarations.join(' ') : null;
+}
+
+// 过滤单个属性，返回解码后的安全值，不允许时返回null
+function safeAttribute(name: string, value: string): string | null {
+  switch (name) {
+    case 'href':
+      return safeUrl(value, false);
+    case 'src':
+      return safeUrl(value, true);
+    case 'class':
+      return safeClass(value);
+    case 'style':
+      return safeStyle(value);
+    case 'target':
+      return value === '_blank' ? value : null;
+    case 'rel':
+      return /^[a-z\s]*$/i.test(value) ? value : null;
+    case 'width':
+    case 'height':
+      return /^\d+(px|%)?$/.test(value) ? value : null;
+    case 'spellcheck':
+      return value === 'false' ? value : null;
+    default:
+      return value;
+  }
+}
+
+// 解析开始标签的属性，end为标签之后的位置；标签没有闭合时返回null
+function parseAttributes(html: string, start: number): { attributes: Attribute[]; selfClosing: boolean; end: number } | null {
+  const attributes: Attribute[] = [];
+  let i = start;
+  let selfClosing = false;
+
+  while (i < html.length) {
+    const char = html[i];
+    if (char === '>') {
+      return { attributes, selfClosing, end: i + 1 };
+    }
+    if (/[\s/]/.test(char)) {
+      selfClosing = char === '/';
+      i++;
+      continue;
+    }
+
+    selfClosing = false;
+    // 属性名的第一个字符可以是 =
+    let nameEnd = i + 1;
+    while (nameEnd < html.length && !/[\s/>=]/.test(html[nameEnd])) {
+      nameEnd++;
+    }
+    const name = html.slice(i, nameEnd).toLowerCase();
+    i = nameEnd;
+    while (i < html.length && /\s/.test(html[i])) {
+      i++;
+    }
+
+    let value = '';
+    if (html[i] === '=') {
+      i++;
+      while (i < html.length && /\s/.test(html[i])) {
+        i++;
+      }
+      const quote = html[i];
+      if (quote === '"' || quote === "'") {
+        const close = html.indexOf(quote, i + 1);
+        if (close < 0) {
+          return null;
+        }
+        value = html.slice(i + 1, close);
+        i = close + 1;
+      } else {
+        const valueEnd = html.slice(i).search(/[\s>]/);
+        if (valueEnd < 0) {
+          return null;
+        }
+        value = html.slice(i, i + valueEnd);
+        i += valueEnd;
+      }
+    }
+
+    if (!attributes.some((attribute) => attribute.name === name)) {
+      attributes.push({ name, value: decodeEntities(value) });
+    }
+  }
+
+  return null;
+}
+
+// 基于白名单的HTML过滤：按浏览器的规则切分标签，再只用允许的标签和属性重新生成HTML，
+// 输出的标签总是正确嵌套和闭合，属性值和文本都经过转义。Workers和Node.js中都可运行
+export function sanitizeHtml(html: string): string {
+  const output: string[] = [];
+  const open: string[] = [];
+  // 正在丢弃的元素及其嵌套层数
+  let dropping: string | null = null;
+  let dropDepth = 0;
+  let i = 0;
+
+  const emitText = (text: string) => {
+    if (!dropping && text) {
+      output.push(escapeText(text));
+    }
+  };
+
+  while (i < html.length) {
+    const lt = html.indexOf('<', i);
+    if (lt < 0) {
+      emitText(html.slice(i));
+      break;
+    }
+    emitText(html.slice(i, lt));
+    i = lt;
+
+    // 注释、<!DOCTYPE> 和 <?...>
+    if (html.startsWith('<!--', i)) {
+      const close = html.slice(i + 4).match(/^-?>|--!?>/);
+      i = close ? i + 4 + close.index! + close[0].length : html.length;
+      continue;
+    }
+    if (html[i + 1] === '!' || html[i + 1] === '?') {
+      const close = html.indexOf('>', i);
+      i = close < 0 ? html.length : close + 1;
+      continue;
+    }
+
+    // 结束标签
+    if (html[i + 1] === '/') {
+      const name = html.slice(i + 2).match(TAG_NAME);
+      const close = html.indexOf('>', i);
+      i = close < 0 ? html.length : close + 1;
+      if (!name) {
+        continue;
+      }
+
+      const tag = name[0].toLowerCase();
+      if (dropping) {
+        if (tag === dropping && --dropDepth === 0) {
+          dropping = null;
+        }
+        continue;
+      }
+
+      const index = open.lastIndexOf(tag);
+      if (index >= 0) {
+        while (open.length > index) {
+          output.push(`</${open.pop()}>`);
+        }
+      }
+      continue;
+    }
+
+    // 开始标签，< 后面不是字母时作为文本
+    const name = html.slice(i + 1).match(TAG_NAME);
+    if (!name) {
+      emitText('<');
+      i++;
+      continue;
+    }
+
+    const tag = name[0].toLowerCase();
+    const parsed = parseAttributes(html, i + 1 + name[0].length);
+    if (!parsed) {
+      break;
+    }
+    i = parsed.end;
+
+    if (dropping) {
+      if (tag === dropping && !parsed.selfClosing) {
+        dropDepth++;
+      }
+      continue;
+    }
+
+    if (tag === 'plaintext') {
+      break;
+    }
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const close = html.slice(i).search(new RegExp(`</${tag}[\\s/>]`, 'i'));
+      if (close < 0) {
+        break;
+      }
+      const end = html.indexOf('>', i + close);
+      i = end < 0 ? html.length : end + 1;
+      continue;
+    }
+
+    if (DROPPED_TAGS.has(tag)) {
+      if (!parsed.selfClosing) {
+        dropping = tag;
+        dropDepth = 1;
+      }
+      continue;
+    }
+
+    const allowed = Object.hasOwn(ALLOWED_TAGS, tag) ? ALLOWED_TAGS[tag] : null;
+    if (!allowed) {
+      continue;
+    }
+
+    const attributes = parsed.attributes.flatMap(({ name, value }) => {
+      const safe = allowed.includes(name) ? safeAttribute(name, value) : null;
+      return safe === null ? [] : [` ${name}="${escapeAttribute(safe)}"`];
+    });
+    output.push(`<${tag}${attributes.join('')}>`);
+
+    if (!VOID_TAGS.has(tag)) {
+      open.push(tag);
+    }
+  }
+
+  while (open.length > 0) {
+    output.push(`</${open.pop()}>`);
+  }
+
+  return output.join('');
+}
@@ -0,0 +1,182 @@
+import type { D1Database } from '../adapters/database';
+import type { NoteFormat, SearchResult } from '../types';
+import { noteText } from './text';
+
+export interface SearchOptions {
+  limit: number;
+  offset: number;
+  // 是否搜索访问锁定笔记的正文，仅管理员可用
+  includeReadLocked?: boolean;
+}
+
+export interface SearchResults {
+  results: SearchResult[];
+  total: number;
+}
+
+interface IndexedNote {
+  content: string | null;
+  format: NoteFormat;
+  encrypted: boolean;
+}
+
+// snippet()使用的高亮标记，转义HTML后再替换为<mark>
+const MARK_START = '\u0002';
+const MARK_END = '\u0003';
+const SNIPPET_TOKENS = 32;
+// trigram分词器要求每个查询词至少3个字符，更短的查询退回到LIKE匹配
+const MIN_MATCH_LENGTH = 3;
+const FALLBACK_CONTEXT = 30;
+
+const RESULT_COLUMNS = 'n.path, n.encrypted, n.is_locked, n.lock_type, n.created_at, n.updated_at, n.view_count';
+
+// 用笔记的纯文本更新搜索索引，访问锁定的笔记正文写入locked_body列，加密笔记只索引路径。
+// 锁定状态变化和删除由数据库触发器同步
+export async function indexNote(db: D1Database, path: string) {
+  const note = await db.prepare(
+    'SELECT content, format, encrypted FROM notes WHERE path = ?'
+  ).bind(path).first<IndexedNote>();
+
+  if (note) {
+    await writeIndex(db, path, indexText(note));
+  }
+}
+
+// 重建全部笔记的搜索索引，用于升级已有数据库
+export async function rebuildSearchIndex(db: D1Database): Promise<number> {
+  await db.prepare('DELETE FROM notes_fts').run();
+
+  const { results } = await db.prepare(
+    'SELECT path, content, format, encrypted FROM notes'
+  ).all<IndexedNote & { path: string }>();
+
+  for (const note of results) {
+    await writeIndex(db, note.path, indexText(note));
+  }
+
+  return results.length;
+}
+
+function indexText(note: IndexedNote): string {
+  return note.encrypted ? '' : noteText(note.content || '', note.format);
+}
+
+async function writeIndex(db: D1Database, path: string, text: string) {
+  await db.prepare(
+    `INSERT OR REPLACE INTO notes_fts (rowid, path, body, locked_body)
+     SELECT rowid, path,
+       CASE WHEN lock_type = 'read' THEN '' ELSE ? END,
+       CASE WHEN lock_type = 'read' THEN ? ELSE '' END
+     FROM notes WHERE path = ?`
+  ).bind(text, text, path).run();
+}
+
+// 按相关度搜索笔记，返回带高亮片段的结果
+export async function searchNotes(
+  db: D1Database,
+  query: string,
+  options: SearchOptions
+): Promise<SearchResults> {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return { results: [], total: 0 };
+  }
+
+  if (terms.some((term) => Array.from(term).length < MIN_MATCH_LENGTH)) {
+    return searchByLike(db, terms, options);
+  }
+
+  const phrases = terms.map((term) => '"' + term.replace(/"/g, '""') + '"').join(' ');
+  const match = options.includeReadLocked ? phrases : `{path body} : (${phrases})`;
+
+  const { results } = await db.prepare(
+    `SELECT ${RESULT_COLUMNS},
+       snippet(notes_fts, -1, ?, ?, '…', ${SNIPPET_TOKENS}) AS snippet
+     FROM notes_fts JOIN notes n ON n.rowid = notes_fts.rowid
+     WHERE notes_fts MATCH ? AND n.deleted_at IS NULL
+     ORDER BY rank
+     LIMIT ? OFFSET ?`
+  ).bind(MARK_START, MARK_END, match, options.limit, options.offset).all<SearchResult>();
+
+  const total = await db.prepare(
+    `SELECT COUNT(*) AS count
+     FROM notes_fts JOIN notes n ON n.rowid = notes_fts.rowid
+     WHERE notes_fts MATCH ? AND n.deleted_at IS NULL`
+  ).bind(match).first<{ count: number }>();
+
+  return {
+    results: results.map((result) => ({ ...result, snippet: renderSnippet(result.snippet) })),
+    total: total?.count || 0
+  };
+}
+
+// 短查询无法使用trigram索引，按纯文本逐行匹配并在应用层生成片段
+async function searchByLike(db: D1Database, terms: string[], options: SearchOptions): Promise<SearchResults> {
+  const columns = options.includeReadLocked
+    ? ['notes_fts.path', 'notes_fts.body', 'notes_fts.locked_body']
+    : ['notes_fts.path', 'notes_fts.body'];
+  const conditions = terms.map(
+    () => '(' + columns.map((column) => `${column} LIKE ? ESCAPE '\\'`).join(' OR ') + ')'
+  );
+  const params = terms.flatMap((term) => {
+    const pattern = '%' + term.replace(/[\\%_]/g, '\\$&') + '%';
+    return columns.map(() => pattern);
+  });
+  const where = conditions.join(' AND ');
+
+  const { results } = await db.prepare(
+    `SELECT ${RESULT_COLUMNS}, notes_fts.body, notes_fts.locked_body
+     FROM notes_fts JOIN notes n ON n.rowid = notes_fts.rowid
+     WHERE (${where}) AND n.deleted_at IS NULL
+     ORDER BY n.updated_at DESC
+     LIMIT ? OFFSET ?`
+  ).bind(...params, options.limit, options.offset).all<SearchResult & { body: string; locked_body: string }>();
+
+  const total = await db.prepare(
+    `SELECT COUNT(*) AS count
+     FROM notes_fts JOIN notes n ON n.rowid = notes_fts.rowid
+     WHERE (${where}) AND n.deleted_at IS NULL`
+  ).bind(...params).first<{ count: number }>();
+
+  return {
+    results: results.map(({ body, locked_body, ...result }) => {
+      const text = options.includeReadLocked ? body + locked_body : body;
+      return { ...result, snippet: renderSnippet(excerpt(text, terms) ?? highlight(result.path, terms)) };
+    }),
+    total: total?.count || 0
+  };
+}
+
+// 截取第一个命中词附近的文本并标记所有命中词
+function excerpt(text: string, terms: string[]): string | null {
+  const lower = text.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term.toLowerCase())).filter((index) => index >= 0);
+  if (positions.length === 0) {
+    return null;
+  }
+
+  const first = Math.min(...positions);
+  const start = Math.max(0, first - FALLBACK_CONTEXT);
+  const end = Math.min(text.length, first + FALLBACK_CONTEXT * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return prefix + highlight(text.slice(start, end), terms) + suffix;
+}
+
+function highlight(text: string, terms: string[]): string {
+  const pattern = new RegExp(terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'gi');
+  return text.replace(pattern, (match) => MARK_START + match + MARK_END);
+}
+
+function renderSnippet(snippet: string): string {
+  return snippet
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .replace(new RegExp(MARK_START, 'g'), '<mark>')
+    .replace(new RegExp(MARK_END, 'g'), '</mark>')
+    .replace(/\s+/g, ' ');
+}
@@ -0,0 +1,126 @@
+import type { D1Database } from '../adapters/database';
+import type { NoteAccessLevel, ShareLink, ShareRequest } from '../types';
+
+export interface ShareOptions {
+  access: NoteAccessLevel;
+  expires_at: string;
+  max_uses: number | null;
+}
+
+// 未指定过期时间时链接有效7天，最长90天
+const DEFAULT_SHARE_DAYS = 7;
+const MAX_SHARE_DAYS = 90;
+const MAX_SHARE_USES = 10000;
+// 每篇笔记最多同时保留的分享链接数
+const MAX_LINKS_PER_NOTE = 50;
+const DAY_MS = 86400 * 1000;
+
+function generateShareId(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+// 解析分享链接设置；过期时间须在将来且不超过最长期限，使用次数须为正整数，无效时返回null
+export function parseShareOptions(options: ShareRequest): ShareOptions | null {
+  if (options.access !== 'view' && options.access !== 'edit') {
+    return null;
+  }
+
+  const now = Date.now();
+  const expires = options.expires_at ? new Date(options.expires_at).getTime() : now + DEFAULT_SHARE_DAYS * DAY_MS;
+  if (isNaN(expires) || expires <= now || expires > now + MAX_SHARE_DAYS * DAY_MS) {
+    return null;
+  }
+
+  let maxUses: number | null = null;
+  if (options.max_uses !== undefined && options.max_uses !== null) {
+    if (!Number.isInteger(options.max_uses) || options.max_uses < 1 || options.max_uses > MAX_SHARE_USES) {
+      return null;
+    }
+    maxUses = options.max_uses;
+  }
+
+  return {
+    access: options.access,
+    // 与SQLite的CURRENT_TIMESTAMP格式一致（UTC），便于在SQL中比较
+    expires_at: new Date(expires).toISOString().slice(0, 19).replace('T', ' '),
+    max_uses: maxUses
+  };
+}
+
+// 分享链接的过期时间（秒级时间戳），用作令牌的过期时间
+export function shareExpiresAt(link: ShareLink): number {
+  return Math.floor(new Date(link.expires_at.replace(' ', 'T') + 'Z').getTime() / 1000);
+}
+
+// 创建分享链接，该笔记的链接数已达上限时返回null
+export async function createShareLink(db: D1Database, path: string, options: ShareOptions): Promise<ShareLink | null> {
+  const existing = await db.prepare(
+    'SELECT COUNT(*) AS count FROM share_links WHERE path = ? AND expires_at > CURRENT_TIMESTAMP'
+  ).bind(path).first<{ count: number }>();
+
+  if (existing && existing.count >= MAX_LINKS_PER_NOTE) {
+    return null;
+  }
+
+  const id = generateShareId();
+  await db.prepare(
+    'INSERT INTO share_links (id, path, access, expires_at, max_uses) VALUES (?, ?, ?, ?, ?)'
+  ).bind(id, path, options.access, options.expires_at, options.max_uses).run();
+
+  return db.prepare('SELECT * FROM share_links WHERE id = ?').bind(id).first<ShareLink>();
+}
+
+// 某篇笔记的分享链接（包括已过期和次数用尽的），path为null时列出全部笔记的链接
+export async function listShareLinks(db: D1Database, path: string | null): Promise<ShareLink[]> {
+  const { results } = path === null
+    ? await db.prepare('SELECT * FROM share_links ORDER BY created_at DESC LIMIT 200').all<ShareLink>()
+    : await db.prepare('SELECT * FROM share_links WHERE path = ? ORDER BY created_at DESC').bind(path).all<ShareLink>();
+
+  return results;
+}
+
+// 撤销分享链接，path不为null时只能撤销该笔记的链接，链接不存在时返回false
+export async function revokeShareLink(db: D1Database, id: string, path: string | null): Promise<boolean> {
+  const result = path === null
+    ? await db.prepare('DELETE FROM share_links WHERE id = ?').bind(id).run()
+    : await db.prepare('DELETE FROM share_links WHERE id = ? AND path = ?').bind(id, path).run();
+
+  return !!result.meta?.changes;
+}
+
+// 通过分享链接打开笔记，消耗一次使用次数。链接不存在、已过期或次数用尽时返回null
+export async function redeemShareLink(db: D1Database, id: string, path: string): Promise<NoteAccessLevel | null> {
+  const result = await db.prepare(
+    `UPDATE share_links SET use_count = use_count + 1
+     WHERE id = ? AND path = ? AND expires_at > CURRENT_TIMESTAMP AND (max_uses IS NULL OR use_count < max_uses)`
+  ).bind(id, path).run();
+
+  if (!result.meta?.changes) {
+    return null;
+  }
+
+  return checkShareLink(db, id, path);
+}
+
+// 打开笔记之后的保存等请求只检查链接未过期、未撤销，不消耗使用次数
+export async function checkShareLink(db: D1Database, id: string, path: string): Promise<NoteAccessLevel | null> {
+  const link = await db.prepare(
+    'SELECT access FROM share_links WHERE id = ? AND path = ? AND expires_at > CURRENT_TIMESTAMP'
+  ).bind(id, path).first<{ access: NoteAccessLevel }>();
+
+  return link ? link.access : null;
+}
+
+// 删除笔记的全部分享链接（修改或解除锁定、彻底删除笔记时）
+export async function deleteShareLinks(db: D1Database, path: string): Promise<void> {
+  await db.prepare('DELETE FROM share_links WHERE path = ?').bind(path).run();
+}
+
+// 定时任务：清理已过期的分享链接，返回清理数量
+export async function purgeExpiredShareLinks(db: D1Database): Promise<number> {
+  const result = await db.prepare(
+    'DELETE FROM share_links WHERE expires_at <= CURRENT_TIMESTAMP'
+  ).run();
+
+  return result.meta?.changes || 0;
+}
@@ -0,0 +1,99 @@
+import type { D1Database } from '../adapters/database';
+import type { TagCount, TaggedNote } from '../types';
+
+const MAX_TAG_LENGTH = 32;
+const MAX_TAGS_PER_NOTE = 20;
+
+// 未过期、未在回收站中的笔记；不包括访问锁定的笔记时，其标签也不会出现在列表和计数中
+const VISIBLE_NOTES = `n.deleted_at IS NULL
+  AND (n.expires_at IS NULL OR n.expires_at > CURRENT_TIMESTAMP)
+  AND (n.remaining_views IS NULL OR n.remaining_views > 0)
+  AND (? OR NOT (n.is_locked AND n.lock_type IS 'read'))`;
+
+// 带有某个标签的笔记路径，用于按标签筛选笔记列表
+export const TAGGED_PATHS = 'SELECT nt.path FROM note_tags nt JOIN tags t ON t.id = nt.tag_id WHERE t.name = ?';
+
+// 标签统一为NFC规范化的小写形式，只允许字母、数字、- 和 _，无效时返回null
+export function normalizeTag(tag: string): string | null {
+  const normalized = tag.trim().normalize('NFC').toLowerCase();
+  if ([...normalized].length > MAX_TAG_LENGTH || !/^[\p{L}\p{N}\p{M}_-]+$/u.test(normalized)) {
+    return null;
+  }
+
+  return normalized;
+}
+
+export async function getNoteTags(db: D1Database, path: string): Promise<string[]> {
+  const { results } = await db.prepare(
+    'SELECT t.name FROM note_tags nt JOIN tags t ON t.id = nt.tag_id WHERE nt.path = ? ORDER BY t.name'
+  ).bind(path).all<{ name: string }>();
+
+  return results.map((row) => row.name);
+}
+
+// 给笔记添加标签（标签不存在时创建），已达到每篇笔记的标签数量上限时返回false
+export async function addNoteTag(db: D1Database, path: string, tag: string): Promise<boolean> {
+  const tags = await getNoteTags(db, path);
+  if (tags.includes(tag)) {
+    return true;
+  }
+  if (tags.length >= MAX_TAGS_PER_NOTE) {
+    return false;
+  }
+
+  await db.prepare('INSERT OR IGNORE INTO tags (name) VALUES (?)').bind(tag).run();
+  await db.prepare(
+    'INSERT OR IGNORE INTO note_tags (path, tag_id) SELECT ?, id FROM tags WHERE name = ?'
+  ).bind(path, tag).run();
+
+  return true;
+}
+
+export async function removeNoteTag(db: D1Database, path: string, tag: string): Promise<void> {
+  await db.prepare(
+    'DELETE FROM note_tags WHERE path = ? AND tag_id = (SELECT id FROM tags WHERE name = ?)'
+  ).bind(path, tag).run();
+}
+
+// 所有标签及其笔记数量，按数量从多到少排列
+export async function listTags(db: D1Database, includeReadLocked: boolean): Promise<TagCount[]> {
+  const { results } = await db.prepare(
+    `SELECT t.name, COUNT(*) AS count
+     FROM note_tags nt
+     JOIN tags t ON t.id = nt.tag_id
+     JOIN notes n ON n.path = nt.path
+     WHERE ${VISIBLE_NOTES}
+     GROUP BY t.name
+     ORDER BY count DESC, t.name`
+  ).bind(includeReadLocked ? 1 : 0).all<TagCount>();
+
+  return results;
+}
+
+export async function listNotesByTag(db: D1Database, tag: string, includeReadLocked: boolean): Promise<TaggedNote[]> {
+  const { results } = await db.prepare(
+    `SELECT n.path, n.format, n.is_locked, n.lock_type, n.updated_at
+     FROM note_tags nt
+     JOIN tags t ON t.id = nt.tag_id
+     JOIN notes n ON n.path = nt.path
+     WHERE t.name = ? AND ${VISIBLE_NOTES}
+     ORDER BY n.updated_at DESC`
+  ).bind(tag, includeReadLocked ? 1 : 0).all<TaggedNote>();
+
+  return results.map((note) => ({ ...note, is_locked: !!note.is_locked, lock_type: note.lock_type || null }));
+}
+
+// 为笔记列表附加各自的标签（管理后台使用）
+export async function withTags<T extends { path: string }>(db: D1Database, notes: T[]): Promise<Array<T & { tags: string[] }>> {
+  const { results } = await db.prepare(
+    `SELECT nt.path, t.name FROM note_tags nt JOIN tags t ON t.id = nt.tag_id
+     WHERE nt.path IN (SELECT value FROM json_each(?)) ORDER BY t.name`
+  ).bind(JSON.stringify(notes.map((note) => note.path))).all<{ path: string; name: string }>();
+
+  const tags = new Map<string, string[]>();
+  for (const row of results) {
+    tags.set(row.path, [...(tags.get(row.path) || []), row.name]);
+  }
+
+  return notes.map((note) => ({ ...note, tags: tags.get(note.path) || [] }));
+}
@@ -0,0 +1,84 @@
+import type { D1Database } from '../adapters/database';
+import type { NoteFormat, NoteTemplate } from '../types';
+
+// 模板名称出现在 /?template=name 中，只允许小写字母、数字、- 和 _
+export function isValidTemplateName(name: string): boolean {
+  return /^[a-z0-9_-]{1,40}$/.test(name);
+}
+
+export async function listTemplates(db: D1Database): Promise<NoteTemplate[]> {
+  const { results } = await db.prepare(
+    'SELECT name, description, format, content, created_at, updated_at FROM note_templates ORDER BY name'
+  ).all<NoteTemplate>();
+
+  return results;
+}
+
+export async function getTemplate(db: D1Database, name: string): Promise<NoteTemplate | null> {
+  return db.prepare(
+    'SELECT name, description, format, content, created_at, updated_at FROM note_templates WHERE name = ?'
+  ).bind(name).first<NoteTemplate>();
+}
+
+// 创建或更新模板
+export async function saveTemplate(db: D1Database, name: string, description: string | null, format: NoteFormat, content: string): Promise<void> {
+  await db.prepare(
+    `INSERT INTO note_templates (name, description, format, content) VALUES (?, ?, ?, ?)
+     ON CONFLICT(name) DO UPDATE SET
+       description = excluded.description,
+       format = excluded.format,
+       content = excluded.content,
+       updated_at = CURRENT_TIMESTAMP`
+  ).bind(name, description, format, content).run();
+}
+
+// 删除模板，模板不存在时返回false
+export async function deleteTemplate(db: D1Database, name: string): Promise<boolean> {
+  const result = await db.prepare(
+    'DELETE FROM note_templates WHERE name = ?'
+  ).bind(name).run();
+
+  return !!result.meta?.changes;
+}
+
+// 按时区取日期和时间，时区无效时使用UTC
+function formatDateTime(now: Date, timeZone: string | undefined): { date: string; time: string } {
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timeZone || 'UTC',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+  } catch {
+    return formatDateTime(now, 'UTC');
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(now)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`
+  };
+}
+
+// 替换模板占位符，未知的占位符保持原样。path需已通过路径校验（不含HTML特殊字符）
+export function renderTemplate(content: string, path: string, now: Date = new Date(), timeZone?: string): string {
+  const { date, time } = formatDateTime(now, timeZone);
+  const values: Record<string, string> = {
+    date,
+    time,
+    datetime: `${date} ${time}`,
+    path,
+    title: path.split('/').pop() || path
+  };
+
+  return content.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
@@ -0,0 +1,53 @@
+import type { NoteFormat } from '../types';
+
+const BLOCK_BOUNDARY = /<\/(p|div|h[1-6]|li|blockquote|pre|tr)>|<br\s*\/?>/gi;
+
+const ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&amp;': '&'
+};
+
+// 解码常见的命名实体和数字实体
+export function decodeEntities(text: string): string {
+  return text.replace(/&(nbsp|lt|gt|quot|#39|amp);|&#(\d+);|&#x([0-9a-f]+);/gi, (entity, name, decimal, hex) => {
+    if (name) return ENTITIES[entity.toLowerCase()] ?? entity;
+    const code = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+// 将Quill生成的HTML转换为纯文本，块级元素按行分隔
+export function htmlToText(html: string): string {
+  const text = decodeEntities(
+    html
+      .replace(BLOCK_BOUNDARY, '\n')
+      .replace(/<[^>]*>/g, '')
+  );
+
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// 笔记的纯文本，Markdown笔记直接使用源文本
+export function noteText(content: string, format: NoteFormat = 'html'): string {
+  return format === 'markdown' ? content.trim() : htmlToText(content);
+}
+
+// 将纯文本转换为Quill格式的HTML，每行一个段落
+export function textToHtml(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n$/, '')
+    .split('\n')
+    .map((line) => {
+      const escaped = line
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+      return escaped ? `<p>${escaped}</p>` : '<p><br></p>';
+    })
+    .join('');
+}
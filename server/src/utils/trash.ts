@@ -0,0 +1,73 @@
+import type { D1Database } from '../adapters/database';
+import type { KVNamespace } from '../adapters/cache';
+import type { R2Bucket } from '../adapters/storage';
+import type { TrashedNote } from '../types';
+import { deleteAttachments } from './attachments';
+
+// 将笔记移入回收站。回收站中的笔记不可查看，路径也不能被重新使用，直到被彻底删除；
+// 笔记不存在或已在回收站中时返回false
+export async function trashNote(db: D1Database, cache: KVNamespace, path: string, deletedBy: string): Promise<boolean> {
+  const result = await db.prepare(
+    'UPDATE notes SET deleted_at = CURRENT_TIMESTAMP, deleted_by = ? WHERE path = ? AND deleted_at IS NULL'
+  ).bind(deletedBy, path).run();
+
+  await cache.delete(`note:${path}`);
+
+  return !!result.meta?.changes;
+}
+
+// 从回收站恢复笔记，笔记不在回收站中时返回false
+export async function restoreNote(db: D1Database, cache: KVNamespace, path: string): Promise<boolean> {
+  const result = await db.prepare(
+    'UPDATE notes SET deleted_at = NULL, deleted_by = NULL WHERE path = ? AND deleted_at IS NOT NULL'
+  ).bind(path).run();
+
+  await cache.delete(`note:${path}`);
+
+  return !!result.meta?.changes;
+}
+
+export async function listTrash(db: D1Database): Promise<TrashedNote[]> {
+  const { results } = await db.prepare(
+    `SELECT path, format, is_locked, lock_type, created_at, updated_at, view_count, deleted_at, deleted_by
+     FROM notes WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC`
+  ).all<TrashedNote>();
+
+  return results;
+}
+
+// 彻底删除回收站中的笔记及其修订历史、别名、标签、出链、分享链接和附件，笔记不在回收站中时返回false
+export async function purgeTrashedNote(db: D1Database, storage: R2Bucket, path: string): Promise<boolean> {
+  const result = await db.prepare(
+    'DELETE FROM notes WHERE path = ? AND deleted_at IS NOT NULL'
+  ).bind(path).run();
+
+  if (!result.meta?.changes) {
+    return false;
+  }
+
+  await db.prepare('DELETE FROM note_revisions WHERE path = ?').bind(path).run();
+  await db.prepare('DELETE FROM note_aliases WHERE target = ?').bind(path).run();
+  await db.prepare('DELETE FROM note_tags WHERE path = ?').bind(path).run();
+  await db.prepare('DELETE FROM note_links WHERE source = ?').bind(path).run();
+  await db.prepare('DELETE FROM share_links WHERE path = ?').bind(path).run();
+  await deleteAttachments(db, storage, path);
+
+  return true;
+}
+
+// 定时任务：彻底删除在回收站中超过保留天数的笔记，返回清理数量
+export async function emptyTrash(db: D1Database, storage: R2Bucket, retentionDays: number): Promise<number> {
+  const { results } = await db.prepare(
+    "SELECT path FROM notes WHERE deleted_at <= datetime('now', ?)"
+  ).bind(`-${retentionDays} days`).all<{ path: string }>();
+
+  let purged = 0;
+  for (const note of results) {
+    if (await purgeTrashedNote(db, storage, note.path)) {
+      purged++;
+    }
+  }
+
+  return purged;
+}
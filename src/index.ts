@@ -4,9 +4,14 @@ import { secureHeaders } from 'hono/secure-headers';
 import type { Bindings } from './types';
 import { noteRoutes } from './routes/note';
 import { adminRoutes } from './routes/admin';
-import { apiRoutes } from './routes/api';
+import { apiRoutes, rawRoutes } from './routes/api';
 import { serveStatic } from './middleware/static';
 import { rateLimiter } from './middleware/rateLimiter';
+import { csrfProtection, originCheck, parseAllowedOrigins, isAllowedOrigin } from './middleware/csrf';
+import { purgeExpiredNotes } from './utils/expiry';
+import { purgeOrphanedAttachments } from './utils/attachments';
+import { emptyTrash } from './utils/trash';
+import { purgeExpiredShareLinks } from './utils/shares';
 
 const app = new Hono<{ Bindings: Bindings }>();
 
@@ -21,19 +26,28 @@ app.use('*', secureHeaders({
     connectSrc: ["'self'"]
   }
 }));
+// 只允许CORS_ORIGINS中的来源跨域访问，同源页面不受影响
 app.use('*', cors({
-  origin: '*',
+  origin: (origin, c) => isAllowedOrigin(origin, parseAllowedOrigins(c.env.CORS_ORIGINS)) ? origin : null,
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization']
+  allowHeaders: ['Content-Type', 'Authorization', 'If-Match', 'X-Note-Password', 'X-Note-Token', 'X-Note-Share', 'X-Client-Id'],
+  exposeHeaders: ['ETag']
 }));
 app.use('*', rateLimiter());
 
+// 笔记接口需要CSRF令牌，管理接口使用Authorization请求头认证，只检查来源
+app.use('/api/note/*', csrfProtection());
+app.use('/admin/api/*', originCheck());
+
 // 静态资源服务
 app.use('/static/*', serveStatic());
 
 // API路由
 app.route('/api', apiRoutes);
 
+// 纯文本接口（/:path/raw，路径可以包含多级，供脚本读写笔记）
+app.route('/', rawRoutes);
+
 // Admin路由
 app.route('/admin', adminRoutes);
 
@@ -57,4 +71,22 @@ app.notFound((c) => {
   );
 });
 
-export default app;
+export default {
+  fetch: app.fetch,
+  
+  // 定时任务（Cron Trigger）：清理过期笔记、孤立附件和过期的分享链接
+  async scheduled(_event: ScheduledEvent, env: Bindings, ctx: ExecutionContext) {
+    ctx.waitUntil((async () => {
+      const notes = await purgeExpiredNotes(env.DB, env.CACHE);
+      const attachments = await purgeOrphanedAttachments(env.DB, env.STORAGE);
+      const trashed = await emptyTrash(env.DB, env.STORAGE, parseInt(env.TRASH_RETENTION_DAYS || '30'));
+      await purgeExpiredShareLinks(env.DB);
+      if (notes > 0 || attachments > 0 || trashed > 0) {
+        console.log(`Purged ${notes} expired notes, ${trashed} trashed notes and ${attachments} orphaned attachments`);
+      }
+    })());
+  }
+};
+
+// 实时协作使用的Durable Object
+export { NoteRoom } from './realtime/noteRoom';
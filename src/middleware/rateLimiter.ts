@@ -20,7 +20,7 @@ export function rateLimiter() {
     // 检查当前路径是否需要速率限制
     const needsRateLimit = protectedPaths.some(path => 
       c.req.path.startsWith(path)
-    );
+    ) || /^\/.+\/raw$/.test(c.req.path); // 纯文本写入接口（包括多级路径）
     
     // 如果不是关键路径，直接放行
     if (!needsRateLimit) {
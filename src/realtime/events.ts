@@ -0,0 +1,21 @@
+import type { Bindings, NoteEvent } from '../types';
+
+const encoder = new TextEncoder();
+
+// 按SSE格式编码事件
+export function encodeNoteEvent(event: NoteEvent): Uint8Array {
+  return encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+// 通过该路径对应的Durable Object广播事件；广播失败不影响保存等操作本身
+export async function publishNoteEvent(env: Bindings, path: string, event: NoteEvent): Promise<void> {
+  try {
+    const room = env.NOTE_ROOMS.get(env.NOTE_ROOMS.idFromName(path));
+    await room.fetch(`https://note-room/events?path=${encodeURIComponent(path)}`, {
+      method: 'POST',
+      body: JSON.stringify(event)
+    });
+  } catch (error) {
+    console.error('Error publishing note event:', error);
+  }
+}
@@ -0,0 +1,113 @@
+import type { Bindings, Note, NoteEvent } from '../types';
+import { CollabRoom, resolveNoteAccess } from './room';
+import { encodeNoteEvent } from './events';
+
+// SSE心跳间隔，避免空闲连接被代理断开
+const HEARTBEAT_INTERVAL = 25000;
+const HEARTBEAT = new TextEncoder().encode(': ping\n\n');
+
+// 每个笔记路径对应一个Durable Object实例，承载该笔记的协作会话和变更事件订阅
+export class NoteRoom implements DurableObject {
+  private room: CollabRoom | null = null;
+  private subscribers = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private state: DurableObjectState, private env: Bindings) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.searchParams.get('path');
+    if (!path) {
+      return new Response('Missing path', { status: 400 });
+    }
+
+    if (url.pathname.endsWith('/events')) {
+      if (request.method === 'POST') {
+        this.publish(await request.json<NoteEvent>());
+        return new Response(null, { status: 204 });
+      }
+      return this.subscribe();
+    }
+
+    if (request.headers.get('Upgrade') !== 'websocket') {
+      return new Response('Expected WebSocket upgrade', { status: 426 });
+    }
+
+    const room = this.getRoom(path);
+    const pair = new WebSocketPair();
+    const [client, server] = Object.values(pair);
+    server.accept();
+
+    const id = room.connect({
+      send: (data) => server.send(data),
+      close: (code, reason) => server.close(code, reason)
+    });
+
+    server.addEventListener('message', (event) => {
+      const data = typeof event.data === 'string' ? event.data : new TextDecoder().decode(event.data);
+      // 查询权限等操作失败时断开该连接，客户端稍后重连
+      this.state.waitUntil(room.receive(id, data).catch((error) => {
+        console.error('Collab message error:', error);
+        server.close(1011, 'Internal error');
+      }));
+    });
+    server.addEventListener('close', () => room.disconnect(id));
+    server.addEventListener('error', () => room.disconnect(id));
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  private subscribe(): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    this.subscribers.add(writer);
+    this.write(writer, HEARTBEAT);
+
+    if (!this.heartbeat) {
+      this.heartbeat = setInterval(() => {
+        this.subscribers.forEach((subscriber) => this.write(subscriber, HEARTBEAT));
+      }, HEARTBEAT_INTERVAL);
+    }
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache'
+      }
+    });
+  }
+
+  private publish(event: NoteEvent) {
+    const chunk = encodeNoteEvent(event);
+    this.subscribers.forEach((subscriber) => this.write(subscriber, chunk));
+
+    // 锁定状态变化后重新检查已加入连接的权限
+    if (this.room && (event.type === 'locked' || event.type === 'unlocked')) {
+      this.state.waitUntil(this.room.revalidate().catch((error) => console.error('Collab revalidate error:', error)));
+    }
+  }
+
+  // 写入失败说明客户端已断开，移除订阅
+  private write(writer: WritableStreamDefaultWriter<Uint8Array>, chunk: Uint8Array) {
+    writer.write(chunk).catch(() => {
+      this.subscribers.delete(writer);
+      if (this.subscribers.size === 0 && this.heartbeat) {
+        clearInterval(this.heartbeat);
+        this.heartbeat = null;
+      }
+    });
+  }
+
+  private getRoom(path: string): CollabRoom {
+    if (!this.room) {
+      this.room = new CollabRoom(async (token) => {
+        const note = await this.env.DB.prepare(
+          'SELECT path, is_locked, lock_type, password_hash, view_password_hash, encrypted, deleted_at, expires_at, remaining_views FROM notes WHERE path = ?'
+        ).bind(path).first<Note>();
+        return resolveNoteAccess(note, token, this.env.JWT_SECRET);
+      });
+    }
+
+    return this.room;
+  }
+}
@@ -0,0 +1,282 @@
+import { verifyNoteSessionToken } from '../utils/jwt';
+import { isExpired, isViewLimited } from '../utils/expiry';
+
+export interface CollabSocket {
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export interface NoteAccess {
+  canRead: boolean;
+  canWrite: boolean;
+}
+
+export type AccessResolver = (token: string | undefined) => Promise<NoteAccess>;
+
+interface CollabSession {
+  id: string;
+  socket: CollabSocket;
+  joined: boolean;
+  canWrite: boolean;
+  // 加入时携带的会话令牌，锁定状态变化后用于重新检查权限
+  token: string | undefined;
+  name: string;
+  color: string;
+  cursor: unknown;
+}
+
+interface ClientMessage {
+  type: 'join' | 'delta' | 'cursor' | 'snapshot';
+  rev?: number;
+  delta?: unknown;
+  range?: unknown;
+  name?: string;
+  token?: string;
+  snapshot?: unknown;
+}
+
+const COLORS = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+const MAX_MESSAGE_SIZE = 256 * 1024;
+// 未压缩的操作超过该数量时，请求刚同步完成的客户端提交快照
+const SNAPSHOT_THRESHOLD = 200;
+
+// 根据笔记的锁定状态判断连接的读写权限。锁定的笔记只接受解锁时签发的会话令牌，
+// 密码只能通过解锁接口验证（受尝试次数限制）；查看密码对应的令牌只授予读权限
+export async function resolveNoteAccess(
+  note: {
+    path: string;
+    is_locked: boolean;
+    lock_type?: string | null;
+    password_hash?: string | null;
+    view_password_hash?: string | null;
+    encrypted?: boolean;
+    deleted_at?: string | null;
+    expires_at?: string | null;
+    remaining_views?: number | null;
+  } | null,
+  token: string | undefined,
+  secret: string
+): Promise<NoteAccess> {
+  // 回收站中的笔记不可查看和编辑；加密笔记不参加协作，以免服务器转发明文；
+  // 已过期和限制查看次数的笔记不参加协作，否则加入者无需消耗查看次数即可取得内容
+  if (note?.deleted_at || note?.encrypted || (note && (isExpired(note) || isViewLimited(note)))) {
+    return { canRead: false, canWrite: false };
+  }
+
+  if (!note || !note.is_locked || !note.password_hash) {
+    return { canRead: true, canWrite: true };
+  }
+
+  const canWrite = !!token && await verifyNoteSessionToken(token, secret, note.path, note.password_hash);
+  const canView = canWrite ||
+    (!!token && !!note.view_password_hash && await verifyNoteSessionToken(token, secret, note.path, note.view_password_hash));
+  return { canRead: note.lock_type !== 'read' || canView, canWrite };
+}
+
+// 单个笔记的协作房间：按顺序为Quill delta编号并广播，
+// 基于过期版本的delta会被拒绝，由客户端变换后重发
+export class CollabRoom {
+  private sessions = new Map<string, CollabSession>();
+  private rev = 0;
+  private snapshot: unknown = null;
+  private snapshotRev = 0;
+  private ops: unknown[] = [];
+
+  constructor(private resolveAccess: AccessResolver) {}
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  connect(socket: CollabSocket): string {
+    const id = crypto.randomUUID();
+    this.sessions.set(id, {
+      id,
+      socket,
+      joined: false,
+      canWrite: false,
+      token: undefined,
+      name: '',
+      color: COLORS[this.sessions.size % COLORS.length],
+      cursor: null
+    });
+    return id;
+  }
+
+  disconnect(id: string) {
+    const session = this.sessions.get(id);
+    this.sessions.delete(id);
+
+    if (this.joinedSessions().length === 0) {
+      // 房间已空，丢弃内存中的文档状态，下一个加入者以其加载的内容为准
+      this.rev = 0;
+      this.snapshot = null;
+      this.snapshotRev = 0;
+      this.ops = [];
+    } else if (session?.joined) {
+      this.broadcastPresence();
+    }
+  }
+
+  // 笔记锁定或解除锁定后重新检查已加入连接的权限。权限变化的连接被断开：
+  // 失去读权限的以4003关闭，客户端不再重连；读写权限变化的由客户端稍后携带当前令牌重新加入
+  async revalidate() {
+    for (const session of this.joinedSessions()) {
+      const access = await this.resolveAccess(session.token);
+      if (access.canRead && access.canWrite === session.canWrite) {
+        continue;
+      }
+
+      if (!access.canRead) {
+        this.send(session, { type: 'error', error: 'Password required' });
+      }
+      session.socket.close(access.canRead ? 4001 : 4003, access.canRead ? 'Access changed' : 'Password required');
+      this.disconnect(session.id);
+    }
+  }
+
+  async receive(id: string, raw: string) {
+    const session = this.sessions.get(id);
+    if (!session) return;
+
+    if (raw.length > MAX_MESSAGE_SIZE) {
+      this.send(session, { type: 'error', error: 'Message too large' });
+      return;
+    }
+
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.send(session, { type: 'error', error: 'Invalid message' });
+      return;
+    }
+
+    if (message.type === 'join') {
+      await this.handleJoin(session, message);
+      return;
+    }
+
+    if (!session.joined) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'delta':
+        this.handleDelta(session, message);
+        break;
+      case 'cursor':
+        session.cursor = message.range ?? null;
+        this.broadcast({ type: 'cursor', id: session.id, range: session.cursor }, session.id);
+        break;
+      case 'snapshot':
+        this.handleSnapshot(session, message);
+        break;
+    }
+  }
+
+  private async handleJoin(session: CollabSession, message: ClientMessage) {
+    const access = await this.resolveAccess(message.token);
+    if (!access.canRead) {
+      this.send(session, { type: 'error', error: 'Password required' });
+      session.socket.close(4003, 'Password required');
+      this.sessions.delete(session.id);
+      return;
+    }
+
+    if (this.joinedSessions().length === 0) {
+      this.rev = 0;
+      this.snapshot = null;
+      this.snapshotRev = 0;
+      this.ops = [];
+    }
+
+    // 第一个有写权限的加入者的内容作为房间的初始快照，只读连接提交的内容不被采用
+    if (access.canWrite && this.snapshot === null && this.rev === 0) {
+      this.snapshot = message.snapshot ?? null;
+    }
+
+    session.joined = true;
+    session.canWrite = access.canWrite;
+    session.token = message.token;
+    session.name = (message.name || '').slice(0, 32) || '访客';
+
+    this.send(session, {
+      type: 'init',
+      id: session.id,
+      rev: this.rev,
+      snapshot: this.snapshot,
+      ops: this.ops,
+      can_write: session.canWrite
+    });
+    this.broadcastPresence();
+  }
+
+  private handleDelta(session: CollabSession, message: ClientMessage) {
+    if (!session.canWrite) {
+      this.send(session, { type: 'error', error: 'Read only' });
+      return;
+    }
+
+    if (message.rev !== this.rev || !message.delta) {
+      this.send(session, { type: 'reject', rev: this.rev });
+      return;
+    }
+
+    this.rev++;
+    this.ops.push(message.delta);
+
+    this.send(session, { type: 'ack', rev: this.rev });
+    this.broadcast({ type: 'delta', id: session.id, rev: this.rev, delta: message.delta }, session.id);
+
+    if (this.ops.length > SNAPSHOT_THRESHOLD) {
+      this.send(session, { type: 'snapshot-request' });
+    }
+  }
+
+  private handleSnapshot(session: CollabSession, message: ClientMessage) {
+    if (!session.canWrite) {
+      this.send(session, { type: 'error', error: 'Read only' });
+      return;
+    }
+
+    const rev = message.rev;
+    if (typeof rev !== 'number' || rev < this.snapshotRev || rev > this.rev || !message.snapshot) {
+      return;
+    }
+
+    this.ops = this.ops.slice(rev - this.snapshotRev);
+    this.snapshot = message.snapshot;
+    this.snapshotRev = rev;
+  }
+
+  private joinedSessions(): CollabSession[] {
+    return Array.from(this.sessions.values()).filter((session) => session.joined);
+  }
+
+  private broadcastPresence() {
+    const users = this.joinedSessions().map((session) => ({
+      id: session.id,
+      name: session.name,
+      color: session.color,
+      cursor: session.cursor
+    }));
+    this.broadcast({ type: 'presence', users });
+  }
+
+  private broadcast(message: object, exceptId?: string) {
+    for (const session of this.joinedSessions()) {
+      if (session.id !== exceptId) {
+        this.send(session, message);
+      }
+    }
+  }
+
+  private send(session: CollabSession, message: object) {
+    try {
+      session.socket.send(JSON.stringify(message));
+    } catch (error) {
+      console.error('Collab send error:', error);
+    }
+  }
+}
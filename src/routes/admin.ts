@@ -1,10 +1,24 @@
 import { Hono } from 'hono';
-import type { Bindings, Note, LoginRequest, ImportRequest } from '../types';
+import type { Bindings, Note, LoginRequest, ImportRequest, JWTPayload, RenameRequest, SaveTemplateRequest } from '../types';
 import { requireAuth } from '../middleware/auth';
 import { createJWT, verifyJWT } from '../utils/jwt';
-import { hashPassword, verifyPassword } from '../utils/crypto';
+import { hashPassword, verifyPassword, validatePath, pathKey } from '../utils/crypto';
+import { publishNoteEvent } from '../realtime/events';
+import { trashNote, restoreNote, listTrash, purgeTrashedNote } from '../utils/trash';
+import { resolveAlias, renameNote } from '../utils/rename';
+import { indexNote, rebuildSearchIndex, searchNotes } from '../utils/search';
+import { updateNoteLinks, rebuildNoteLinks, listBrokenLinks } from '../utils/links';
+import { listAttackedNotes } from '../utils/attempts';
+import { listShareLinks, revokeShareLink, deleteShareLinks } from '../utils/shares';
+import { isNoteFormat } from '../utils/markdown';
+import { sanitizeHtml } from '../utils/sanitize';
+import { isEncryptedContent } from '../utils/encryption';
+import { recordRevision } from '../utils/revisions';
+import { isViewLimited } from '../utils/expiry';
+import { isValidTemplateName, listTemplates, saveTemplate, deleteTemplate } from '../utils/templates';
+import { TAGGED_PATHS, normalizeTag, listTags, withTags } from '../utils/tags';
 
-const admin = new Hono<{ Bindings: Bindings }>();
+const admin = new Hono<{ Bindings: Bindings; Variables: { user: JWTPayload } }>();
 
 function normalizeSecretText(value: string): string {
   return value.replace(/\r?\n$/, '');
@@ -61,38 +75,302 @@ admin.post('/api/login', async (c) => {
 
 // 获取所有笔记列表
 admin.get('/api/notes', requireAuth, async (c) => {
+  const tag = normalizeTag(c.req.query('tag') || '');
+  
   try {
+    // 指定标签时只列出带有该标签的笔记
     const { results } = await c.env.DB.prepare(
-      'SELECT path, is_locked, lock_type, created_at, updated_at, view_count FROM notes ORDER BY updated_at DESC'
-    ).all<Note>();
+      `SELECT path, encrypted, is_locked, lock_type, created_at, updated_at, view_count FROM notes
+       WHERE deleted_at IS NULL ${tag ? `AND path IN (${TAGGED_PATHS})` : ''} ORDER BY updated_at DESC`
+    ).bind(...(tag ? [tag] : [])).all<Note>();
     
-    return c.json({ notes: results });
+    return c.json({ notes: await withTags(c.env.DB, results) });
   } catch (error) {
     console.error('Error fetching notes:', error);
     return c.json({ error: 'Database error' }, 500);
   }
 });
 
-// 删除笔记
+// 获取所有标签及其笔记数量（包括访问锁定的笔记）
+admin.get('/api/tags', requireAuth, async (c) => {
+  try {
+    return c.json({ tags: await listTags(c.env.DB, true) });
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 获取指向不存在的笔记的链接
+admin.get('/api/links/broken', requireAuth, async (c) => {
+  try {
+    return c.json({ links: await listBrokenLinks(c.env.DB, c.env.PATH_CASE_POLICY === 'insensitive') });
+  } catch (error) {
+    console.error('Error fetching broken links:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 获取最近密码尝试失败较多、可能正在被暴力破解的笔记
+admin.get('/api/unlock-attempts', requireAuth, async (c) => {
+  try {
+    const notes = await listAttackedNotes(c.env.DB, c.env.CACHE, {
+      maxAttempts: parseInt(c.env.UNLOCK_MAX_ATTEMPTS || '5'),
+      lockoutDuration: parseInt(c.env.UNLOCK_LOCKOUT_DURATION || '900')
+    });
+    
+    return c.json({ notes });
+  } catch (error) {
+    console.error('Error fetching unlock attempts:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 获取所有笔记的分享链接
+admin.get('/api/shares', requireAuth, async (c) => {
+  try {
+    const shares = await listShareLinks(c.env.DB, null);
+    
+    return c.json({ shares });
+  } catch (error) {
+    console.error('Error fetching share links:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 撤销分享链接
+admin.delete('/api/shares/:id', requireAuth, async (c) => {
+  const id = c.req.param('id');
+  
+  try {
+    const revoked = await revokeShareLink(c.env.DB, id!, null);
+    if (!revoked) {
+      return c.json({ error: 'Share link not found' }, 404);
+    }
+    
+    // 记录日志
+    await c.env.DB.prepare(
+      'INSERT INTO admin_logs (action, details) VALUES (?, ?)'
+    ).bind('revoke_share', `Revoked share link: ${id}`).run();
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 全文搜索笔记（按相关度排序，包含访问锁定笔记的正文）
+admin.get('/api/search', requireAuth, async (c) => {
+  const query = c.req.query('q') || '';
+  const limit = Math.min(parseInt(c.req.query('limit') || '50') || 50, 100);
+  
+  try {
+    const { results, total } = await searchNotes(c.env.DB, query, {
+      limit,
+      offset: 0,
+      includeReadLocked: true
+    });
+    
+    return c.json({ results: await withTags(c.env.DB, results), total });
+  } catch (error) {
+    console.error('Error searching notes:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 重建全文搜索索引和笔记链接
+admin.post('/api/search/reindex', requireAuth, async (c) => {
+  try {
+    const count = await rebuildSearchIndex(c.env.DB);
+    await rebuildNoteLinks(c.env.DB);
+    
+    // 记录日志
+    await c.env.DB.prepare(
+      'INSERT INTO admin_logs (action, details) VALUES (?, ?)'
+    ).bind('reindex', `Rebuilt search index for ${count} notes`).run();
+    
+    return c.json({ success: true, count });
+  } catch (error) {
+    console.error('Error rebuilding search index:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 删除笔记（移入回收站，保留期限内可以恢复）
 admin.delete('/api/note/:path', requireAuth, async (c) => {
   const path = c.req.param('path');
   
   try {
+    const trashed = await trashNote(c.env.DB, c.env.CACHE, path!, c.get('user').sub);
+    if (!trashed) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    // 记录日志
+    await c.env.DB.prepare(
+      'INSERT INTO admin_logs (action, target_path, details) VALUES (?, ?, ?)'
+    ).bind('delete', path, `Moved note to trash: ${path}`).run();
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting note:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 重命名笔记（默认保留旧路径作为重定向别名）
+admin.post('/api/note/:path/rename', requireAuth, async (c) => {
+  const path = c.req.param('path');
+  const body = await c.req.json<RenameRequest>().catch(() => ({} as RenameRequest));
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
+  
+  if (typeof body.new_path !== 'string' || !validatePath(body.new_path, minLength, maxLength, maxDepth) || body.new_path === path) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  try {
+    const result = await renameNote(c.env.DB, c.env.CACHE, path!, body.new_path, body.keep_alias !== false, c.env.PATH_CASE_POLICY === 'insensitive');
+    if (result === 'exists') {
+      return c.json({ error: 'Path already exists' }, 409);
+    }
+    if (result === 'not_found') {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    // 记录日志
     await c.env.DB.prepare(
-      'DELETE FROM notes WHERE path = ?'
-    ).bind(path).run();
+      'INSERT INTO admin_logs (action, target_path, details) VALUES (?, ?, ?)'
+    ).bind('rename', path, `Renamed note: ${path} -> ${body.new_path}`).run();
     
-    // 清除缓存
-    await c.env.CACHE.delete(`note:${path}`);
+    // 通知正在查看该笔记的客户端
+    c.executionCtx.waitUntil(publishNoteEvent(c.env, path!, { type: 'renamed', path: body.new_path }));
+    
+    return c.json({ success: true, path: body.new_path });
+  } catch (error) {
+    console.error('Error renaming note:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 获取回收站中的笔记
+admin.get('/api/trash', requireAuth, async (c) => {
+  try {
+    const notes = await listTrash(c.env.DB);
+    
+    return c.json({ notes, retention_days: parseInt(c.env.TRASH_RETENTION_DAYS || '30') });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 从回收站恢复笔记
+admin.post('/api/trash/:path/restore', requireAuth, async (c) => {
+  const path = c.req.param('path');
+  
+  try {
+    const restored = await restoreNote(c.env.DB, c.env.CACHE, path!);
+    if (!restored) {
+      return c.json({ error: 'Note not found in trash' }, 404);
+    }
     
     // 记录日志
     await c.env.DB.prepare(
       'INSERT INTO admin_logs (action, target_path, details) VALUES (?, ?, ?)'
-    ).bind('delete', path, `Deleted note: ${path}`).run();
+    ).bind('restore', path, `Restored note from trash: ${path}`).run();
     
     return c.json({ success: true });
   } catch (error) {
-    console.error('Error deleting note:', error);
+    console.error('Error restoring note:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 彻底删除回收站中的笔记（包括修订历史和附件）
+admin.delete('/api/trash/:path', requireAuth, async (c) => {
+  const path = c.req.param('path');
+  
+  try {
+    const purged = await purgeTrashedNote(c.env.DB, c.env.STORAGE, path!);
+    if (!purged) {
+      return c.json({ error: 'Note not found in trash' }, 404);
+    }
+    
+    // 记录日志
+    await c.env.DB.prepare(
+      'INSERT INTO admin_logs (action, target_path, details) VALUES (?, ?, ?)'
+    ).bind('purge', path, `Permanently deleted note: ${path}`).run();
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error purging note:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 获取笔记模板
+admin.get('/api/templates', requireAuth, async (c) => {
+  try {
+    const templates = await listTemplates(c.env.DB);
+    
+    return c.json({ templates });
+  } catch (error) {
+    console.error('Error fetching templates:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 创建或更新笔记模板
+admin.put('/api/templates/:name', requireAuth, async (c) => {
+  const name = c.req.param('name');
+  const body = await c.req.json<SaveTemplateRequest>();
+  const format = body.format ?? 'html';
+  
+  if (!isValidTemplateName(name!)) {
+    return c.json({ error: 'Invalid template name' }, 400);
+  }
+  
+  if (typeof body.content !== 'string' || !isNoteFormat(format)) {
+    return c.json({ error: 'Invalid template' }, 400);
+  }
+  
+  try {
+    const content = format === 'html' ? sanitizeHtml(body.content) : body.content;
+    await saveTemplate(c.env.DB, name!, body.description?.trim() || null, format, content);
+    
+    // 记录日志
+    await c.env.DB.prepare(
+      'INSERT INTO admin_logs (action, details) VALUES (?, ?)'
+    ).bind('template', `Saved template: ${name}`).run();
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error saving template:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 删除笔记模板
+admin.delete('/api/templates/:name', requireAuth, async (c) => {
+  const name = c.req.param('name');
+  
+  try {
+    const deleted = await deleteTemplate(c.env.DB, name!);
+    if (!deleted) {
+      return c.json({ error: 'Template not found' }, 404);
+    }
+    
+    // 记录日志
+    await c.env.DB.prepare(
+      'INSERT INTO admin_logs (action, details) VALUES (?, ?)'
+    ).bind('template', `Deleted template: ${name}`).run();
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting template:', error);
     return c.json({ error: 'Database error' }, 500);
   }
 });
@@ -103,9 +381,29 @@ admin.put('/api/note/:path', requireAuth, async (c) => {
   const body = await c.req.json<{ content: string }>();
   
   try {
+    // 加密笔记的内容只能由持有密钥的浏览器修改
+    const note = await c.env.DB.prepare(
+      'SELECT content, format, encrypted, remaining_views FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Pick<Note, 'content' | 'format' | 'encrypted' | 'remaining_views'>>();
+    if (note?.encrypted) {
+      return c.json({ error: 'Note is encrypted' }, 400);
+    }
+    
+    // 与编辑器保存时一样过滤富文本内容
+    const content = note?.format === 'markdown' ? body.content : sanitizeHtml(body.content || '');
+    
     await c.env.DB.prepare(
-      'UPDATE notes SET content = ?, updated_at = CURRENT_TIMESTAMP WHERE path = ?'
-    ).bind(body.content, path).run();
+      'UPDATE notes SET content = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE path = ? AND deleted_at IS NULL'
+    ).bind(content, path).run();
+    
+    // 与编辑器保存时一样记录修订历史，修改前的内容可以从历史中恢复（限制查看次数的笔记不保留历史）
+    if (note && !isViewLimited(note)) {
+      await recordRevision(c.env.DB, path!, content, parseInt(c.env.REVISION_LIMIT || '50'), note.content, note.format);
+    }
+    
+    // 更新搜索索引和链接
+    await indexNote(c.env.DB, path!);
+    await updateNoteLinks(c.env.DB, path!);
     
     // 清除缓存
     await c.env.CACHE.delete(`note:${path}`);
@@ -115,6 +413,9 @@ admin.put('/api/note/:path', requireAuth, async (c) => {
       'INSERT INTO admin_logs (action, target_path, details) VALUES (?, ?, ?)'
     ).bind('update', path, `Updated note: ${path}`).run();
     
+    // 通知正在查看该笔记的客户端
+    c.executionCtx.waitUntil(publishNoteEvent(c.env, path!, { type: 'saved' }));
+    
     return c.json({ success: true });
   } catch (error) {
     console.error('Error updating note:', error);
@@ -126,7 +427,7 @@ admin.put('/api/note/:path', requireAuth, async (c) => {
 admin.post('/api/export', requireAuth, async (c) => {
   try {
     const { results } = await c.env.DB.prepare(
-      'SELECT * FROM notes ORDER BY path'
+      'SELECT * FROM notes WHERE deleted_at IS NULL ORDER BY path'
     ).all<Note>();
     
     const exportData = {
@@ -168,22 +469,67 @@ admin.post('/api/import', requireAuth, async (c) => {
   
   for (const note of body.notes) {
     try {
+      // 回收站中的路径在彻底删除前不能被导入覆盖
+      const existing = await c.env.DB.prepare(
+        'SELECT content, deleted_at, remaining_views FROM notes WHERE path = ?'
+      ).bind(note.path).first<Pick<Note, 'content' | 'deleted_at' | 'remaining_views'>>();
+      if (existing?.deleted_at) {
+        failed++;
+        continue;
+      }
+      
+      // 已改名笔记的旧路径保留为别名，不能被导入占用
+      if (await resolveAlias(c.env.DB, note.path)) {
+        failed++;
+        continue;
+      }
+      
+      // 加密笔记只导入格式有效的密文
+      if (note.encrypted && !isEncryptedContent(note.content)) {
+        failed++;
+        continue;
+      }
+      
+      // 富文本笔记与编辑器保存时一样过滤
+      const format = isNoteFormat(note.format) ? note.format : 'html';
+      const content = format === 'html' && !note.encrypted ? sanitizeHtml(note.content || '') : note.content;
+      
       let passwordHash = null;
       if (note.password) {
         passwordHash = await hashPassword(note.password);
       }
       
+      // 覆盖已有笔记时保留创建时间和过期设置，并递增版本号，基于旧版本的保存会被视为冲突
       await c.env.DB.prepare(
-        `INSERT OR REPLACE INTO notes 
-         (path, content, is_locked, lock_type, password_hash) 
-         VALUES (?, ?, ?, ?, ?)`
+        `INSERT INTO notes 
+         (path, path_key, content, format, encrypted, is_locked, lock_type, password_hash) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(path) DO UPDATE SET
+           content = excluded.content, format = excluded.format, encrypted = excluded.encrypted,
+           is_locked = excluded.is_locked, lock_type = excluded.lock_type, password_hash = excluded.password_hash,
+           view_password_hash = NULL, version = version + 1, updated_at = CURRENT_TIMESTAMP`
       ).bind(
         note.path,
-        note.content,
+        pathKey(note.path),
+        content,
+        format,
+        note.encrypted ? 1 : 0,
         note.is_locked ? 1 : 0,
         note.lock_type || null,
         passwordHash
       ).run();
+      await deleteShareLinks(c.env.DB, note.path);
+      
+      // 记录修订历史，被覆盖的内容可以从历史中恢复（限制查看次数的笔记和加密笔记不保留历史）
+      if (!note.encrypted && !(existing && isViewLimited(existing))) {
+        await recordRevision(c.env.DB, note.path, content, parseInt(c.env.REVISION_LIMIT || '50'), existing?.content, format);
+      }
+      
+      await indexNote(c.env.DB, note.path);
+      await updateNoteLinks(c.env.DB, note.path);
+      
+      // 清除缓存
+      await c.env.CACHE.delete(`note:${note.path}`);
       
       imported++;
     } catch (error) {
@@ -650,6 +996,59 @@ function getAdminDashboardHTML(): string {
       width: 200px;
     }
     
+    .trash-card,
+    .templates-card,
+    .links-card,
+    .attempts-card,
+    .shares-card {
+      margin-top: var(--spacing-lg);
+    }
+    
+    .template-form {
+      display: none;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-md);
+      border-bottom: 1px solid var(--border-color);
+    }
+    
+    .template-form.show {
+      display: flex;
+    }
+    
+    .template-form-row {
+      display: flex;
+      gap: var(--spacing-sm);
+    }
+    
+    .template-form textarea {
+      min-height: 200px;
+      padding: var(--spacing-sm);
+      border: 1px solid var(--border-color);
+      border-radius: var(--border-radius);
+      font-family: monospace;
+      font-size: 13px;
+      resize: vertical;
+    }
+    
+    .table-subtitle {
+      font-size: 12px;
+      color: var(--text-muted);
+    }
+    
+    .note-snippet {
+      margin-top: var(--spacing-xs);
+      font-size: 12px;
+      color: var(--text-secondary);
+      max-width: 480px;
+    }
+    
+    .note-snippet mark {
+      background: #fef08a;
+      color: inherit;
+      padding: 0 1px;
+    }
+    
     table {
       width: 100%;
       border-collapse: collapse;
@@ -698,6 +1097,24 @@ function getAdminDashboardHTML(): string {
       color: #155724;
     }
     
+    .badge-attack {
+      background: #fee2e2;
+      color: #991b1b;
+    }
+    
+    .badge-encrypted {
+      background: #e0e7ff;
+      color: #3730a3;
+    }
+    
+    .badge-tag {
+      margin: var(--spacing-xs) var(--spacing-xs) 0 0;
+      background: var(--bg-secondary);
+      color: var(--text-secondary);
+      text-transform: none;
+      cursor: pointer;
+    }
+    
     /* 加载器 */
     .spinner {
       width: 20px;
@@ -846,7 +1263,10 @@ function getAdminDashboardHTML(): string {
       <div class="table-header">
         <h2 class="table-title">笔记列表</h2>
         <div class="search-box">
-          <input type="text" class="search-input" placeholder="搜索路径..." id="searchInput" onkeyup="filterTable()">
+          <select class="search-input" id="tagFilter" onchange="filterByTag(this.value)">
+            <option value="">全部标签</option>
+          </select>
+          <input type="text" class="search-input" placeholder="搜索路径或内容..." id="searchInput" onkeyup="filterTable()">
         </div>
       </div>
       <table>
@@ -870,36 +1290,171 @@ function getAdminDashboardHTML(): string {
         </tbody>
       </table>
     </div>
-  </div>
-  
-  <script>
-    const token = localStorage.getItem('adminToken');
-    if (!token) {
-      window.location.href = '/admin';
-    }
     
-    let allNotes = [];
+    <!-- 回收站 -->
+    <div class="table-card trash-card">
+      <div class="table-header">
+        <h2 class="table-title">回收站</h2>
+        <span class="table-subtitle" id="trashRetention"></span>
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th>路径</th>
+            <th>删除者</th>
+            <th>删除时间</th>
+            <th>更新时间</th>
+            <th>操作</th>
+          </tr>
+        </thead>
+        <tbody id="trashTableBody">
+          <tr>
+            <td colspan="5" style="text-align: center; padding: 2rem; color: var(--text-muted);">回收站为空</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
     
-    async function fetchNotes() {
-      try {
-        const response = await fetch('/admin/api/notes', {
-          headers: {
-            'Authorization': 'Bearer ' + token
-          }
-        });
-        
-        if (!response.ok) {
-          if (response.status === 401) {
-            localStorage.removeItem('adminToken');
-            window.location.href = '/admin';
-          }
-          throw new Error('Failed to fetch notes');
-        }
-        
-        const data = await response.json();
-        allNotes = data.notes;
+    <!-- 笔记模板 -->
+    <div class="table-card templates-card">
+      <div class="table-header">
+        <h2 class="table-title">笔记模板</h2>
+        <button class="btn btn-small" onclick="editTemplate('')">新建模板</button>
+      </div>
+      <div class="template-form" id="templateForm">
+        <div class="template-form-row">
+          <input type="text" class="search-input" id="templateName" placeholder="名称（如 incident）">
+          <select class="search-input" id="templateFormat">
+            <option value="html">富文本</option>
+            <option value="markdown">Markdown</option>
+          </select>
+          <input type="text" class="search-input" id="templateDescription" placeholder="说明（可选）">
+        </div>
+        <textarea id="templateContent" placeholder="模板内容，可使用 {{date}}、{{time}}、{{datetime}}、{{path}}、{{title}} 占位符"></textarea>
+        <div class="template-form-row">
+          <button class="btn btn-primary btn-small" onclick="saveTemplate()">保存模板</button>
+          <button class="btn btn-small" onclick="closeTemplateForm()">取消</button>
+        </div>
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th>名称</th>
+            <th>说明</th>
+            <th>格式</th>
+            <th>更新时间</th>
+            <th>操作</th>
+          </tr>
+        </thead>
+        <tbody id="templatesTableBody">
+          <tr>
+            <td colspan="5" style="text-align: center; padding: 2rem; color: var(--text-muted);">暂无模板</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+    
+    <!-- 失效链接：指向不存在的笔记的 [[路径]] 链接 -->
+    <div class="table-card links-card">
+      <div class="table-header">
+        <h2 class="table-title">失效链接</h2>
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th>目标路径</th>
+            <th>所在笔记</th>
+            <th>操作</th>
+          </tr>
+        </thead>
+        <tbody id="brokenLinksTableBody">
+          <tr>
+            <td colspan="3" style="text-align: center; padding: 2rem; color: var(--text-muted);">暂无失效链接</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+    
+    <!-- 密码尝试异常：最近一天内解锁失败较多的笔记 -->
+    <div class="table-card attempts-card">
+      <div class="table-header">
+        <h2 class="table-title">密码尝试异常</h2>
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th>路径</th>
+            <th>失败次数</th>
+            <th>来源IP数</th>
+            <th>最近尝试</th>
+            <th>状态</th>
+          </tr>
+        </thead>
+        <tbody id="attemptsTableBody">
+          <tr>
+            <td colspan="5" style="text-align: center; padding: 2rem; color: var(--text-muted);">暂无异常</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+    
+    <!-- 分享链接：锁定笔记的持有者生成的免密码链接 -->
+    <div class="table-card shares-card">
+      <div class="table-header">
+        <h2 class="table-title">分享链接</h2>
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th>路径</th>
+            <th>权限</th>
+            <th>使用次数</th>
+            <th>到期时间</th>
+            <th>操作</th>
+          </tr>
+        </thead>
+        <tbody id="sharesTableBody">
+          <tr>
+            <td colspan="5" style="text-align: center; padding: 2rem; color: var(--text-muted);">暂无分享链接</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  </div>
+  
+  <script>
+    const token = localStorage.getItem('adminToken');
+    if (!token) {
+      window.location.href = '/admin';
+    }
+    
+    let allNotes = [];
+    let tagFilter = '';
+    
+    async function fetchNotes() {
+      try {
+        const query = tagFilter ? '?tag=' + encodeURIComponent(tagFilter) : '';
+        const response = await fetch('/admin/api/notes' + query, {
+          headers: {
+            'Authorization': 'Bearer ' + token
+          }
+        });
+        
+        if (!response.ok) {
+          if (response.status === 401) {
+            localStorage.removeItem('adminToken');
+            window.location.href = '/admin';
+          }
+          throw new Error('Failed to fetch notes');
+        }
+        
+        const data = await response.json();
+        allNotes = data.notes;
         displayNotes(data.notes);
-        updateStats(data.notes);
+        // 统计始终针对全部笔记
+        if (!tagFilter) {
+          updateStats(data.notes);
+        }
       } catch (error) {
         console.error('Error fetching notes:', error);
         showMessage('加载笔记失败', 'error');
@@ -916,8 +1471,10 @@ function getAdminDashboardHTML(): string {
       
       tbody.innerHTML = notes.map(note => {
         const lockBadge = note.is_locked 
-          ? '<span class="badge badge-locked">' + (note.lock_type === 'read' ? '访问锁定' : '编辑锁定') + '</span>'
+          ? '<span class="badge badge-locked">' + (note.lock_type === 'read' ? '访问锁定' : note.lock_type === 'append' ? '追加锁定' : '编辑锁定') + '</span>'
           : '<span class="badge badge-open">开放</span>';
+        // 加密笔记的内容只有密文，后台无法查看
+        const encryptedBadge = note.encrypted ? ' <span class="badge badge-encrypted">端到端加密</span>' : '';
         
         return \`
           <tr>
@@ -925,12 +1482,17 @@ function getAdminDashboardHTML(): string {
               <a href="/\${note.path}" target="_blank" style="color: var(--primary-color); text-decoration: none;">
                 /\${note.path}
               </a>
+              \${note.snippet ? '<div class="note-snippet">' + note.snippet + '</div>' : ''}
+              <div>\${(note.tags || []).map(tag => '<span class="badge badge-tag" onclick="filterByTag(\\'' + tag + '\\')">#' + tag + '</span>').join('')}</div>
             </td>
-            <td>\${lockBadge}</td>
+            <td>\${lockBadge}\${encryptedBadge}</td>
             <td>\${note.view_count}</td>
             <td>\${formatDate(note.created_at)}</td>
             <td>\${formatDate(note.updated_at)}</td>
             <td>
+              <button class="btn btn-small" onclick="renameNote('\${note.path}')">
+                重命名
+              </button>
               <button class="btn btn-danger btn-small" onclick="deleteNote('\${note.path}')">
                 删除
               </button>
@@ -957,19 +1519,109 @@ function getAdminDashboardHTML(): string {
       });
     }
     
+    let searchTimer = null;
+    
     function filterTable() {
-      const searchTerm = document.getElementById('searchInput').value.toLowerCase();
-      const filtered = allNotes.filter(note => 
-        note.path.toLowerCase().includes(searchTerm)
-      );
-      displayNotes(filtered);
+      clearTimeout(searchTimer);
+      const searchTerm = document.getElementById('searchInput').value.trim();
+      if (!searchTerm) {
+        displayNotes(allNotes);
+        return;
+      }
+      searchTimer = setTimeout(() => searchNotes(searchTerm), 300);
+    }
+    
+    // 服务端全文搜索，结果按相关度排序并带有高亮片段
+    async function searchNotes(searchTerm) {
+      try {
+        const response = await fetch('/admin/api/search?q=' + encodeURIComponent(searchTerm), {
+          headers: {
+            'Authorization': 'Bearer ' + token
+          }
+        });
+        
+        if (!response.ok) {
+          throw new Error('Failed to search notes');
+        }
+        
+        const data = await response.json();
+        // 输入已变化时丢弃过期的结果
+        if (document.getElementById('searchInput').value.trim() === searchTerm) {
+          displayNotes(data.results);
+        }
+      } catch (error) {
+        console.error('Error searching notes:', error);
+        showMessage('搜索失败', 'error');
+      }
+    }
+    
+    // 加载标签及其笔记数量，用于按标签筛选
+    async function fetchTags() {
+      try {
+        const response = await fetch('/admin/api/tags', {
+          headers: {
+            'Authorization': 'Bearer ' + token
+          }
+        });
+        
+        if (!response.ok) {
+          throw new Error('Failed to fetch tags');
+        }
+        
+        const data = await response.json();
+        const select = document.getElementById('tagFilter');
+        select.innerHTML = '<option value="">全部标签</option>' + data.tags.map(tag =>
+          '<option value="' + tag.name + '">#' + tag.name + ' (' + tag.count + ')</option>'
+        ).join('');
+        select.value = tagFilter;
+      } catch (error) {
+        console.error('Error fetching tags:', error);
+      }
+    }
+    
+    function filterByTag(tag) {
+      tagFilter = tag;
+      document.getElementById('tagFilter').value = tag;
+      document.getElementById('searchInput').value = '';
+      fetchNotes();
+    }
+    
+    async function renameNote(path) {
+      const newPath = prompt('将 /' + path + ' 重命名为：', path);
+      if (!newPath || newPath === path) return;
+      const keepAlias = confirm('是否保留旧路径 /' + path + ' 作为跳转链接？');
+      
+      try {
+        const response = await fetch('/admin/api/note/' + encodeURIComponent(path) + '/rename', {
+          method: 'POST',
+          headers: {
+            'Authorization': 'Bearer ' + token,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ new_path: newPath, keep_alias: keepAlias })
+        });
+        
+        if (response.ok) {
+          showMessage('笔记已重命名为 /' + newPath, 'success');
+          fetchNotes();
+        } else if (response.status === 409) {
+          showMessage('路径 /' + newPath + ' 已被占用', 'error');
+        } else if (response.status === 400) {
+          showMessage('路径格式无效', 'error');
+        } else {
+          showMessage('重命名失败', 'error');
+        }
+      } catch (error) {
+        console.error('Error renaming note:', error);
+        showMessage('重命名失败', 'error');
+      }
     }
     
     async function deleteNote(path) {
-      if (!confirm('确定要删除笔记 /' + path + ' 吗？此操作不可恢复。')) return;
+      if (!confirm('确定要删除笔记 /' + path + ' 吗？笔记将移入回收站。')) return;
       
       try {
-        const response = await fetch('/admin/api/note/' + path, {
+        const response = await fetch('/admin/api/note/' + encodeURIComponent(path), {
           method: 'DELETE',
           headers: {
             'Authorization': 'Bearer ' + token
@@ -977,8 +1629,9 @@ function getAdminDashboardHTML(): string {
         });
         
         if (response.ok) {
-          showMessage('笔记已删除', 'success');
+          showMessage('笔记已移入回收站', 'success');
           fetchNotes();
+          fetchTrash();
         } else {
           showMessage('删除失败', 'error');
         }
@@ -988,6 +1641,388 @@ function getAdminDashboardHTML(): string {
       }
     }
     
+    async function fetchTrash() {
+      try {
+        const response = await fetch('/admin/api/trash', {
+          headers: {
+            'Authorization': 'Bearer ' + token
+          }
+        });
+        
+        if (!response.ok) {
+          throw new Error('Failed to fetch trash');
+        }
+        
+        const data = await response.json();
+        document.getElementById('trashRetention').textContent = '删除 ' + data.retention_days + ' 天后自动清除';
+        displayTrash(data.notes);
+      } catch (error) {
+        console.error('Error fetching trash:', error);
+        showMessage('加载回收站失败', 'error');
+      }
+    }
+    
+    function displayTrash(notes) {
+      const tbody = document.getElementById('trashTableBody');
+      
+      if (notes.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="5" style="text-align: center; padding: 2rem; color: var(--text-muted);">回收站为空</td></tr>';
+        return;
+      }
+      
+      tbody.innerHTML = notes.map(note => \`
+        <tr>
+          <td>/\${note.path}</td>
+          <td>\${note.deleted_by || '-'}</td>
+          <td>\${formatDate(note.deleted_at)}</td>
+          <td>\${formatDate(note.updated_at)}</td>
+          <td>
+            <button class="btn btn-small" onclick="restoreNote('\${note.path}')">
+              恢复
+            </button>
+            <button class="btn btn-danger btn-small" onclick="purgeNote('\${note.path}')">
+              彻底删除
+            </button>
+          </td>
+        </tr>
+      \`).join('');
+    }
+    
+    async function restoreNote(path) {
+      try {
+        const response = await fetch('/admin/api/trash/' + encodeURIComponent(path) + '/restore', {
+          method: 'POST',
+          headers: {
+            'Authorization': 'Bearer ' + token
+          }
+        });
+        
+        if (response.ok) {
+          showMessage('笔记已恢复', 'success');
+          fetchNotes();
+          fetchTrash();
+        } else {
+          showMessage('恢复失败', 'error');
+        }
+      } catch (error) {
+        console.error('Error restoring note:', error);
+        showMessage('恢复失败', 'error');
+      }
+    }
+    
+    async function purgeNote(path) {
+      if (!confirm('确定要彻底删除笔记 /' + path + ' 吗？修订历史和附件将一并删除，此操作不可恢复。')) return;
+      
+      try {
+        const response = await fetch('/admin/api/trash/' + encodeURIComponent(path), {
+          method: 'DELETE',
+          headers: {
+            'Authorization': 'Bearer ' + token
+          }
+        });
+        
+        if (response.ok) {
+          showMessage('笔记已彻底删除', 'success');
+          fetchTrash();
+        } else {
+          showMessage('删除失败', 'error');
+        }
+      } catch (error) {
+        console.error('Error purging note:', error);
+        showMessage('删除失败', 'error');
+      }
+    }
+    
+    let allTemplates = [];
+    
+    async function fetchTemplates() {
+      try {
+        const response = await fetch('/admin/api/templates', {
+          headers: {
+            'Authorization': 'Bearer ' + token
+          }
+        });
+        
+        if (!response.ok) {
+          throw new Error('Failed to fetch templates');
+        }
+        
+        const data = await response.json();
+        allTemplates = data.templates;
+        displayTemplates(data.templates);
+      } catch (error) {
+        console.error('Error fetching templates:', error);
+        showMessage('加载模板失败', 'error');
+      }
+    }
+    
+    function displayTemplates(templates) {
+      const tbody = document.getElementById('templatesTableBody');
+      
+      if (templates.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="5" style="text-align: center; padding: 2rem; color: var(--text-muted);">暂无模板</td></tr>';
+        return;
+      }
+      
+      tbody.innerHTML = templates.map(template => \`
+        <tr>
+          <td>
+            <a href="/?template=\${template.name}" target="_blank" style="color: var(--primary-color); text-decoration: none;">
+              \${template.name}
+            </a>
+          </td>
+          <td>\${escapeHtml(template.description || '-')}</td>
+          <td>\${template.format === 'markdown' ? 'Markdown' : '富文本'}</td>
+          <td>\${formatDate(template.updated_at)}</td>
+          <td>
+            <button class="btn btn-small" onclick="editTemplate('\${template.name}')">
+              编辑
+            </button>
+            <button class="btn btn-danger btn-small" onclick="deleteTemplate('\${template.name}')">
+              删除
+            </button>
+          </td>
+        </tr>
+      \`).join('');
+    }
+    
+    function escapeHtml(text) {
+      const div = document.createElement('div');
+      div.textContent = text;
+      return div.innerHTML;
+    }
+    
+    // 打开模板表单，name为空时新建模板
+    function editTemplate(name) {
+      const template = allTemplates.find(t => t.name === name);
+      document.getElementById('templateName').value = name;
+      document.getElementById('templateName').readOnly = !!template;
+      document.getElementById('templateFormat').value = template ? template.format : 'html';
+      document.getElementById('templateDescription').value = template ? template.description || '' : '';
+      document.getElementById('templateContent').value = template ? template.content : '';
+      document.getElementById('templateForm').classList.add('show');
+    }
+    
+    function closeTemplateForm() {
+      document.getElementById('templateForm').classList.remove('show');
+    }
+    
+    async function saveTemplate() {
+      const name = document.getElementById('templateName').value.trim();
+      if (!name) {
+        showMessage('请输入模板名称', 'error');
+        return;
+      }
+      
+      try {
+        const response = await fetch('/admin/api/templates/' + encodeURIComponent(name), {
+          method: 'PUT',
+          headers: {
+            'Authorization': 'Bearer ' + token,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            format: document.getElementById('templateFormat').value,
+            description: document.getElementById('templateDescription').value,
+            content: document.getElementById('templateContent').value
+          })
+        });
+        
+        if (response.ok) {
+          showMessage('模板已保存', 'success');
+          closeTemplateForm();
+          fetchTemplates();
+        } else if (response.status === 400) {
+          showMessage('模板名称只能包含小写字母、数字、- 和 _', 'error');
+        } else {
+          showMessage('保存模板失败', 'error');
+        }
+      } catch (error) {
+        console.error('Error saving template:', error);
+        showMessage('保存模板失败', 'error');
+      }
+    }
+    
+    async function deleteTemplate(name) {
+      if (!confirm('确定要删除模板 ' + name + ' 吗？')) return;
+      
+      try {
+        const response = await fetch('/admin/api/templates/' + encodeURIComponent(name), {
+          method: 'DELETE',
+          headers: {
+            'Authorization': 'Bearer ' + token
+          }
+        });
+        
+        if (response.ok) {
+          showMessage('模板已删除', 'success');
+          fetchTemplates();
+        } else {
+          showMessage('删除模板失败', 'error');
+        }
+      } catch (error) {
+        console.error('Error deleting template:', error);
+        showMessage('删除模板失败', 'error');
+      }
+    }
+    
+    async function fetchBrokenLinks() {
+      try {
+        const response = await fetch('/admin/api/links/broken', {
+          headers: {
+            'Authorization': 'Bearer ' + token
+          }
+        });
+        
+        if (!response.ok) {
+          throw new Error('Failed to fetch broken links');
+        }
+        
+        const data = await response.json();
+        displayBrokenLinks(data.links);
+      } catch (error) {
+        console.error('Error fetching broken links:', error);
+      }
+    }
+    
+    function displayBrokenLinks(links) {
+      const tbody = document.getElementById('brokenLinksTableBody');
+      
+      if (links.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="3" style="text-align: center; padding: 2rem; color: var(--text-muted);">暂无失效链接</td></tr>';
+        return;
+      }
+      
+      tbody.innerHTML = links.map(link => \`
+        <tr>
+          <td>/\${escapeHtml(link.target)}</td>
+          <td>
+            <a href="/\${link.source}" target="_blank" style="color: var(--primary-color); text-decoration: none;">
+              /\${link.source}
+            </a>
+          </td>
+          <td>
+            <a href="/\${encodeURI(link.target)}" target="_blank" class="btn btn-small">创建笔记</a>
+          </td>
+        </tr>
+      \`).join('');
+    }
+    
+    async function fetchUnlockAttempts() {
+      try {
+        const response = await fetch('/admin/api/unlock-attempts', {
+          headers: {
+            'Authorization': 'Bearer ' + token
+          }
+        });
+        
+        if (!response.ok) {
+          throw new Error('Failed to fetch unlock attempts');
+        }
+        
+        const data = await response.json();
+        displayUnlockAttempts(data.notes);
+      } catch (error) {
+        console.error('Error fetching unlock attempts:', error);
+      }
+    }
+    
+    function displayUnlockAttempts(notes) {
+      const tbody = document.getElementById('attemptsTableBody');
+      
+      if (notes.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="5" style="text-align: center; padding: 2rem; color: var(--text-muted);">暂无异常</td></tr>';
+        return;
+      }
+      
+      tbody.innerHTML = notes.map(note => \`
+        <tr>
+          <td>
+            <a href="/\${note.path}" target="_blank" style="color: var(--primary-color); text-decoration: none;">
+              /\${escapeHtml(note.path)}
+            </a>
+          </td>
+          <td>\${note.failures}</td>
+          <td>\${note.ips}</td>
+          <td>\${formatDate(note.last_attempt)}</td>
+          <td>
+            \${note.retry_after > 0
+              ? '<span class="badge badge-attack">锁定中 ' + Math.ceil(note.retry_after / 60) + ' 分钟</span>'
+              : '<span class="badge badge-open">可尝试</span>'}
+          </td>
+        </tr>
+      \`).join('');
+    }
+    
+    async function fetchShares() {
+      try {
+        const response = await fetch('/admin/api/shares', {
+          headers: {
+            'Authorization': 'Bearer ' + token
+          }
+        });
+        
+        if (!response.ok) {
+          throw new Error('Failed to fetch share links');
+        }
+        
+        const data = await response.json();
+        displayShares(data.shares);
+      } catch (error) {
+        console.error('Error fetching share links:', error);
+      }
+    }
+    
+    function displayShares(shares) {
+      const tbody = document.getElementById('sharesTableBody');
+      
+      if (shares.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="5" style="text-align: center; padding: 2rem; color: var(--text-muted);">暂无分享链接</td></tr>';
+        return;
+      }
+      
+      tbody.innerHTML = shares.map(share => \`
+        <tr>
+          <td>
+            <a href="/\${share.path}" target="_blank" style="color: var(--primary-color); text-decoration: none;">
+              /\${escapeHtml(share.path)}
+            </a>
+          </td>
+          <td>\${share.access === 'edit' ? '可以编辑' : '只能查看'}</td>
+          <td>\${share.use_count}\${share.max_uses ? ' / ' + share.max_uses : ''}</td>
+          <td>\${formatDate(share.expires_at)}</td>
+          <td>
+            <button class="btn btn-danger btn-small" onclick="revokeShare('\${share.id}')">
+              撤销
+            </button>
+          </td>
+        </tr>
+      \`).join('');
+    }
+    
+    async function revokeShare(id) {
+      if (!confirm('撤销后该链接将立即失效，确定继续吗？')) return;
+      
+      try {
+        const response = await fetch('/admin/api/shares/' + encodeURIComponent(id), {
+          method: 'DELETE',
+          headers: {
+            'Authorization': 'Bearer ' + token
+          }
+        });
+        
+        if (response.ok) {
+          showMessage('分享链接已撤销', 'success');
+          fetchShares();
+        } else {
+          showMessage('撤销失败', 'error');
+        }
+      } catch (error) {
+        console.error('Error revoking share link:', error);
+        showMessage('撤销失败', 'error');
+      }
+    }
+    
     async function exportNotes() {
       try {
         const response = await fetch('/admin/api/export', {
@@ -1066,6 +2101,12 @@ function getAdminDashboardHTML(): string {
     
     function refreshData() {
       fetchNotes();
+      fetchTags();
+      fetchTrash();
+      fetchTemplates();
+      fetchBrokenLinks();
+      fetchUnlockAttempts();
+      fetchShares();
       showMessage('数据已刷新', 'success');
     }
     
@@ -1092,6 +2133,12 @@ function getAdminDashboardHTML(): string {
     
     // 初始加载
     fetchNotes();
+    fetchTags();
+    fetchTrash();
+    fetchTemplates();
+    fetchBrokenLinks();
+    fetchUnlockAttempts();
+    fetchShares();
     
     // 定期刷新
     setInterval(fetchNotes, 60000);
@@ -1,31 +1,328 @@
 import { Hono } from 'hono';
-import type { Bindings, Note, SaveNoteRequest, UnlockRequest, LockRequest } from '../types';
-import { hashPassword, verifyPassword, validatePath, generateRandomPath, sanitizeHtml } from '../utils/crypto';
+import type { Context, Next } from 'hono';
+import { getCookie, setCookie } from 'hono/cookie';
+import type { AppendRequest, Attachment, Bindings, FormatRequest, LockType, Note, NoteAccessLevel, NoteFormat, NoteRevision, RenameRequest, SaveNoteRequest, ShareLink, ShareRequest, TagRequest, UnlockRequest, LockRequest, RestoreRevisionRequest } from '../types';
+import { hashPassword, verifyPassword, validatePath, pathKey } from '../utils/crypto';
+import { sanitizeHtml } from '../utils/sanitize';
+import { recordRevision, diffLines } from '../utils/revisions';
+import { noteText } from '../utils/text';
+import { isEncryptedContent } from '../utils/encryption';
+import { isNoteFormat, renderMarkdown, htmlToMarkdown } from '../utils/markdown';
+import { publishNoteEvent } from '../realtime/events';
+import { hasExpiryOptions, parseExpiry, isExpired, isViewLimited, setExpiry, readViewLimitedNote, purgeNote } from '../utils/expiry';
+import type { NoteExpiry } from '../utils/expiry';
+import { generateAttachmentId, attachmentKey, isInlineType, contentDisposition } from '../utils/attachments';
+import { createNoteAccessToken, verifyNoteAccessToken, createNoteSessionToken, verifyNoteSessionToken, createShareToken, verifyShareToken } from '../utils/jwt';
+import { indexNote } from '../utils/search';
+import { updateNoteLinks, getBacklinks, wikiLinkHref } from '../utils/links';
+import { unlockRetryAfter, recordUnlockFailure, clearUnlockFailures } from '../utils/attempts';
+import type { AttemptLimits } from '../utils/attempts';
+import { parseShareOptions, shareExpiresAt, createShareLink, listShareLinks, revokeShareLink, redeemShareLink, checkShareLink, deleteShareLinks } from '../utils/shares';
+import { appendToNote } from '../utils/append';
+import { resolveCanonicalPath, renameNote } from '../utils/rename';
+import { listFolder } from '../utils/folders';
+import { generateUniquePath, parsePathStrategy, parsePathAlphabet } from '../utils/pathgen';
+import { listTemplates, getTemplate, renderTemplate } from '../utils/templates';
+import { normalizeTag, getNoteTags, addNoteTag, removeNoteTag, listTags, listNotesByTag } from '../utils/tags';
+import { negotiateRawType, renderRaw, parseRawBody } from '../utils/raw';
+import type { RawType } from '../utils/raw';
 
 const api = new Hono<{ Bindings: Bindings }>();
+// 纯文本接口，同时挂载在 /api/note/:path/raw 和 /:path/raw
+// （/api/note 下多级路径编码为一段，如 team%2Foncall；根路径下直接使用 /team/oncall/raw）
+const raw = new Hono<{ Bindings: Bindings }>();
+
+// 非规范形式的路径重定向到规范路径（308保留请求方法和请求体）：未经NFC规范化的路径、
+// 已改名笔记的旧路径、不区分大小写时大小写不同的路径。rewrite根据原请求路径生成新地址
+function redirectCanonical(rewrite: (pathname: string, target: string) => string) {
+  return async (c: Context<{ Bindings: Bindings }>, next: Next) => {
+    const target = await resolveCanonicalPath(c.env.DB, c.req.param('path')!, c.env.PATH_CASE_POLICY === 'insensitive');
+    if (!target) {
+      await next();
+      return;
+    }
+    
+    const url = new URL(c.req.url);
+    return c.redirect(rewrite(url.pathname, target) + url.search, 308);
+  };
+}
+
+// 替换 /api/note/ 之后的笔记路径段
+function replaceNoteSegment(pathname: string, target: string): string {
+  const segments = pathname.split('/');
+  segments[segments.indexOf('note') + 1] = encodeURIComponent(target);
+  return segments.join('/');
+}
+
+api.use('/note/:path', redirectCanonical(replaceNoteSegment));
+api.use('/note/:path/*', redirectCanonical(replaceNoteSegment));
+raw.use('/:path{.+}/raw', redirectCanonical((_pathname, target) => encodeURI(`/${target}/raw`)));
+
+// 读取请求头中的笔记密码（客户端使用encodeURIComponent编码，以支持非ASCII字符）
+function readPasswordHeader(value: string | undefined): string | null {
+  if (!value) return null;
+  
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+// 解锁或设置锁定后下发的笔记会话令牌，之后的请求通过该请求头代替密码
+const NOTE_TOKEN_HEADER = 'X-Note-Token';
+
+async function issueNoteSessionToken(c: Context<{ Bindings: Bindings }>, path: string, passwordHash: string): Promise<string> {
+  const duration = parseInt(c.env.NOTE_SESSION_DURATION || '3600');
+  return createNoteSessionToken(c.env.JWT_SECRET, path, passwordHash, duration);
+}
+
+// 请求中的会话令牌是否有效：编辑权限只接受编辑密码签发的令牌，查看权限也接受查看密码签发的令牌
+async function verifyNoteToken(
+  c: Context<{ Bindings: Bindings }>,
+  note: Note,
+  access: NoteAccessLevel,
+  token: string | undefined = c.req.header(NOTE_TOKEN_HEADER)
+): Promise<boolean> {
+  if (!token) {
+    return false;
+  }
+  if (note.password_hash && await verifyNoteSessionToken(token, c.env.JWT_SECRET, note.path, note.password_hash)) {
+    return true;
+  }
+  
+  return access === 'view' && !!note.view_password_hash &&
+    verifyNoteSessionToken(token, c.env.JWT_SECRET, note.path, note.view_password_hash);
+}
+
+// 验证锁定笔记的凭据（access为view时查看密码也可以），通过时返回null，否则返回错误响应。
+// 除解锁外的笔记密码都经过这里验证：先检查会话令牌，避免每次保存都重新执行开销较大的密码验证；
+// 密码与解锁共用尝试次数限制，退避或临时锁定期间返回429，密码错误计入失败次数
+async function rejectNoteCredential(
+  c: Context<{ Bindings: Bindings }>,
+  note: Note,
+  password: string | null | undefined,
+  access: NoteAccessLevel,
+  missingError: string = 'Password required'
+) {
+  if (!note.password_hash || await verifyNoteToken(c, note, access)) {
+    return null;
+  }
+  if (!password) {
+    return c.json({ error: c.req.header(NOTE_TOKEN_HEADER) ? 'Invalid password' : missingError }, 403);
+  }
+  
+  const throttled = await rejectThrottledAttempt(c, note.path);
+  if (throttled) {
+    return throttled;
+  }
+  
+  const level = await passwordAccess(note, password);
+  if (level === 'edit' || (level === 'view' && access === 'view')) {
+    // 与解锁一样，密码正确后清除该IP此前的失败计数
+    await clearUnlockFailures(c.env.CACHE, clientIp(c));
+    return null;
+  }
+  
+  return rejectInvalidPassword(c, note.path);
+}
+
+// 解锁时密码对应的权限：编辑密码获得完整权限，查看密码只能查看，都不匹配时返回null
+async function passwordAccess(note: Note, password: string): Promise<NoteAccessLevel | null> {
+  if (note.password_hash && await verifyPassword(password, note.password_hash)) {
+    return 'edit';
+  }
+  if (note.view_password_hash && await verifyPassword(password, note.view_password_hash)) {
+    return 'view';
+  }
+  return null;
+}
+
+// 分享链接令牌：通过页面地址的share参数打开笔记，之后的保存请求通过该请求头携带
+const NOTE_SHARE_HEADER = 'X-Note-Share';
+
+// 请求携带的分享链接授予的权限，consume为true时（打开笔记）消耗一次使用次数，链接无效时返回null
+async function shareAccess(c: Context<{ Bindings: Bindings }>, note: Note, consume: boolean): Promise<NoteAccessLevel | null> {
+  const token = c.req.query('share') || c.req.header(NOTE_SHARE_HEADER);
+  if (!token) {
+    return null;
+  }
+  
+  const id = await verifyShareToken(token, c.env.JWT_SECRET);
+  if (!id) {
+    return null;
+  }
+  
+  return consume ? redeemShareLink(c.env.DB, id, note.path) : checkShareLink(c.env.DB, id, note.path);
+}
+
+// 分享链接的页面地址，令牌根据链接记录重新签发，列出链接时也能取得地址
+async function shareUrl(c: Context<{ Bindings: Bindings }>, link: ShareLink): Promise<string> {
+  const token = await createShareToken(c.env.JWT_SECRET, link.path, link.id, shareExpiresAt(link));
+  return `${wikiLinkHref(link.path)}?share=${token}`;
+}
+
+// 客户端IP，与速率限制中间件的取值方式一致
+function clientIp(c: Context<{ Bindings: Bindings }>): string {
+  return c.req.header('CF-Connecting-IP') || c.req.header('X-Forwarded-For') || 'unknown';
+}
+
+function attemptLimits(c: Context<{ Bindings: Bindings }>): AttemptLimits {
+  return {
+    maxAttempts: parseInt(c.env.UNLOCK_MAX_ATTEMPTS || '5'),
+    lockoutDuration: parseInt(c.env.UNLOCK_LOCKOUT_DURATION || '900')
+  };
+}
+
+// 该笔记或IP的密码尝试处于退避或临时锁定中时返回429及Retry-After，否则返回null
+async function rejectThrottledAttempt(c: Context<{ Bindings: Bindings }>, path: string) {
+  const retryAfter = await unlockRetryAfter(c.env.CACHE, path, clientIp(c));
+  if (retryAfter === 0) {
+    return null;
+  }
+  
+  c.header('Retry-After', String(retryAfter));
+  return c.json({ error: 'Too many attempts', retry_after: retryAfter }, 429);
+}
+
+// 记录一次密码错误，开始退避后通过Retry-After告知客户端下次可尝试的时间
+async function rejectInvalidPassword(c: Context<{ Bindings: Bindings }>, path: string) {
+  const wait = await recordUnlockFailure(c.env.DB, c.env.CACHE, path, clientIp(c), attemptLimits(c));
+  if (wait > 0) {
+    c.header('Retry-After', String(wait));
+    return c.json({ error: 'Invalid password', retry_after: wait }, 403);
+  }
+  
+  return c.json({ error: 'Invalid password' }, 403);
+}
+
+// 解析保存所基于的版本：优先使用请求体中的 base_version，其次是 If-Match 请求头
+function parseBaseVersion(bodyVersion: number | undefined, ifMatch: string | undefined): number | null {
+  if (typeof bodyVersion === 'number') return bodyVersion;
+  if (!ifMatch) return null;
+  
+  const version = parseInt(ifMatch.replace(/^W\//, '').replace(/"/g, ''));
+  return isNaN(version) ? null : version;
+}
+
+// 检查是否有权查看笔记内容，无权时返回错误响应（访问锁定的笔记需要密码；
+// 已过期或限制查看次数的笔记只能通过获取/解锁接口读取）
+async function rejectUnreadableNote(c: Context<{ Bindings: Bindings }>, note: Note, password: string | null) {
+  if (isExpired(note) || isViewLimited(note)) {
+    return c.json({ error: 'Password required' }, 403);
+  }
+  
+  return note.is_locked && note.lock_type === 'read' ? rejectNoteCredential(c, note, password, 'view') : null;
+}
+
+// 保存冲突：返回409及服务器当前版本。访问锁定的笔记只在本次请求已验证编辑权限（verified）
+// 或携带有效会话令牌时返回内容，不再单独验证请求中的密码
+async function conflictResponse(c: Context<{ Bindings: Bindings }>, note: Note, verified: boolean) {
+  const readable = !isExpired(note) && !isViewLimited(note) &&
+    (verified || !note.is_locked || note.lock_type !== 'read' || !note.password_hash || await verifyNoteToken(c, note, 'view'));
+  
+  c.header('ETag', `"${note.version}"`);
+  return c.json({
+    error: 'Conflict',
+    version: note.version,
+    updated_at: note.updated_at,
+    content: readable ? note.content : undefined
+  }, 409);
+}
+
+// 解锁访问锁定的笔记后下发的访问令牌，限定在该笔记的附件路径下
+const NOTE_ACCESS_COOKIE = 'note_access';
+
+async function setNoteAccessCookie(c: Context<{ Bindings: Bindings }>, path: string) {
+  const duration = parseInt(c.env.SESSION_DURATION || '86400');
+  const token = await createNoteAccessToken(c.env.JWT_SECRET, path, duration);
+  
+  setCookie(c, NOTE_ACCESS_COOKIE, token, {
+    path: `/api/note/${encodeURIComponent(path)}/attachments`,
+    httpOnly: true,
+    secure: new URL(c.req.url).protocol === 'https:',
+    sameSite: 'Strict',
+    maxAge: duration
+  });
+}
+
+async function hasNoteAccessCookie(c: Context<{ Bindings: Bindings }>, path: string): Promise<boolean> {
+  const token = getCookie(c, NOTE_ACCESS_COOKIE);
+  return !!token && verifyNoteAccessToken(token, c.env.JWT_SECRET, path);
+}
+
+// 附件所属的笔记是否可以访问：回收站中和已过期的笔记不可访问；尚未创建的笔记
+// 只有上传者（持有上传时下发的访问令牌）可以访问
+async function canAccessAttachments(c: Context<{ Bindings: Bindings }>, path: string, note: Note | null): Promise<boolean> {
+  if (!note) {
+    return hasNoteAccessCookie(c, path);
+  }
+  
+  return !note.deleted_at && !isExpired(note);
+}
+
+// 附件读取权限，无权时返回错误响应：访问锁定的笔记需要访问令牌或密码（<img>等请求无法携带密码请求头）
+async function rejectAttachmentRead(c: Context<{ Bindings: Bindings }>, note: Note) {
+  if (!note.is_locked || note.lock_type !== 'read' || await hasNoteAccessCookie(c, note.path)) {
+    return null;
+  }
+  
+  return rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'view');
+}
+
+// 附件写入权限，无权时返回错误响应：锁定的笔记需要密码
+async function rejectAttachmentWrite(c: Context<{ Bindings: Bindings }>, note: Note) {
+  return note.is_locked
+    ? rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'edit', 'Password required for editing')
+    : null;
+}
+
+function attachmentUrl(path: string, id: string): string {
+  return `/api/note/${encodeURIComponent(path)}/attachments/${id}`;
+}
+
+// 返回给客户端的笔记：去掉密码哈希，Markdown笔记附带服务器渲染的HTML（已过滤），加密笔记只返回密文
+function withRenderedHtml(note: Note): Note {
+  const { password_hash: _passwordHash, view_password_hash: _viewPasswordHash, ...rest } = note;
+  return rest.format === 'markdown' && !rest.encrypted ? { ...rest, html: renderMarkdown(rest.content) } : rest;
+}
 
 // 获取笔记内容
 api.get('/note/:path', async (c) => {
   const path = c.req.param('path');
   const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
   const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
   
-  if (!validatePath(path, minLength, maxLength)) {
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
     return c.json({ error: 'Invalid path' }, 400);
   }
   
+  // 客户端要求纯文本、Markdown或HTML时返回原始内容
+  c.header('Vary', 'Accept');
+  const rawType = negotiateRawType(c.req.header('Accept'), true);
+  if (rawType) {
+    return rawNoteResponse(c, path, rawType);
+  }
+  
   try {
-    // 先从缓存获取
-    const cached = await c.env.CACHE.get(`note:${path}`);
-    if (cached) {
-      const note = JSON.parse(cached);
+    // 先从缓存获取（通过分享链接打开时需要查询链接，直接读取数据库）
+    const cached = c.req.query('share') ? null : await c.env.CACHE.get(`note:${path}`);
+    const note = cached ? JSON.parse(cached) : null;
+    // 访问锁定的笔记需要检查密码或分享链接，不使用缓存（包括此前写入的缓存）
+    if (note && !(note.is_locked && note.lock_type === 'read')) {
+      if (isExpired(note)) {
+        await purgeNote(c.env.DB, c.env.CACHE, path);
+        return c.json({ exists: false, expired: true });
+      }
       
       // 更新访问计数
       await c.env.DB.prepare(
         'UPDATE notes SET view_count = view_count + 1 WHERE path = ?'
       ).bind(path).run();
       
-      return c.json(note);
+      c.header('ETag', `"${note.version}"`);
+      return c.json(withRenderedHtml(note));
     }
     
     // 从数据库获取
@@ -37,6 +334,43 @@ api.get('/note/:path', async (c) => {
       return c.json({ exists: false });
     }
     
+    // 回收站中的笔记不可查看
+    if (result.deleted_at) {
+      return c.json({ exists: false, trashed: true });
+    }
+    
+    // 已过期的笔记立即清理
+    if (isExpired(result)) {
+      await purgeNote(c.env.DB, c.env.CACHE, path);
+      return c.json({ exists: false, expired: true });
+    }
+    
+    // 通过分享链接打开锁定的笔记，消耗链接的一次使用次数
+    const share = result.is_locked ? await shareAccess(c, result, true) : null;
+    if (share && result.lock_type === 'read') {
+      await setNoteAccessCookie(c, path);
+    }
+    
+    // 限制查看次数的笔记不缓存，每次读取消耗一次次数（访问锁定的在解锁或通过分享链接打开时消耗）
+    if (isViewLimited(result)) {
+      if (result.is_locked && result.lock_type === 'read' && !share) {
+        return c.json({
+          exists: true,
+          is_locked: true,
+          lock_type: 'read',
+          requires_password: true
+        });
+      }
+      
+      const note = await readViewLimitedNote(c.env.DB, c.env.CACHE, result);
+      if (!note) {
+        return c.json({ exists: false, expired: true });
+      }
+      
+      c.header('ETag', `"${note.version}"`);
+      return c.json({ ...withRenderedHtml(note), share_access: share || undefined });
+    }
+    
     // 更新访问计数（异步执行，不阻塞响应）
     c.executionCtx.waitUntil(
       c.env.DB.prepare(
@@ -44,8 +378,18 @@ api.get('/note/:path', async (c) => {
       ).bind(path).run()
     );
     
-    // 缓存策略优化：降低门槛，使用动态TTL
-    if (result.view_count >= 2) { // 降低缓存门槛从10次到2次
+    // 如果是读锁定（且没有有效的分享链接），返回锁定状态
+    if (result.is_locked && result.lock_type === 'read' && !share) {
+      return c.json({
+        exists: true,
+        is_locked: true,
+        lock_type: 'read',
+        requires_password: true
+      });
+    }
+    
+    // 缓存策略优化：降低门槛，使用动态TTL（访问锁定的笔记不缓存）
+    if (result.view_count >= 2 && !(result.is_locked && result.lock_type === 'read')) { // 降低缓存门槛从10次到2次
       // 异步写入缓存，不阻塞响应
       c.executionCtx.waitUntil(
         c.env.CACHE.put(`note:${path}`, JSON.stringify(result), {
@@ -55,163 +399,364 @@ api.get('/note/:path', async (c) => {
       );
     }
     
-    // 如果是读锁定，返回锁定状态
-    if (result.is_locked && result.lock_type === 'read') {
-      return c.json({
-        exists: true,
-        is_locked: true,
-        lock_type: 'read',
-        requires_password: true
-      });
-    }
-    
-    return c.json(result);
+    c.header('ETag', `"${result.version}"`);
+    return c.json({ ...withRenderedHtml(result), share_access: share || undefined });
   } catch (error) {
     console.error('Error fetching note:', error);
     return c.json({ error: 'Database error' }, 500);
   }
 });
 
-// 保存笔记
-api.post('/note/:path', async (c) => {
-  const path = c.req.param('path');
-  const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
-  const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
-  
-  if (!validatePath(path, minLength, maxLength)) {
-    return c.json({ error: 'Invalid path' }, 400);
-  }
-  
-  const body = await c.req.json<SaveNoteRequest>();
-  const content = sanitizeHtml(body.content || '');
-  
-  // 不保存空白笔记
-  if (!content.trim()) {
-    return c.json({ error: 'Content cannot be empty' }, 400);
-  }
-  
+// 保存笔记内容（JSON保存接口和纯文本PUT接口共用），
+// resolve根据已有笔记（新笔记为null）确定保存的内容和格式
+async function saveNoteContent(
+  c: Context<{ Bindings: Bindings }>,
+  path: string,
+  resolve: (existing: Note | null) => { content: string; format: NoteFormat; encrypted?: boolean },
+  options: { password?: string; baseVersion: number | null; expiry: NoteExpiry | null }
+) {
   try {
     // 检查笔记是否存在和是否锁定
     const existing = await c.env.DB.prepare(
       'SELECT * FROM notes WHERE path = ?'
     ).bind(path).first<Note>();
     
+    // 回收站中的笔记在彻底删除前不能重新使用
+    if (existing?.deleted_at) {
+      return c.json({ error: 'Note is in trash' }, 410);
+    }
+    
+    const { content, format, encrypted } = resolve(existing);
+    
+    // 加密与否在创建时确定，之后只能以相同方式保存；加密笔记只接受格式有效的密文
+    if (existing && !!existing.encrypted !== !!encrypted) {
+      return c.json({ error: existing.encrypted ? 'Note is encrypted' : 'Note is not encrypted' }, 400);
+    }
+    if (encrypted && !isEncryptedContent(content)) {
+      return c.json({ error: 'Invalid encrypted content' }, 400);
+    }
+    
+    // 不保存空白笔记
+    if (!content.trim()) {
+      return c.json({ error: 'Content cannot be empty' }, 400);
+    }
+    
+    const revisionLimit = parseInt(c.env.REVISION_LIMIT || '50');
+    let version: number;
+    // 通过验证的锁定笔记返回续期后的会话令牌，编辑期间令牌不会过期
+    let token: string | undefined;
+    
     if (existing) {
-      // 如果有写锁定，验证密码
-      if (existing.is_locked && existing.lock_type === 'write' && existing.password_hash) {
-        if (!body.password) {
-          return c.json({ error: 'Password required for editing' }, 403);
+      // 锁定的笔记（任何锁定类型）需要验证密码或会话令牌。
+      // 通过编辑权限的分享链接保存时不下发会话令牌，撤销链接后随即无法保存
+      const editLocked = existing.is_locked && !!existing.password_hash;
+      if (editLocked && await shareAccess(c, existing, false) !== 'edit') {
+        const rejected = await rejectNoteCredential(c, existing, options.password, 'edit', 'Password required for editing');
+        if (rejected) {
+          return rejected;
         }
         
-        const valid = await verifyPassword(body.password, existing.password_hash);
-        if (!valid) {
-          return c.json({ error: 'Invalid password' }, 403);
-        }
+        token = await issueNoteSessionToken(c, path, existing.password_hash!);
       }
       
-      // 更新笔记
-      await c.env.DB.prepare(
-        'UPDATE notes SET content = ?, updated_at = CURRENT_TIMESTAMP WHERE path = ?'
-      ).bind(content, path).run();
+      // 更新过期设置
+      if (options.expiry) {
+        await setExpiry(c.env.DB, path, options.expiry);
+        await c.env.CACHE.delete(`note:${path}`);
+      }
+      
+      // 内容未变化，无需写入
+      if (existing.content === content) {
+        return c.json({ success: true, version: existing.version, token });
+      }
+      
+      // 基于旧版本的保存视为冲突，返回服务器当前内容
+      if (options.baseVersion !== null && options.baseVersion !== existing.version) {
+        return conflictResponse(c, existing, editLocked);
+      }
+      
+      // 以版本号为条件更新，防止并发保存互相覆盖
+      const result = await c.env.DB.prepare(
+        'UPDATE notes SET content = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE path = ? AND version = ?'
+      ).bind(content, path, existing.version).run();
+      
+      if (!result.meta.changes) {
+        const current = await c.env.DB.prepare(
+          'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+        ).bind(path).first<Note>();
+        return conflictResponse(c, current || existing, editLocked);
+      }
+      
+      version = existing.version + 1;
     } else {
       // 创建新笔记
-      await c.env.DB.prepare(
-        'INSERT INTO notes (path, content) VALUES (?, ?)'
-      ).bind(path, content).run();
+      const result = await c.env.DB.prepare(
+        'INSERT INTO notes (path, path_key, content, format, encrypted) VALUES (?, ?, ?, ?, ?) ON CONFLICT(path) DO NOTHING'
+      ).bind(path, pathKey(path), content, format, encrypted ? 1 : 0).run();
+      
+      // 其他客户端抢先创建了同一路径
+      if (!result.meta.changes) {
+        const current = await c.env.DB.prepare(
+          'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+        ).bind(path).first<Note>();
+        if (current) {
+          return conflictResponse(c, current, false);
+        }
+      }
+      
+      if (options.expiry) {
+        await setExpiry(c.env.DB, path, options.expiry);
+      }
+      
+      version = 1;
+    }
+    
+    // 更新搜索索引和链接
+    await indexNote(c.env.DB, path);
+    await updateNoteLinks(c.env.DB, path);
+    
+    // 记录修订历史（限制查看次数的笔记和加密笔记不保留历史）
+    const viewLimited = options.expiry ? options.expiry.remaining_views !== null : !!existing && isViewLimited(existing);
+    if (!viewLimited && !encrypted) {
+      await recordRevision(c.env.DB, path, content, revisionLimit, existing?.content, format);
     }
     
     // 清除缓存
     await c.env.CACHE.delete(`note:${path}`);
     
-    return c.json({ success: true });
+    // 通知其他正在查看该笔记的客户端
+    c.executionCtx.waitUntil(
+      publishNoteEvent(c.env, path, { type: 'saved', version, client: c.req.header('X-Client-Id') })
+    );
+    
+    c.header('ETag', `"${version}"`);
+    return c.json({ success: true, version, token });
   } catch (error) {
     console.error('Error saving note:', error);
     return c.json({ error: 'Database error' }, 500);
   }
+}
+
+// 保存笔记
+api.post('/note/:path', async (c) => {
+  const path = c.req.param('path');
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  const body = await c.req.json<SaveNoteRequest>();
+  
+  if (body.format !== undefined && !isNoteFormat(body.format)) {
+    return c.json({ error: 'Invalid format' }, 400);
+  }
+  
+  let expiry: NoteExpiry | null = null;
+  if (hasExpiryOptions(body)) {
+    expiry = parseExpiry(body);
+    if (!expiry) {
+      return c.json({ error: 'Invalid expiry options' }, 400);
+    }
+  }
+  
+  // 格式在创建时确定；Markdown笔记保存源文本，渲染时再过滤；加密笔记的密文原样保存
+  return saveNoteContent(c, path, (existing) => {
+    const format = existing ? existing.format : body.format || 'html';
+    if (body.encrypted) {
+      return { content: body.content || '', format, encrypted: true };
+    }
+    return { content: format === 'markdown' ? body.content || '' : sanitizeHtml(body.content || ''), format };
+  }, {
+    password: body.password,
+    baseVersion: parseBaseVersion(body.base_version, c.req.header('If-Match')),
+    expiry
+  });
 });
 
-// 解锁笔记
-api.post('/note/:path/unlock', async (c) => {
+// 追加内容到笔记末尾（JSON请求体，或纯文本请求体配合 X-Note-Password 请求头）。
+// 追加锁定的笔记任何人都可以追加，其他锁定类型需要密码
+api.post('/note/:path/append', async (c) => {
   const path = c.req.param('path');
-  const body = await c.req.json<UnlockRequest>();
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  const body: Partial<AppendRequest> = (c.req.header('Content-Type') || '').includes('application/json')
+    ? await c.req.json<AppendRequest>().catch(() => ({}))
+    : { text: await c.req.text() };
+  const password = body.password ?? readPasswordHeader(c.req.header('X-Note-Password'));
+  
+  if (typeof body.text !== 'string' || !body.text.trim()) {
+    return c.json({ error: 'Content cannot be empty' }, 400);
+  }
+  
+  if (body.format !== undefined && !isNoteFormat(body.format)) {
+    return c.json({ error: 'Invalid format' }, 400);
+  }
   
   try {
-    const note = await c.env.DB.prepare(
+    let existing = await c.env.DB.prepare(
       'SELECT * FROM notes WHERE path = ?'
     ).bind(path).first<Note>();
     
-    if (!note) {
-      return c.json({ error: 'Note not found' }, 404);
+    if (existing?.deleted_at) {
+      return c.json({ error: 'Note is in trash' }, 410);
     }
     
-    if (!note.is_locked || !note.password_hash) {
-      return c.json({ error: 'Note is not locked' }, 400);
+    // 已过期的笔记先清理，追加时重新创建
+    if (existing && isExpired(existing)) {
+      await purgeNote(c.env.DB, c.env.CACHE, path);
+      existing = null;
+    }
+    
+    // 加密笔记只能在浏览器中解密后编辑，服务器无法追加内容
+    if (existing?.encrypted) {
+      return c.json({ error: 'Note is encrypted' }, 400);
+    }
+    
+    if (existing && existing.is_locked && existing.lock_type !== 'append') {
+      const rejected = await rejectNoteCredential(c, existing, password, 'edit', 'Password required for editing');
+      if (rejected) {
+        return rejected;
+      }
+    }
+    
+    const result = await appendToNote(c.env.DB, path, body.text, body.format || 'html');
+    if (!result) {
+      return c.json({ error: 'Database error' }, 500);
     }
     
-    const valid = await verifyPassword(body.password, note.password_hash);
-    if (!valid) {
-      return c.json({ error: 'Invalid password' }, 403);
+    await indexNote(c.env.DB, path);
+    await updateNoteLinks(c.env.DB, path);
+    
+    // 记录修订历史（限制查看次数的笔记不保留历史）
+    if (!existing || !isViewLimited(existing)) {
+      await recordRevision(c.env.DB, path, result.content, parseInt(c.env.REVISION_LIMIT || '50'), existing?.content, result.format);
     }
     
     // 清除缓存
     await c.env.CACHE.delete(`note:${path}`);
     
-    return c.json({
-      success: true,
-      note: note
-    });
+    c.executionCtx.waitUntil(
+      publishNoteEvent(c.env, path, { type: 'saved', version: result.version, client: c.req.header('X-Client-Id') })
+    );
+    
+    c.header('ETag', `"${result.version}"`);
+    return c.json({ success: true, version: result.version });
   } catch (error) {
-    console.error('Error unlocking note:', error);
+    console.error('Error appending to note:', error);
     return c.json({ error: 'Database error' }, 500);
   }
 });
 
-// 锁定笔记
-api.post('/note/:path/lock', async (c) => {
-  const path = c.req.param('path');
-  const body = await c.req.json<LockRequest>();
-  
-  if (!body.password || !body.lock_type) {
-    return c.json({ error: 'Password and lock_type required' }, 400);
-  }
-  
-  if (body.lock_type !== 'read' && body.lock_type !== 'write') {
-    return c.json({ error: 'Invalid lock_type' }, 400);
-  }
-  
+// 以纯文本形式返回笔记内容，访问锁定的笔记通过 X-Note-Password 请求头传递密码
+async function rawNoteResponse(c: Context<{ Bindings: Bindings }>, path: string, type: RawType) {
   try {
-    const note = await c.env.DB.prepare(
-      'SELECT * FROM notes WHERE path = ?'
+    let note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
     ).bind(path).first<Note>();
     
     if (!note) {
       return c.json({ error: 'Note not found' }, 404);
     }
     
-    const passwordHash = await hashPassword(body.password);
+    if (isExpired(note)) {
+      await purgeNote(c.env.DB, c.env.CACHE, path);
+      return c.json({ error: 'Note has expired' }, 410);
+    }
     
-    await c.env.DB.prepare(
-      'UPDATE notes SET is_locked = 1, lock_type = ?, password_hash = ? WHERE path = ?'
-    ).bind(body.lock_type, passwordHash, path).run();
+    if (note.is_locked && note.lock_type === 'read') {
+      const rejected = await rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'view');
+      if (rejected) {
+        return rejected;
+      }
+    }
     
-    // 清除缓存
-    await c.env.CACHE.delete(`note:${path}`);
+    // 限制查看次数的笔记每次读取消耗一次次数
+    if (isViewLimited(note)) {
+      const readable = await readViewLimitedNote(c.env.DB, c.env.CACHE, note);
+      if (!readable) {
+        return c.json({ error: 'Note has expired' }, 410);
+      }
+      note = readable;
+    } else {
+      c.executionCtx.waitUntil(
+        c.env.DB.prepare(
+          'UPDATE notes SET view_count = view_count + 1 WHERE path = ?'
+        ).bind(path).run()
+      );
+    }
     
-    return c.json({ success: true });
+    c.header('ETag', `"${note.version}"`);
+    c.header('Vary', 'Accept');
+    
+    // 加密笔记无法转换格式，总是原样返回密文
+    if (note.encrypted) {
+      c.header('Content-Type', 'application/json; charset=utf-8');
+      return c.body(note.content);
+    }
+    
+    c.header('Content-Type', `${type}; charset=utf-8`);
+    return c.body(renderRaw(note.content, note.format, type));
   } catch (error) {
-    console.error('Error locking note:', error);
+    console.error('Error fetching raw note:', error);
     return c.json({ error: 'Database error' }, 500);
   }
+}
+
+// 获取笔记原始内容（默认纯文本，可通过Accept选择text/markdown或text/html）
+raw.get('/:path{.+}/raw', async (c) => {
+  const path = c.req.param('path');
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  return rawNoteResponse(c, path, negotiateRawType(c.req.header('Accept'), false) ?? 'text/plain');
 });
 
-// 解除锁定
-api.delete('/note/:path/lock', async (c) => {
+// 以纯文本请求体保存笔记，锁定的笔记通过 X-Note-Password 请求头传递密码，
+// 可使用 If-Match 请求头检查版本冲突
+raw.put('/:path{.+}/raw', async (c) => {
   const path = c.req.param('path');
-  const body = await c.req.json<{ password: string }>();
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  const text = await c.req.text();
+  const contentType = c.req.header('Content-Type');
+  
+  return saveNoteContent(c, path, (existing) => parseRawBody(text, contentType, existing?.format ?? null), {
+    password: readPasswordHeader(c.req.header('X-Note-Password')) ?? undefined,
+    baseVersion: parseBaseVersion(undefined, c.req.header('If-Match')),
+    expiry: null
+  });
+});
+
+api.route('/note', raw);
+
+// 解锁笔记
+api.post('/note/:path/unlock', async (c) => {
+  const path = c.req.param('path');
+  const body = await c.req.json<UnlockRequest>();
   
   try {
     const note = await c.env.DB.prepare(
-      'SELECT * FROM notes WHERE path = ?'
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
     ).bind(path).first<Note>();
     
     if (!note) {
@@ -222,48 +767,1098 @@ api.delete('/note/:path/lock', async (c) => {
       return c.json({ error: 'Note is not locked' }, 400);
     }
     
-    // 验证密码
-    const valid = await verifyPassword(body.password, note.password_hash);
-    if (!valid) {
-      return c.json({ error: 'Invalid password' }, 403);
+    const throttled = await rejectThrottledAttempt(c, path);
+    if (throttled) {
+      return throttled;
     }
     
-    // 解除锁定
-    await c.env.DB.prepare(
-      'UPDATE notes SET is_locked = 0, lock_type = NULL, password_hash = NULL WHERE path = ?'
-    ).bind(path).run();
+    const access = await passwordAccess(note, body.password);
+    if (!access) {
+      return rejectInvalidPassword(c, path);
+    }
+    
+    await clearUnlockFailures(c.env.CACHE, clientIp(c));
+    
+    // 会话令牌绑定所用密码的哈希，查看密码签发的令牌不能用于编辑
+    const sessionHash = access === 'edit' ? note.password_hash : note.view_password_hash!;
     
     // 清除缓存
     await c.env.CACHE.delete(`note:${path}`);
     
-    return c.json({ success: true });
-  } catch (error) {
+    if (isExpired(note)) {
+      await purgeNote(c.env.DB, c.env.CACHE, path);
+      return c.json({ error: 'Note has expired' }, 410);
+    }
+    
+    // 访问锁定的笔记下发附件访问令牌
+    if (note.lock_type === 'read') {
+      await setNoteAccessCookie(c, path);
+    }
+    
+    // 访问锁定且限制查看次数的笔记，解锁即读取
+    if (note.lock_type === 'read' && isViewLimited(note)) {
+      const readable = await readViewLimitedNote(c.env.DB, c.env.CACHE, note);
+      if (!readable) {
+        return c.json({ error: 'Note has expired' }, 410);
+      }
+      
+      return c.json({
+        success: true,
+        access,
+        note: withRenderedHtml(readable),
+        token: await issueNoteSessionToken(c, path, sessionHash)
+      });
+    }
+    
+    return c.json({
+      success: true,
+      access,
+      note: withRenderedHtml(note),
+      token: await issueNoteSessionToken(c, path, sessionHash)
+    });
+  } catch (error) {
+    console.error('Error unlocking note:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 锁定请求中的密码。分别设置查看密码和编辑密码时为访问锁定，password_hash保存编辑密码；
+// 只设置查看密码等同于单密码的访问锁定，只设置编辑密码等同于编辑锁定（可指定为追加锁定）
+function resolveLockPasswords(body: LockRequest): { lockType: LockType; password: string; viewPassword: string | null } | null {
+  if (body.view_password && body.edit_password) {
+    return { lockType: 'read', password: body.edit_password, viewPassword: body.view_password };
+  }
+  if (body.view_password) {
+    return { lockType: 'read', password: body.view_password, viewPassword: null };
+  }
+  if (body.edit_password) {
+    return { lockType: body.lock_type === 'append' ? 'append' : 'write', password: body.edit_password, viewPassword: null };
+  }
+  if (body.password && body.lock_type) {
+    return { lockType: body.lock_type, password: body.password, viewPassword: null };
+  }
+  return null;
+}
+
+// 锁定笔记
+api.post('/note/:path/lock', async (c) => {
+  const path = c.req.param('path');
+  const body = await c.req.json<LockRequest>();
+  
+  if (body.lock_type && body.lock_type !== 'read' && body.lock_type !== 'write' && body.lock_type !== 'append') {
+    return c.json({ error: 'Invalid lock_type' }, 400);
+  }
+  
+  const lock = resolveLockPasswords(body);
+  if (!lock) {
+    return c.json({ error: 'Password and lock_type required' }, 400);
+  }
+  
+  if (lock.viewPassword === lock.password) {
+    return c.json({ error: 'View and edit passwords must differ' }, 400);
+  }
+  
+  let expiry: NoteExpiry | null = null;
+  if (hasExpiryOptions(body)) {
+    expiry = parseExpiry(body);
+    if (!expiry) {
+      return c.json({ error: 'Invalid expiry options' }, 400);
+    }
+  }
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    // 修改已有的锁定需要会话令牌或当前的编辑密码
+    if (note.is_locked) {
+      const rejected = await rejectNoteCredential(c, note, lock.password, 'edit', 'Invalid password');
+      if (rejected) {
+        return rejected;
+      }
+    }
+    
+    const passwordHash = await hashPassword(lock.password);
+    const viewPasswordHash = lock.viewPassword ? await hashPassword(lock.viewPassword) : null;
+    
+    await c.env.DB.prepare(
+      'UPDATE notes SET is_locked = 1, lock_type = ?, password_hash = ?, view_password_hash = ? WHERE path = ?'
+    ).bind(lock.lockType, passwordHash, viewPasswordHash, path).run();
+    
+    // 更换密码后此前生成的分享链接失效
+    await deleteShareLinks(c.env.DB, path);
+    
+    if (expiry) {
+      await setExpiry(c.env.DB, path, expiry);
+    }
+    
+    // 清除缓存
+    await c.env.CACHE.delete(`note:${path}`);
+    
+    c.executionCtx.waitUntil(
+      publishNoteEvent(c.env, path, { type: 'locked', lock_type: lock.lockType, client: c.req.header('X-Client-Id') })
+    );
+    
+    return c.json({ success: true, token: await issueNoteSessionToken(c, path, passwordHash) });
+  } catch (error) {
+    console.error('Error locking note:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 解除锁定
+api.delete('/note/:path/lock', async (c) => {
+  const path = c.req.param('path');
+  const body = await c.req.json<{ password: string }>();
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    if (!note.is_locked || !note.password_hash) {
+      return c.json({ error: 'Note is not locked' }, 400);
+    }
+    
+    const rejected = await rejectNoteCredential(c, note, body.password, 'edit', 'Invalid password');
+    if (rejected) {
+      return rejected;
+    }
+    
+    // 解除锁定
+    await c.env.DB.prepare(
+      'UPDATE notes SET is_locked = 0, lock_type = NULL, password_hash = NULL, view_password_hash = NULL WHERE path = ?'
+    ).bind(path).run();
+    await deleteShareLinks(c.env.DB, path);
+    
+    // 清除缓存
+    await c.env.CACHE.delete(`note:${path}`);
+    
+    c.executionCtx.waitUntil(
+      publishNoteEvent(c.env, path, { type: 'unlocked', client: c.req.header('X-Client-Id') })
+    );
+    
+    return c.json({ success: true });
+  } catch (error) {
     console.error('Error removing lock:', error);
     return c.json({ error: 'Database error' }, 500);
   }
 });
 
-// 生成新路径
-api.get('/generate-path', async (c) => {
-  const length = parseInt(c.env.PATH_DEFAULT_LENGTH || '4');
+// 生成分享链接：持有编辑密码可以生成查看或编辑链接，持有查看密码只能生成查看链接。
+// 查看链接只用于访问锁定的笔记
+api.post('/note/:path/shares', async (c) => {
+  const path = c.req.param('path');
+  const body = await c.req.json<ShareRequest>();
   
-  let attempts = 0;
-  let path: string;
+  const options = parseShareOptions(body);
+  if (!options) {
+    return c.json({ error: 'Invalid share options' }, 400);
+  }
   
-  do {
-    path = generateRandomPath(length);
-    const existing = await c.env.DB.prepare(
-      'SELECT 1 FROM notes WHERE path = ?'
-    ).bind(path).first();
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    if (!note.is_locked || !note.password_hash) {
+      return c.json({ error: 'Note is not locked' }, 400);
+    }
+    
+    if (options.access === 'view' && note.lock_type !== 'read') {
+      return c.json({ error: 'View links require a read lock' }, 400);
+    }
+    
+    const rejected = await rejectNoteCredential(c, note, body.password, options.access, 'Invalid password');
+    if (rejected) {
+      return rejected;
+    }
+    
+    const link = await createShareLink(c.env.DB, path, options);
+    if (!link) {
+      return c.json({ error: 'Too many share links' }, 400);
+    }
+    
+    return c.json({ success: true, share: { ...link, url: await shareUrl(c, link) } });
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 获取笔记的分享链接（需要编辑密码或会话令牌）
+api.get('/note/:path/shares', async (c) => {
+  const path = c.req.param('path');
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    if (!note.is_locked || !note.password_hash) {
+      return c.json({ shares: [] });
+    }
+    
+    const rejected = await rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'edit', 'Invalid password');
+    if (rejected) {
+      return rejected;
+    }
+    
+    const links = await listShareLinks(c.env.DB, path);
+    const shares = await Promise.all(links.map(async (link) => ({ ...link, url: await shareUrl(c, link) })));
+    
+    return c.json({ shares });
+  } catch (error) {
+    console.error('Error fetching share links:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 撤销分享链接（需要编辑密码或会话令牌）
+api.delete('/note/:path/shares/:id', async (c) => {
+  const path = c.req.param('path');
+  const id = c.req.param('id');
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    const rejected = await rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'edit', 'Invalid password');
+    if (rejected) {
+      return rejected;
+    }
+    
+    const revoked = await revokeShareLink(c.env.DB, id, path);
+    if (!revoked) {
+      return c.json({ error: 'Share link not found' }, 404);
+    }
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 实时协作WebSocket，转发到该路径对应的Durable Object
+api.get('/note/:path/ws', async (c) => {
+  const path = c.req.param('path');
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  if (c.req.header('Upgrade') !== 'websocket') {
+    return c.json({ error: 'Expected WebSocket upgrade' }, 426);
+  }
+  
+  const url = new URL(c.req.url);
+  url.searchParams.set('path', path);
+  
+  const room = c.env.NOTE_ROOMS.get(c.env.NOTE_ROOMS.idFromName(path));
+  const response = await room.fetch(new Request(url.toString(), c.req.raw));
+  
+  // Durable Object返回的响应头不可修改，重新包装以便中间件追加响应头
+  return new Response(null, { status: response.status, webSocket: response.webSocket });
+});
+
+// 是否可以订阅笔记的变更事件：访问锁定的笔记需要会话令牌或分享链接，
+// EventSource无法携带请求头，令牌通过token查询参数传递
+async function canSubscribeEvents(c: Context<{ Bindings: Bindings }>, note: Note | null): Promise<boolean> {
+  if (!note || !note.is_locked || note.lock_type !== 'read' || !note.password_hash) {
+    return true;
+  }
+  
+  return await verifyNoteToken(c, note, 'view', c.req.query('token')) || !!(await shareAccess(c, note, false));
+}
+
+// 笔记变更事件流（SSE），由该路径对应的Durable Object推送保存和锁定变化
+api.get('/note/:path/events', async (c) => {
+  const path = c.req.param('path');
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!(await canSubscribeEvents(c, note))) {
+      return c.json({ error: 'Password required' }, 403);
+    }
+  } catch (error) {
+    console.error('Error checking note events access:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+  
+  const url = new URL(c.req.url);
+  url.searchParams.set('path', path);
+  
+  const room = c.env.NOTE_ROOMS.get(c.env.NOTE_ROOMS.idFromName(path));
+  const response = await room.fetch(new Request(url.toString(), c.req.raw));
+  
+  return new Response(response.body, { status: response.status, headers: new Headers(response.headers) });
+});
+
+// 获取修订历史列表
+api.get('/note/:path/revisions', async (c) => {
+  const path = c.req.param('path');
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    const rejected = await rejectUnreadableNote(c, note, readPasswordHeader(c.req.header('X-Note-Password')));
+    if (rejected) {
+      return rejected;
+    }
+    
+    const { results } = await c.env.DB.prepare(
+      'SELECT id, created_at, LENGTH(content) AS size FROM note_revisions WHERE path = ? ORDER BY id DESC'
+    ).bind(path).all<{ id: number; created_at: string; size: number }>();
+    
+    return c.json({ revisions: results });
+  } catch (error) {
+    console.error('Error fetching revisions:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 对比两个修订版本（to 可以是 current，表示当前内容）
+api.get('/note/:path/revisions/diff', async (c) => {
+  const path = c.req.param('path');
+  const from = parseInt(c.req.query('from') || '');
+  const to = c.req.query('to') || 'current';
+  
+  if (isNaN(from) || (to !== 'current' && isNaN(parseInt(to)))) {
+    return c.json({ error: 'Invalid revision id' }, 400);
+  }
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    const rejected = await rejectUnreadableNote(c, note, readPasswordHeader(c.req.header('X-Note-Password')));
+    if (rejected) {
+      return rejected;
+    }
     
-    if (!existing) {
-      return c.json({ path });
+    const base = await c.env.DB.prepare(
+      'SELECT * FROM note_revisions WHERE path = ? AND id = ?'
+    ).bind(path, from).first<NoteRevision>();
+    
+    const target = to === 'current'
+      ? { content: note.content, format: note.format }
+      : await c.env.DB.prepare(
+          'SELECT * FROM note_revisions WHERE path = ? AND id = ?'
+        ).bind(path, parseInt(to)).first<NoteRevision>();
+    
+    if (!base || !target) {
+      return c.json({ error: 'Revision not found' }, 404);
     }
     
-    attempts++;
-  } while (attempts < 10);
+    return c.json({
+      from,
+      to,
+      diff: diffLines(noteText(base.content, base.format), noteText(target.content, target.format))
+    });
+  } catch (error) {
+    console.error('Error diffing revisions:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 获取单个修订版本
+api.get('/note/:path/revisions/:id', async (c) => {
+  const path = c.req.param('path');
+  const id = parseInt(c.req.param('id'));
+  
+  if (isNaN(id)) {
+    return c.json({ error: 'Invalid revision id' }, 400);
+  }
   
-  return c.json({ error: 'Could not generate unique path' }, 500);
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    const rejected = await rejectUnreadableNote(c, note, readPasswordHeader(c.req.header('X-Note-Password')));
+    if (rejected) {
+      return rejected;
+    }
+    
+    const revision = await c.env.DB.prepare(
+      'SELECT * FROM note_revisions WHERE path = ? AND id = ?'
+    ).bind(path, id).first<NoteRevision>();
+    
+    if (!revision) {
+      return c.json({ error: 'Revision not found' }, 404);
+    }
+    
+    return c.json(revision);
+  } catch (error) {
+    console.error('Error fetching revision:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 恢复到指定修订版本
+api.post('/note/:path/revisions/:id/restore', async (c) => {
+  const path = c.req.param('path');
+  const id = parseInt(c.req.param('id'));
+  const body = await c.req.json<RestoreRevisionRequest>().catch(() => ({} as RestoreRevisionRequest));
+  
+  if (isNaN(id)) {
+    return c.json({ error: 'Invalid revision id' }, 400);
+  }
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    // 锁定的笔记需要密码才能恢复
+    if (note.is_locked) {
+      const rejected = await rejectNoteCredential(c, note, body.password, 'edit', 'Password required for editing');
+      if (rejected) {
+        return rejected;
+      }
+    }
+    
+    const revision = await c.env.DB.prepare(
+      'SELECT * FROM note_revisions WHERE path = ? AND id = ?'
+    ).bind(path, id).first<NoteRevision>();
+    
+    if (!revision) {
+      return c.json({ error: 'Revision not found' }, 404);
+    }
+    
+    // 旧版本可能是在当前的过滤规则之前保存的
+    const content = revision.format === 'markdown' ? revision.content : sanitizeHtml(revision.content);
+    
+    await c.env.DB.prepare(
+      'UPDATE notes SET content = ?, format = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE path = ?'
+    ).bind(content, revision.format, path).run();
+    
+    await recordRevision(c.env.DB, path, content, parseInt(c.env.REVISION_LIMIT || '50'), note.content, revision.format);
+    await indexNote(c.env.DB, path);
+    await updateNoteLinks(c.env.DB, path);
+    
+    // 清除缓存
+    await c.env.CACHE.delete(`note:${path}`);
+    
+    c.executionCtx.waitUntil(
+      publishNoteEvent(c.env, path, { type: 'saved', version: note.version + 1, client: c.req.header('X-Client-Id') })
+    );
+    
+    return c.json({ success: true, content, format: revision.format, version: note.version + 1 });
+  } catch (error) {
+    console.error('Error restoring revision:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 转换笔记格式（HTML与Markdown互相转换），转换前的内容保留在修订历史中
+api.post('/note/:path/format', async (c) => {
+  const path = c.req.param('path');
+  const body = await c.req.json<FormatRequest>().catch(() => ({} as FormatRequest));
+  
+  if (!isNoteFormat(body.format)) {
+    return c.json({ error: 'Invalid format' }, 400);
+  }
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    if (note.encrypted) {
+      return c.json({ error: 'Note is encrypted' }, 400);
+    }
+    
+    // 锁定的笔记需要密码才能转换
+    if (note.is_locked) {
+      const rejected = await rejectNoteCredential(c, note, body.password, 'edit', 'Password required for editing');
+      if (rejected) {
+        return rejected;
+      }
+    }
+    
+    if (note.format === body.format) {
+      return c.json({ success: true, content: note.content, format: note.format, version: note.version });
+    }
+    
+    const baseVersion = parseBaseVersion(body.base_version, c.req.header('If-Match'));
+    if (baseVersion !== null && baseVersion !== note.version) {
+      return conflictResponse(c, note, true);
+    }
+    
+    const content = body.format === 'markdown' ? htmlToMarkdown(note.content) : renderMarkdown(note.content);
+    
+    const result = await c.env.DB.prepare(
+      'UPDATE notes SET content = ?, format = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE path = ? AND version = ?'
+    ).bind(content, body.format, path, note.version).run();
+    
+    if (!result.meta.changes) {
+      const current = await c.env.DB.prepare(
+        'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+      ).bind(path).first<Note>();
+      return conflictResponse(c, current || note, true);
+    }
+    
+    // 先记录转换前的内容，再记录转换结果（限制查看次数的笔记不保留历史）
+    if (!isViewLimited(note)) {
+      const revisionLimit = parseInt(c.env.REVISION_LIMIT || '50');
+      await recordRevision(c.env.DB, path, note.content, revisionLimit, null, note.format);
+      await recordRevision(c.env.DB, path, content, revisionLimit, null, body.format);
+    }
+    
+    await indexNote(c.env.DB, path);
+    await updateNoteLinks(c.env.DB, path);
+    
+    // 清除缓存
+    await c.env.CACHE.delete(`note:${path}`);
+    
+    const version = note.version + 1;
+    c.executionCtx.waitUntil(
+      publishNoteEvent(c.env, path, { type: 'saved', version, client: c.req.header('X-Client-Id') })
+    );
+    
+    c.header('ETag', `"${version}"`);
+    return c.json({ success: true, content, format: body.format, version });
+  } catch (error) {
+    console.error('Error converting note format:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 重命名笔记（移动到新路径），锁定的笔记需要密码；默认保留旧路径作为重定向别名
+api.post('/note/:path/rename', async (c) => {
+  const path = c.req.param('path');
+  const body = await c.req.json<RenameRequest>().catch(() => ({} as RenameRequest));
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
+  
+  if (typeof body.new_path !== 'string' || !validatePath(body.new_path, minLength, maxLength, maxDepth) || body.new_path === path) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    // 锁定的笔记需要密码才能重命名
+    if (note.is_locked) {
+      const rejected = await rejectNoteCredential(c, note, body.password, 'edit', 'Password required for editing');
+      if (rejected) {
+        return rejected;
+      }
+    }
+    
+    const result = await renameNote(c.env.DB, c.env.CACHE, path, body.new_path, body.keep_alias !== false, c.env.PATH_CASE_POLICY === 'insensitive');
+    if (result === 'exists') {
+      return c.json({ error: 'Path already exists' }, 409);
+    }
+    if (result === 'not_found') {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    // 通知正在查看旧路径的客户端
+    c.executionCtx.waitUntil(
+      publishNoteEvent(c.env, path, { type: 'renamed', path: body.new_path, client: c.req.header('X-Client-Id') })
+    );
+    
+    return c.json({ success: true, path: body.new_path });
+  } catch (error) {
+    console.error('Error renaming note:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 标签读取权限，无权时返回错误响应：访问锁定的笔记需要密码，以免未解锁的访问者得知其标签
+async function rejectTagRead(c: Context<{ Bindings: Bindings }>, note: Note) {
+  return note.is_locked && note.lock_type === 'read'
+    ? rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'view')
+    : null;
+}
+
+// 标签修改权限，无权时返回错误响应：锁定的笔记需要密码
+async function rejectTagEdit(c: Context<{ Bindings: Bindings }>, note: Note) {
+  return note.is_locked
+    ? rejectNoteCredential(c, note, readPasswordHeader(c.req.header('X-Note-Password')), 'edit', 'Password required for editing')
+    : null;
+}
+
+// 获取笔记的标签
+api.get('/note/:path/tags', async (c) => {
+  const path = c.req.param('path');
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note || isExpired(note)) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    const rejected = await rejectTagRead(c, note);
+    if (rejected) {
+      return rejected;
+    }
+    
+    return c.json({ tags: await getNoteTags(c.env.DB, path) });
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 给笔记添加标签
+api.post('/note/:path/tags', async (c) => {
+  const path = c.req.param('path');
+  const body = await c.req.json<TagRequest>().catch(() => ({} as TagRequest));
+  const tag = typeof body.tag === 'string' ? normalizeTag(body.tag) : null;
+  
+  if (!tag) {
+    return c.json({ error: 'Invalid tag' }, 400);
+  }
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note || isExpired(note)) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    const rejected = await rejectTagEdit(c, note);
+    if (rejected) {
+      return rejected;
+    }
+    
+    if (!(await addNoteTag(c.env.DB, path, tag))) {
+      return c.json({ error: 'Too many tags' }, 400);
+    }
+    
+    return c.json({ tags: await getNoteTags(c.env.DB, path) });
+  } catch (error) {
+    console.error('Error adding tag:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 移除笔记的标签
+api.delete('/note/:path/tags/:tag', async (c) => {
+  const path = c.req.param('path');
+  const tag = normalizeTag(c.req.param('tag'));
+  
+  if (!tag) {
+    return c.json({ error: 'Invalid tag' }, 400);
+  }
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ? AND deleted_at IS NULL'
+    ).bind(path).first<Note>();
+    
+    if (!note || isExpired(note)) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    const rejected = await rejectTagEdit(c, note);
+    if (rejected) {
+      return rejected;
+    }
+    
+    await removeNoteTag(c.env.DB, path, tag);
+    
+    return c.json({ tags: await getNoteTags(c.env.DB, path) });
+  } catch (error) {
+    console.error('Error removing tag:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 渲染Markdown预览（与服务器渲染笔记使用相同的规则和过滤）
+api.post('/markdown', async (c) => {
+  const body = await c.req.json<{ content?: string }>().catch(() => ({ content: undefined }));
+  
+  if (typeof body.content !== 'string') {
+    return c.json({ error: 'Content required' }, 400);
+  }
+  
+  return c.json({ html: renderMarkdown(body.content) });
+});
+
+// 上传附件（multipart/form-data，字段名 file）
+api.post('/note/:path/attachments', async (c) => {
+  const path = c.req.param('path');
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
+  const maxSize = parseInt(c.env.ATTACHMENT_MAX_SIZE || '10485760');
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ?'
+    ).bind(path).first<Note>();
+    
+    // 尚未创建的路径任何人都可以上传，其他情况按笔记的锁定状态检查
+    if (note && !(await canAccessAttachments(c, path, note))) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    const rejected = note && await rejectAttachmentWrite(c, note);
+    if (rejected) {
+      return rejected;
+    }
+    
+    // 附件以明文保存，加密笔记不能上传附件
+    if (note?.encrypted) {
+      return c.json({ error: 'Note is encrypted' }, 400);
+    }
+    
+    const body = await c.req.parseBody();
+    const file = body['file'];
+    
+    if (!(file instanceof File)) {
+      return c.json({ error: 'File required' }, 400);
+    }
+    
+    if (file.size > maxSize) {
+      return c.json({ error: 'File too large' }, 413);
+    }
+    
+    const id = generateAttachmentId();
+    const filename = (file.name || 'file').slice(0, 255);
+    const contentType = file.type || 'application/octet-stream';
+    
+    await c.env.STORAGE.put(attachmentKey(id), await file.arrayBuffer(), {
+      httpMetadata: { contentType }
+    });
+    
+    await c.env.DB.prepare(
+      'INSERT INTO attachments (id, path, filename, content_type, size) VALUES (?, ?, ?, ?, ?)'
+    ).bind(id, path, filename, contentType, file.size).run();
+    
+    // 上传到尚未创建的笔记时下发访问令牌，保存笔记前上传者即可查看和删除附件
+    if (!note) {
+      await setNoteAccessCookie(c, path);
+    }
+    
+    return c.json({
+      id,
+      filename,
+      content_type: contentType,
+      size: file.size,
+      url: attachmentUrl(path, id)
+    }, 201);
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    return c.json({ error: 'Upload failed' }, 500);
+  }
+});
+
+// 获取附件列表
+api.get('/note/:path/attachments', async (c) => {
+  const path = c.req.param('path');
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ?'
+    ).bind(path).first<Note>();
+    
+    if (!(await canAccessAttachments(c, path, note))) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    const rejected = note && await rejectAttachmentRead(c, note);
+    if (rejected) {
+      return rejected;
+    }
+    
+    const { results } = await c.env.DB.prepare(
+      'SELECT * FROM attachments WHERE path = ? ORDER BY created_at DESC'
+    ).bind(path).all<Attachment>();
+    
+    return c.json({
+      attachments: results.map((attachment) => ({
+        ...attachment,
+        url: attachmentUrl(path, attachment.id)
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching attachments:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 下载附件（仅常见图片类型内联显示，其余按下载处理）
+api.get('/note/:path/attachments/:id', async (c) => {
+  const path = c.req.param('path');
+  const id = c.req.param('id');
+  
+  try {
+    const attachment = await c.env.DB.prepare(
+      'SELECT * FROM attachments WHERE path = ? AND id = ?'
+    ).bind(path, id).first<Attachment>();
+    
+    if (!attachment) {
+      return c.json({ error: 'Attachment not found' }, 404);
+    }
+    
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ?'
+    ).bind(path).first<Note>();
+    
+    if (!(await canAccessAttachments(c, path, note))) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    const rejected = note && await rejectAttachmentRead(c, note);
+    if (rejected) {
+      return rejected;
+    }
+    
+    const object = await c.env.STORAGE.get(attachmentKey(id));
+    if (!object) {
+      return c.json({ error: 'Attachment not found' }, 404);
+    }
+    
+    const inline = isInlineType(attachment.content_type);
+    return c.body(object.body, 200, {
+      'Content-Type': inline ? attachment.content_type : 'application/octet-stream',
+      'Content-Length': String(attachment.size),
+      'Content-Disposition': contentDisposition(attachment.filename, inline),
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, max-age=3600'
+    });
+  } catch (error) {
+    console.error('Error fetching attachment:', error);
+    return c.json({ error: 'Storage error' }, 500);
+  }
+});
+
+// 删除附件
+api.delete('/note/:path/attachments/:id', async (c) => {
+  const path = c.req.param('path');
+  const id = c.req.param('id');
+  
+  try {
+    const note = await c.env.DB.prepare(
+      'SELECT * FROM notes WHERE path = ?'
+    ).bind(path).first<Note>();
+    
+    if (!(await canAccessAttachments(c, path, note))) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+    
+    const rejected = note && await rejectAttachmentWrite(c, note);
+    if (rejected) {
+      return rejected;
+    }
+    
+    const result = await c.env.DB.prepare(
+      'DELETE FROM attachments WHERE path = ? AND id = ?'
+    ).bind(path, id).run();
+    
+    if (!result.meta.changes) {
+      return c.json({ error: 'Attachment not found' }, 404);
+    }
+    
+    await c.env.STORAGE.delete(attachmentKey(id));
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 列出文件夹（路径前缀）下的子笔记和子文件夹，多级前缀编码为一段
+api.get('/folder/:prefix', async (c) => {
+  const prefix = c.req.param('prefix');
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
+  
+  if (!validatePath(prefix, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  try {
+    return c.json(await listFolder(c.env.DB, prefix, c.env.PATH_CASE_POLICY === 'insensitive'));
+  } catch (error) {
+    console.error('Error listing folder:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 获取可用的笔记模板
+api.get('/templates', async (c) => {
+  try {
+    const templates = await listTemplates(c.env.DB);
+    
+    return c.json({
+      templates: templates.map(({ name, description, format }) => ({ name, description, format }))
+    });
+  } catch (error) {
+    console.error('Error fetching templates:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 获取替换占位符后的模板内容，path为新笔记路径，tz为浏览器时区
+api.get('/templates/:name', async (c) => {
+  const name = c.req.param('name');
+  const path = c.req.query('path') || '';
+  const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
+  const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
+    return c.json({ error: 'Invalid path' }, 400);
+  }
+  
+  try {
+    const template = await getTemplate(c.env.DB, name);
+    if (!template) {
+      return c.json({ error: 'Template not found' }, 404);
+    }
+    
+    return c.json({
+      name: template.name,
+      format: template.format,
+      content: renderTemplate(template.content, path, new Date(), c.req.query('tz'))
+    });
+  } catch (error) {
+    console.error('Error rendering template:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 获取链接到笔记的其他笔记，笔记尚未创建时也可查看
+api.get('/note/:path/backlinks', async (c) => {
+  const path = c.req.param('path');
+  
+  try {
+    return c.json({ backlinks: await getBacklinks(c.env.DB, path, c.env.PATH_CASE_POLICY === 'insensitive') });
+  } catch (error) {
+    console.error('Error fetching backlinks:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 获取所有标签及其笔记数量（不包括访问锁定的笔记）
+api.get('/tags', async (c) => {
+  try {
+    return c.json({ tags: await listTags(c.env.DB, false) });
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 列出带有某个标签的笔记（不包括访问锁定的笔记）
+api.get('/tags/:tag', async (c) => {
+  const tag = normalizeTag(c.req.param('tag'));
+  
+  if (!tag) {
+    return c.json({ error: 'Invalid tag' }, 400);
+  }
+  
+  try {
+    return c.json({ tag, notes: await listNotesByTag(c.env.DB, tag, false) });
+  } catch (error) {
+    console.error('Error listing notes by tag:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
+});
+
+// 生成新路径
+api.get('/generate-path', async (c) => {
+  try {
+    const path = await generateUniquePath(c.env.DB, {
+      strategy: parsePathStrategy(c.env.PATH_STRATEGY),
+      alphabet: parsePathAlphabet(c.env.PATH_ALPHABET),
+      length: parseInt(c.env.PATH_DEFAULT_LENGTH || '4'),
+      minLength: parseInt(c.env.PATH_MIN_LENGTH || '1'),
+      maxLength: parseInt(c.env.PATH_MAX_LENGTH || '4')
+    }, c.env.PATH_CASE_POLICY === 'insensitive');
+    
+    if (!path) {
+      return c.json({ error: 'Could not generate unique path' }, 500);
+    }
+    
+    return c.json({ path });
+  } catch (error) {
+    console.error('Error generating path:', error);
+    return c.json({ error: 'Database error' }, 500);
+  }
 });
 
-export { api as apiRoutes };
+export { api as apiRoutes, raw as rawRoutes };
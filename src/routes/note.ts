@@ -1,46 +1,53 @@
 import { Hono } from 'hono';
-import type { Bindings } from '../types';
+import type { Bindings, FolderListing } from '../types';
 import { QUILL_SNOW_CSS } from '../vendor/quillSnowCss';
+import { resolveCanonicalPath } from '../utils/rename';
+import { listFolder } from '../utils/folders';
+import { generateUniquePath, parsePathStrategy, parsePathAlphabet } from '../utils/pathgen';
+import { getTemplate } from '../utils/templates';
+import { issueCsrfToken } from '../middleware/csrf';
 
 const notes = new Hono<{ Bindings: Bindings }>();
 
 // 处理根路径 - 自动重定向到空白笔记或生成新路径
 notes.get('/', async (c) => {
   try {
-    // 查找第一个空白笔记
-    const emptyNote = await c.env.DB.prepare(
-      `SELECT path FROM notes 
-       WHERE content = '' OR content IS NULL 
-       ORDER BY created_at DESC 
-       LIMIT 1`
-    ).first<{ path: string }>();
+    // 从模板新建笔记（/?template=名称）时总是生成新路径，由编辑器填入模板内容
+    const templateName = c.req.query('template');
     
-    if (emptyNote) {
-      return c.redirect(`/${emptyNote.path}`);
+    if (templateName) {
+      if (!await getTemplate(c.env.DB, templateName)) {
+        return c.text('Template not found', 404);
+      }
+    } else {
+      // 查找第一个空白笔记
+      const emptyNote = await c.env.DB.prepare(
+        `SELECT path FROM notes 
+         WHERE (content = '' OR content IS NULL) AND deleted_at IS NULL 
+         ORDER BY created_at DESC 
+         LIMIT 1`
+      ).first<{ path: string }>();
+      
+      if (emptyNote) {
+        return c.redirect(encodeURI(`/${emptyNote.path}`));
+      }
     }
     
     // 生成新路径
-    const length = parseInt(c.env.PATH_DEFAULT_LENGTH || '4');
-    
-    const { generateRandomPath } = await import('../utils/crypto');
+    const newPath = await generateUniquePath(c.env.DB, {
+      strategy: parsePathStrategy(c.env.PATH_STRATEGY),
+      alphabet: parsePathAlphabet(c.env.PATH_ALPHABET),
+      length: parseInt(c.env.PATH_DEFAULT_LENGTH || '4'),
+      minLength: parseInt(c.env.PATH_MIN_LENGTH || '1'),
+      maxLength: parseInt(c.env.PATH_MAX_LENGTH || '4')
+    }, c.env.PATH_CASE_POLICY === 'insensitive');
     
-    let attempts = 0;
-    let newPath: string;
-    
-    do {
-      newPath = generateRandomPath(length);
-      const existing = await c.env.DB.prepare(
-        'SELECT 1 FROM notes WHERE path = ?'
-      ).bind(newPath).first();
-      
-      if (!existing) {
-        return c.redirect(`/${newPath}`);
-      }
-      
-      attempts++;
-    } while (attempts < 10);
+    if (!newPath) {
+      return c.text('Could not generate unique path', 500);
+    }
     
-    return c.text('Could not generate unique path', 500);
+    const query = templateName ? `?template=${encodeURIComponent(templateName)}` : '';
+    return c.redirect(encodeURI(`/${newPath}`) + query);
   } catch (error) {
     console.error('Error handling root path:', error);
     return c.text('Internal Server Error', 500);
@@ -48,27 +55,178 @@ notes.get('/', async (c) => {
 });
 
 // 处理笔记路径 - 显示编辑器界面
-notes.get('/:path', async (c) => {
+notes.get('/:path{.+}', async (c) => {
   const path = c.req.param('path');
   
   // 检查是否是保留路径
-  if (path === 'admin' || path === 'api' || path === 'static') {
+  const first = path.split('/')[0];
+  if (first === 'admin' || first === 'api' || first === 'static') {
     return c.notFound();
   }
   
+  // 未经NFC规范化的路径（如macOS输入的分解形式）跳转到规范形式
+  const normalized = path.normalize('NFC');
+  if (normalized !== path) {
+    return c.redirect(encodeURI(`/${normalized}`), 301);
+  }
+  
   const minLength = parseInt(c.env.PATH_MIN_LENGTH || '1');
   const maxLength = parseInt(c.env.PATH_MAX_LENGTH || '4');
+  const maxDepth = parseInt(c.env.PATH_MAX_DEPTH || '5');
   
   const { validatePath } = await import('../utils/crypto');
   
-  if (!validatePath(path, minLength, maxLength)) {
+  // 以 / 结尾的路径显示文件夹索引
+  if (path.endsWith('/')) {
+    const prefix = path.slice(0, -1);
+    if (!validatePath(prefix, minLength, maxLength, maxDepth)) {
+      return c.text('Invalid path', 400);
+    }
+    
+    const listing = await listFolder(c.env.DB, prefix, c.env.PATH_CASE_POLICY === 'insensitive');
+    return c.html(getFolderIndexHTML(listing));
+  }
+  
+  if (!validatePath(path, minLength, maxLength, maxDepth)) {
     return c.text('Invalid path', 400);
   }
   
-  return c.html(getNoteEditorHTML(path));
+  // 已改名笔记的旧路径、不区分大小写时大小写不同的路径跳转到规范路径
+  const target = await resolveCanonicalPath(c.env.DB, path, c.env.PATH_CASE_POLICY === 'insensitive');
+  if (target) {
+    return c.redirect(encodeURI(`/${target}`), 301);
+  }
+  
+  return c.html(getNoteEditorHTML(path, await issueCsrfToken(c)));
 });
 
-function getNoteEditorHTML(path: string): string {
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// 路径中每一级文件夹链接到对应的文件夹索引，如 team/oncall/2026-10
+function getPathBreadcrumbs(path: string): string {
+  const segments = path.split('/');
+  
+  return segments
+    .map((segment, index) => index === segments.length - 1
+      ? escapeHtml(segment)
+      : `<a href="/${escapeHtml(segments.slice(0, index + 1).join('/'))}/">${escapeHtml(segment)}</a>`)
+    .join('/');
+}
+
+function getFolderIndexHTML(listing: FolderListing): string {
+  const folders = listing.folders.map((folder) => `
+      <li>
+        <a href="/${escapeHtml(folder.path)}/">📁 ${escapeHtml(folder.name)}/</a>
+        <span class="meta">${folder.count} 篇笔记</span>
+      </li>`).join('');
+  
+  const notes = listing.notes.map((note) => `
+      <li>
+        <a href="/${escapeHtml(note.path)}">${note.encrypted ? '🔐' : note.is_locked ? '🔒' : '📄'} ${escapeHtml(note.name)}</a>
+        <span class="meta">${escapeHtml(note.updated_at)}</span>
+        ${note.excerpt ? `<p class="excerpt">${escapeHtml(note.excerpt)}</p>` : ''}
+      </li>`).join('');
+  
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(listing.prefix)}/ - CloudNote</title>
+  <style>
+    :root {
+      --primary-color: #2563eb;
+      --bg-color: #ffffff;
+      --bg-secondary: #f8fafc;
+      --text-primary: #1f2937;
+      --text-secondary: #6b7280;
+      --border-color: #e5e7eb;
+      --border-radius: 8px;
+      --font-family-sans: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      --font-family-mono: 'SFMono-Regular', Consolas, 'Liberation Mono', Menlo, Courier, monospace;
+    }
+    
+    body {
+      margin: 0;
+      font-family: var(--font-family-sans);
+      color: var(--text-primary);
+      background: var(--bg-secondary);
+    }
+    
+    .container {
+      max-width: 800px;
+      margin: 0 auto;
+      padding: 2rem 1rem;
+    }
+    
+    h1 {
+      font-family: var(--font-family-mono);
+      font-size: 20px;
+      font-weight: 500;
+    }
+    
+    a {
+      color: var(--primary-color);
+      text-decoration: none;
+    }
+    
+    ul {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      background: var(--bg-color);
+      border: 1px solid var(--border-color);
+      border-radius: var(--border-radius);
+    }
+    
+    li {
+      padding: 0.75rem 1rem;
+      border-bottom: 1px solid var(--border-color);
+    }
+    
+    li:last-child {
+      border-bottom: none;
+    }
+    
+    .meta {
+      float: right;
+      font-size: 13px;
+      color: var(--text-secondary);
+    }
+    
+    .excerpt {
+      margin: 0.25rem 0 0;
+      font-size: 14px;
+      color: var(--text-secondary);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    
+    .empty {
+      color: var(--text-secondary);
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1><a href="/">CloudNote</a> /${getPathBreadcrumbs(listing.prefix + '/')}</h1>
+    ${folders || notes
+      ? `<ul>${folders}${notes}
+    </ul>`
+      : '<p class="empty">此文件夹下还没有笔记</p>'}
+  </div>
+</body>
+</html>`;
+}
+
+function getNoteEditorHTML(path: string, csrfToken: string): string {
   return `<!DOCTYPE html>
 <html lang="zh-CN">
 <head>
@@ -178,6 +336,15 @@ function getNoteEditorHTML(path: string): string {
       color: var(--primary-color);
     }
     
+    .path-info a {
+      color: inherit;
+      text-decoration: none;
+    }
+    
+    .path-info a:hover {
+      color: var(--primary-color);
+    }
+    
     .path-info {
       display: flex;
       align-items: center;
@@ -190,6 +357,60 @@ function getNoteEditorHTML(path: string): string {
       color: var(--text-secondary);
     }
     
+    /* 标签编辑器 */
+    .tag-editor {
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: var(--spacing-xs);
+    }
+    
+    .tag-list {
+      display: flex;
+      flex-wrap: wrap;
+      gap: var(--spacing-xs);
+    }
+    
+    .tag-chip {
+      display: inline-flex;
+      align-items: center;
+      gap: 2px;
+      padding: 2px var(--spacing-sm);
+      background: var(--bg-secondary);
+      border-radius: 10px;
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+    
+    .tag-remove {
+      border: none;
+      background: none;
+      padding: 0 2px;
+      cursor: pointer;
+      color: var(--text-muted);
+      font-size: 12px;
+    }
+    
+    .tag-remove:hover {
+      color: var(--error-color);
+    }
+    
+    .tag-input {
+      width: 72px;
+      padding: 2px var(--spacing-xs);
+      border: 1px solid transparent;
+      border-radius: var(--border-radius);
+      background: transparent;
+      font-size: 12px;
+      color: var(--text-primary);
+    }
+    
+    .tag-input:focus {
+      outline: none;
+      border-color: var(--border-color);
+      background: var(--bg-color);
+    }
+    
     /* 状态栏 */
     .status-bar {
       display: flex;
@@ -292,6 +513,80 @@ function getNoteEditorHTML(path: string): string {
       background: #fef3c7;
     }
     
+    /* 追加锁定笔记的追加输入区 */
+    .append-bar {
+      display: none;
+      gap: var(--spacing-sm);
+      align-items: flex-end;
+      margin-top: var(--spacing-md);
+    }
+    
+    .append-bar.show {
+      display: flex;
+    }
+    
+    .append-bar textarea {
+      flex: 1;
+      min-height: 64px;
+      padding: var(--spacing-sm);
+      border: 1px solid var(--border-color);
+      border-radius: var(--border-radius);
+      font-family: inherit;
+      font-size: 14px;
+      resize: vertical;
+    }
+    
+    /* 反向链接面板 */
+    .backlinks-panel {
+      margin-top: var(--spacing-md);
+      padding-top: var(--spacing-sm);
+      border-top: 1px solid var(--border-color);
+      font-size: 13px;
+      flex-shrink: 0;
+    }
+    
+    .backlinks-title {
+      margin-bottom: var(--spacing-xs);
+      color: var(--text-secondary);
+      font-weight: 500;
+    }
+    
+    .backlinks-list {
+      display: flex;
+      flex-wrap: wrap;
+      gap: var(--spacing-xs) var(--spacing-md);
+    }
+    
+    .backlinks-list a {
+      color: var(--primary-color);
+      font-family: var(--font-family-mono);
+      text-decoration: none;
+    }
+    
+    .backlinks-list a:hover {
+      text-decoration: underline;
+    }
+    
+    /* 笔记在其他地方更新的提示条 */
+    .update-notice {
+      background: linear-gradient(135deg, #dbeafe 0%, #bfdbfe 100%);
+      border-color: #3b82f6;
+      color: #1e40af;
+    }
+    
+    .update-notice button {
+      border-color: #3b82f6;
+      color: #1e40af;
+    }
+    
+    .update-notice button + button {
+      margin-left: 0;
+    }
+    
+    .update-notice button:hover {
+      background: #dbeafe;
+    }
+    
     /* Quill编辑器容器 */
     #editor {
       flex: 1;
@@ -380,6 +675,74 @@ function getNoteEditorHTML(path: string): string {
       font-style: normal;
     }
     
+    /* Markdown编辑器 */
+    .markdown-editor {
+      display: none;
+      flex: 1;
+      grid-template-columns: 1fr 1fr;
+      gap: var(--spacing-md);
+      min-height: 400px;
+    }
+    
+    .editor-container.markdown-mode .markdown-editor {
+      display: grid;
+    }
+    
+    .editor-container.markdown-mode .ql-toolbar,
+    .editor-container.markdown-mode .ql-container {
+      display: none;
+    }
+    
+    .markdown-editor.readonly {
+      grid-template-columns: 1fr;
+    }
+    
+    .markdown-editor.readonly textarea {
+      display: none;
+    }
+    
+    .markdown-editor textarea {
+      width: 100%;
+      padding: var(--spacing-lg);
+      border: 1px solid var(--border-color);
+      border-radius: var(--border-radius);
+      background: var(--bg-color);
+      color: inherit;
+      font-family: 'SF Mono', Monaco, Consolas, monospace;
+      font-size: 14px;
+      line-height: 1.6;
+      resize: none;
+      outline: none;
+    }
+    
+    .markdown-editor textarea:focus {
+      border-color: var(--primary-color);
+    }
+    
+    .markdown-preview {
+      border: 1px solid var(--border-color);
+      border-radius: var(--border-radius);
+      font-size: 16px;
+      line-height: 1.6;
+      overflow-y: auto;
+      white-space: normal;
+    }
+    
+    .markdown-preview table {
+      border-collapse: collapse;
+      margin: var(--spacing-sm) 0;
+    }
+    
+    .markdown-preview th,
+    .markdown-preview td {
+      border: 1px solid var(--border-color);
+      padding: 4px 8px;
+    }
+    
+    .markdown-preview img {
+      max-width: 100%;
+    }
+    
     /* 按钮样式 */
     .btn {
       display: inline-flex;
@@ -543,40 +906,206 @@ function getNoteEditorHTML(path: string): string {
       justify-content: flex-end;
     }
     
-    /* 消息提示 */
-    .message {
-      position: fixed;
-      top: var(--spacing-lg);
-      right: var(--spacing-lg);
-      background: var(--success-color);
-      color: white;
-      padding: var(--spacing-md);
-      border-radius: var(--border-radius);
-      box-shadow: var(--shadow-md);
+    /* 修订历史 */
+    .modal-content.modal-wide {
+      max-width: 760px;
+    }
+    
+    .history-layout {
       display: flex;
-      align-items: center;
-      gap: var(--spacing-sm);
-      z-index: 1500;
-      max-width: 300px;
-      animation: slideIn 0.3s ease;
+      gap: var(--spacing-md);
+      min-height: 320px;
     }
     
-    .message.error {
-      background: var(--error-color);
+    .history-list {
+      width: 200px;
+      flex-shrink: 0;
+      max-height: 400px;
+      overflow-y: auto;
+      border: 1px solid var(--border-color);
+      border-radius: var(--border-radius);
     }
     
-    .message.warning {
-      background: var(--warning-color);
+    .history-item {
+      padding: var(--spacing-sm) var(--spacing-md);
+      border-bottom: 1px solid var(--border-color);
+      cursor: pointer;
+      font-size: 13px;
     }
     
-    @keyframes slideIn {
-      from {
-        transform: translateX(100%);
-        opacity: 0;
-      }
-      to {
-        transform: translateX(0);
-        opacity: 1;
+    .history-item:hover {
+      background: var(--bg-secondary);
+    }
+    
+    .history-item.active {
+      background: rgba(37, 99, 235, 0.1);
+      color: var(--primary-color);
+    }
+    
+    .history-item-meta {
+      font-size: 11px;
+      color: var(--text-muted);
+    }
+    
+    .history-preview {
+      flex: 1;
+      max-height: 400px;
+      overflow-y: auto;
+      padding: var(--spacing-sm);
+      border: 1px solid var(--border-color);
+      border-radius: var(--border-radius);
+      font-family: var(--font-family-mono);
+      font-size: 12px;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+    
+    .diff-line.add {
+      background: #dcfce7;
+      color: #166534;
+    }
+    
+    .diff-line.remove {
+      background: #fee2e2;
+      color: #991b1b;
+      text-decoration: line-through;
+    }
+    
+    .history-empty {
+      padding: var(--spacing-md);
+      color: var(--text-muted);
+      text-align: center;
+    }
+    
+    .template-list {
+      max-height: 320px;
+      overflow-y: auto;
+      margin-bottom: var(--spacing-md);
+      border: 1px solid var(--border-color);
+      border-radius: var(--border-radius);
+    }
+    
+    /* 分享链接 */
+    .share-list {
+      max-height: 240px;
+      overflow-y: auto;
+      margin-bottom: var(--spacing-md);
+      border: 1px solid var(--border-color);
+      border-radius: var(--border-radius);
+    }
+    
+    .share-item {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-sm) var(--spacing-md);
+      border-bottom: 1px solid var(--border-color);
+      font-size: 13px;
+    }
+    
+    .share-item-info {
+      flex: 1;
+      min-width: 0;
+    }
+    
+    /* 实时协作 */
+    .presence-list {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+    
+    .presence-user {
+      width: 24px;
+      height: 24px;
+      border-radius: 50%;
+      color: white;
+      font-size: 11px;
+      font-weight: 600;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      border: 2px solid var(--bg-color);
+    }
+    
+    .presence-user.self {
+      box-shadow: 0 0 0 2px var(--primary-color);
+    }
+    
+    .collab-cursors {
+      position: absolute;
+      top: 0;
+      left: 0;
+      pointer-events: none;
+      z-index: 5;
+    }
+    
+    .collab-cursor {
+      position: absolute;
+      width: 2px;
+    }
+    
+    .collab-cursor-label {
+      position: absolute;
+      top: -16px;
+      left: 0;
+      padding: 0 4px;
+      border-radius: 3px;
+      color: white;
+      font-size: 10px;
+      line-height: 16px;
+      white-space: nowrap;
+    }
+    
+    /* 保存冲突 */
+    .conflict-layout {
+      display: flex;
+      gap: var(--spacing-md);
+    }
+    
+    .conflict-pane {
+      flex: 1;
+      min-width: 0;
+    }
+    
+    .conflict-pane .history-preview {
+      height: 280px;
+    }
+    
+    /* 消息提示 */
+    .message {
+      position: fixed;
+      top: var(--spacing-lg);
+      right: var(--spacing-lg);
+      background: var(--success-color);
+      color: white;
+      padding: var(--spacing-md);
+      border-radius: var(--border-radius);
+      box-shadow: var(--shadow-md);
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      z-index: 1500;
+      max-width: 300px;
+      animation: slideIn 0.3s ease;
+    }
+    
+    .message.error {
+      background: var(--error-color);
+    }
+    
+    .message.warning {
+      background: var(--warning-color);
+    }
+    
+    @keyframes slideIn {
+      from {
+        transform: translateX(100%);
+        opacity: 0;
+      }
+      to {
+        transform: translateX(0);
+        opacity: 1;
       }
     }
     
@@ -614,6 +1143,10 @@ function getNoteEditorHTML(path: string): string {
         padding: 2px var(--spacing-xs);
       }
       
+      .tag-editor {
+        display: none !important;
+      }
+      
       .btn {
         padding: var(--spacing-sm);
         font-size: 13px;
@@ -644,6 +1177,11 @@ function getNoteEditorHTML(path: string): string {
         padding: var(--spacing-md);
       }
       
+      .markdown-editor {
+        grid-template-columns: 1fr;
+        grid-auto-rows: minmax(300px, auto);
+      }
+      
       .ql-toolbar {
         overflow-x: auto;
         overflow-y: visible !important;
@@ -757,6 +1295,7 @@ function getNoteEditorHTML(path: string): string {
       .status-bar,
       .modal,
       .lock-notice,
+      .append-bar,
       .message {
         display: none !important;
       }
@@ -790,14 +1329,52 @@ function getNoteEditorHTML(path: string): string {
           <span>CloudNote</span>
         </a>
         <div class="path-info">
-          <span>/${path}</span>
+          <span>/${getPathBreadcrumbs(path)}</span>
+        </div>
+        <div class="tag-editor" id="tagEditor" style="display: none;">
+          <div class="tag-list" id="tagList"></div>
+          <input type="text" class="tag-input" id="tagInput" placeholder="+ 标签" maxlength="32" onkeydown="handleTagInput(event)">
         </div>
+        <div class="presence-list" id="presenceList"></div>
       </div>
       <div class="toolbar-right">
         <button class="btn btn-small" onclick="toggleLock()" id="lockBtn">
           <span id="lockIcon">🔓</span>
           <span id="lockText" class="btn-text">未锁定</span>
         </button>
+        <button class="btn btn-small" onclick="showShareModal()" id="shareBtn" title="生成无需密码的分享链接" style="display: none;">
+          <span>🔗</span>
+          <span class="btn-text">分享</span>
+        </button>
+        <button class="btn btn-small" onclick="pickAttachment('')" id="attachmentBtn">
+          <span>📎</span>
+          <span class="btn-text">附件</span>
+        </button>
+        <input type="file" id="attachmentInput" multiple hidden>
+        <button class="btn btn-small" onclick="showExpiryModal()" id="expiryBtn">
+          <span>⏳</span>
+          <span class="btn-text">过期</span>
+        </button>
+        <button class="btn btn-small" onclick="showTemplateModal()" id="templateBtn" title="从模板开始新笔记" style="display: none;">
+          <span>📋</span>
+          <span class="btn-text">模板</span>
+        </button>
+        <button class="btn btn-small" onclick="showEncryptModal()" id="encryptBtn" title="在浏览器中加密笔记，服务器只保存密文" style="display: none;">
+          <span>🔐</span>
+          <span id="encryptText" class="btn-text">加密</span>
+        </button>
+        <button class="btn btn-small" onclick="toggleFormat()" id="formatBtn" title="切换Markdown/富文本格式">
+          <span>📝</span>
+          <span id="formatText" class="btn-text">富文本</span>
+        </button>
+        <button class="btn btn-small" onclick="renameCurrentNote()" id="renameBtn" title="移动笔记到新路径">
+          <span>✏️</span>
+          <span class="btn-text">重命名</span>
+        </button>
+        <button class="btn btn-small" onclick="showHistory()" id="historyBtn">
+          <span>🕘</span>
+          <span class="btn-text">历史</span>
+        </button>
         <button class="btn btn-small" onclick="saveNoteManually()" id="saveBtn">
           <span>💾</span>
           <span class="btn-text">保存</span>
@@ -818,8 +1395,36 @@ function getNoteEditorHTML(path: string): string {
           <button onclick="showUnlockModal()">输入密码</button>
         </div>
         
+        <!-- 其他客户端更新提示 -->
+        <div class="lock-notice update-notice" id="updateNotice">
+          <span id="updateNoticeText">此笔记已在其他地方更新，是否重新加载？</span>
+          <button onclick="reloadNote()" id="updateReloadBtn">重新加载</button>
+          <button onclick="dismissRemoteChange()">保留我的修改</button>
+        </div>
+        
         <!-- 富文本编辑器 -->
         <div id="editor"></div>
+        
+        <!-- Markdown编辑器：左侧源文本，右侧预览 -->
+        <div class="markdown-editor" id="markdownEditor">
+          <textarea id="markdownInput" spellcheck="false" placeholder="使用Markdown输入您的笔记..."></textarea>
+          <div class="markdown-preview ql-editor" id="markdownPreview"></div>
+        </div>
+        
+        <!-- 追加锁定：无需密码即可在末尾追加内容 -->
+        <div class="append-bar" id="appendBar">
+          <textarea id="appendInput" placeholder="输入要追加到笔记末尾的内容..."></textarea>
+          <button class="btn btn-small" onclick="appendNote()" id="appendBtn">
+            <span>➕</span>
+            <span class="btn-text">追加</span>
+          </button>
+        </div>
+        
+        <!-- 反向链接：内容中链接到此笔记的其他笔记 -->
+        <div class="backlinks-panel" id="backlinksPanel" style="display: none;">
+          <div class="backlinks-title">🔗 反向链接 (<span id="backlinksCount">0</span>)</div>
+          <div class="backlinks-list" id="backlinksList"></div>
+        </div>
       </div>
     </div>
     
@@ -833,6 +1438,7 @@ function getNoteEditorHTML(path: string): string {
         <div class="status-item">
           <span id="viewCount">0</span> 次查看
         </div>
+        <div class="status-item" id="expiryStatus" style="display: none;"></div>
       </div>
       <div class="status-right">
         <span id="lastSaved">未保存</span>
@@ -853,6 +1459,7 @@ function getNoteEditorHTML(path: string): string {
         <select id="lockType" class="form-select" onchange="updateLockDescription()">
           <option value="write">限制编辑</option>
           <option value="read">限制访问</option>
+          <option value="append">仅允许追加</option>
         </select>
         <p class="form-help" id="lockDescription">任何人都可以查看，但需要密码才能编辑</p>
       </div>
@@ -867,6 +1474,12 @@ function getNoteEditorHTML(path: string): string {
         <input type="password" id="lockPasswordConfirm" class="form-input" placeholder="再次输入密码" autocomplete="new-password">
       </div>
       
+      <div class="form-group" id="lockEditPasswordGroup" style="display: none;">
+        <label class="form-label" for="lockEditPassword">编辑密码（可选）</label>
+        <input type="password" id="lockEditPassword" class="form-input" placeholder="留空则访问密码也可以编辑" autocomplete="new-password">
+        <p class="form-help">设置后，访问密码只能查看，编辑需要此密码</p>
+      </div>
+      
       <div class="modal-actions">
         <button class="btn" onclick="closeLockModal()">取消</button>
         <button class="btn btn-primary" onclick="setLock()">确认锁定</button>
@@ -874,6 +1487,106 @@ function getNoteEditorHTML(path: string): string {
     </div>
   </div>
   
+  <!-- 过期设置模态框 -->
+  <div class="modal" id="expiryModal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h3 class="modal-title">过期设置</h3>
+        <p class="modal-subtitle">过期后笔记及其历史将被永久删除</p>
+      </div>
+      
+      <div class="form-group">
+        <label class="form-label" for="expiryMode">过期方式</label>
+        <select id="expiryMode" class="form-select" onchange="updateExpiryFields()">
+          <option value="none">永不过期</option>
+          <option value="time">指定时间过期</option>
+          <option value="views">查看指定次数后删除</option>
+          <option value="burn">阅后即焚</option>
+        </select>
+        <p class="form-help" id="expiryDescription">笔记将一直保留</p>
+      </div>
+      
+      <div class="form-group" id="expiryTimeGroup" style="display: none;">
+        <label class="form-label" for="expiryTime">过期时间</label>
+        <input type="datetime-local" id="expiryTime" class="form-input">
+      </div>
+      
+      <div class="form-group" id="expiryViewsGroup" style="display: none;">
+        <label class="form-label" for="expiryViews">查看次数</label>
+        <input type="number" id="expiryViews" class="form-input" min="1" max="1000" value="3">
+      </div>
+      
+      <div class="modal-actions">
+        <button class="btn" onclick="closeExpiryModal()">取消</button>
+        <button class="btn btn-primary" onclick="saveExpiry()">保存设置</button>
+      </div>
+    </div>
+  </div>
+  
+  <!-- 模板选择模态框 -->
+  <div class="modal" id="templateModal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h3 class="modal-title">从模板开始</h3>
+        <p class="modal-subtitle">模板内容将替换编辑器中的内容</p>
+      </div>
+      
+      <div class="template-list" id="templateList"></div>
+      
+      <div class="modal-actions">
+        <button class="btn" onclick="closeTemplateModal()">取消</button>
+      </div>
+    </div>
+  </div>
+  
+  <!-- 端到端加密模态框 -->
+  <div class="modal" id="encryptModal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h3 class="modal-title">端到端加密</h3>
+        <p class="modal-subtitle">内容在浏览器中加密后再保存，服务器和管理员只能看到密文。请在输入内容之前启用，启用后不能取消</p>
+      </div>
+      
+      <div class="form-group">
+        <label class="form-label" for="encryptPassphrase">加密口令</label>
+        <input type="password" id="encryptPassphrase" class="form-input" placeholder="留空则生成密钥并附加在链接中">
+        <p class="form-help">使用口令时每次打开都需要输入；生成的密钥保存在链接 # 之后的部分，不会发送到服务器。口令或链接丢失后内容无法恢复</p>
+      </div>
+      
+      <div class="form-group">
+        <label class="form-label" for="encryptPassphraseConfirm">确认口令</label>
+        <input type="password" id="encryptPassphraseConfirm" class="form-input" placeholder="再次输入口令">
+        <p class="form-help" id="encryptError" style="color: var(--error-color); display: none;"></p>
+      </div>
+      
+      <div class="modal-actions">
+        <button class="btn" onclick="closeEncryptModal()">取消</button>
+        <button class="btn btn-primary" onclick="enableEncryption()">启用加密</button>
+      </div>
+    </div>
+  </div>
+  
+  <!-- 加密笔记解密模态框 -->
+  <div class="modal" id="decryptModal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h3 class="modal-title">笔记已加密</h3>
+        <p class="modal-subtitle">请输入加密口令，内容只在浏览器中解密</p>
+      </div>
+      
+      <div class="form-group">
+        <label class="form-label" for="decryptPassphrase">加密口令</label>
+        <input type="password" id="decryptPassphrase" class="form-input" placeholder="输入口令">
+        <p class="form-help" id="decryptError" style="color: var(--error-color); display: none;"></p>
+      </div>
+      
+      <div class="modal-actions">
+        <button class="btn" onclick="closeDecryptModal()">取消</button>
+        <button class="btn btn-primary" onclick="decryptNote()">解密</button>
+      </div>
+    </div>
+  </div>
+  
   <!-- 解锁模态框 -->
   <div class="modal" id="unlockModal">
     <div class="modal-content">
@@ -916,16 +1629,142 @@ function getNoteEditorHTML(path: string): string {
     </div>
   </div>
   
+  <!-- 分享链接模态框 -->
+  <div class="modal" id="shareModal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h3 class="modal-title">分享链接</h3>
+        <p class="modal-subtitle">持有链接的人无需密码即可打开此笔记，修改或解除锁定后链接失效</p>
+      </div>
+      
+      <div class="share-list" id="shareList"></div>
+      
+      <div class="form-group">
+        <label class="form-label" for="shareAccess">链接权限</label>
+        <select id="shareAccess" class="form-select">
+          <option value="view">只能查看</option>
+          <option value="edit">可以编辑</option>
+        </select>
+      </div>
+      
+      <div class="form-group">
+        <label class="form-label" for="shareDays">有效期</label>
+        <select id="shareDays" class="form-select">
+          <option value="1">1天</option>
+          <option value="7" selected>7天</option>
+          <option value="30">30天</option>
+          <option value="90">90天</option>
+        </select>
+      </div>
+      
+      <div class="form-group">
+        <label class="form-label" for="shareMaxUses">使用次数（可选）</label>
+        <input type="number" id="shareMaxUses" class="form-input" min="1" max="10000" placeholder="不限次数">
+        <p class="form-help">每次通过链接打开笔记消耗一次</p>
+      </div>
+      
+      <div class="modal-actions">
+        <button class="btn" onclick="closeShareModal()">关闭</button>
+        <button class="btn btn-primary" onclick="generateShareLink()">生成并复制链接</button>
+      </div>
+    </div>
+  </div>
+  
+  <!-- 保存冲突模态框 -->
+  <div class="modal" id="conflictModal">
+    <div class="modal-content modal-wide">
+      <div class="modal-header">
+        <h3 class="modal-title">笔记已在其他地方被修改</h3>
+        <p class="modal-subtitle">你的修改基于旧版本，请选择如何处理</p>
+      </div>
+      
+      <div class="conflict-layout">
+        <div class="conflict-pane">
+          <label class="form-label">我的版本</label>
+          <div class="history-preview" id="conflictMine"></div>
+        </div>
+        <div class="conflict-pane">
+          <label class="form-label">服务器版本</label>
+          <div class="history-preview" id="conflictTheirs"></div>
+        </div>
+      </div>
+      
+      <div class="modal-actions">
+        <button class="btn" onclick="resolveConflict('theirs')">使用服务器版本</button>
+        <button class="btn" onclick="resolveConflict('merge')" id="conflictMergeBtn">合并两者</button>
+        <button class="btn btn-primary" onclick="resolveConflict('mine')">保留我的版本</button>
+      </div>
+    </div>
+  </div>
+  
+  <!-- 修订历史模态框 -->
+  <div class="modal" id="historyModal">
+    <div class="modal-content modal-wide">
+      <div class="modal-header">
+        <h3 class="modal-title">修订历史</h3>
+        <p class="modal-subtitle">选择一个版本查看与当前内容的差异</p>
+      </div>
+      
+      <div class="history-layout">
+        <div class="history-list" id="historyList"></div>
+        <div class="history-preview" id="historyPreview">
+          <div class="history-empty">请选择一个版本</div>
+        </div>
+      </div>
+      
+      <div class="modal-actions">
+        <button class="btn" onclick="closeHistoryModal()">关闭</button>
+        <button class="btn btn-primary" onclick="restoreRevision()" id="restoreBtn" disabled>恢复此版本</button>
+      </div>
+    </div>
+  </div>
+  
   <script src="/static/quill.js"></script>
   <script>
     const notePath = '${path}';
+    // 多级路径在接口地址中编码为一段
+    const noteApiUrl = '/api/note/' + encodeURIComponent(notePath);
+    // 修改笔记的请求需在X-CSRF-Token请求头中带上页面的CSRF令牌
+    const CSRF_TOKEN = '${csrfToken}';
     let quill;
     let isLocked = false;
+    let noteTags = [];
     let lockType = null;
-    let notePassword = null;
+    // 解锁或加锁后服务器签发的会话令牌，代替密码用于后续请求
+    let noteToken = null;
+    // 解锁获得的权限：view（只能查看）或 edit
+    let noteAccess = null;
+    // 通过分享链接打开时页面地址中的令牌，保存时代替密码
+    const shareToken = new URLSearchParams(window.location.search).get('share');
+    // 笔记被其他人重命名后的新路径
+    let movedPath = null;
+    // 笔记变更事件的订阅
+    let noteEvents = null;
     let saveTimeout;
     let viewCount = 0;
     let lastSavedTime = null;
+    let selectedRevisionId = null;
+    let noteVersion = null;
+    let pendingConflict = null;
+    let noteExpiry = null;
+    // 笔记格式：html（富文本）或 markdown
+    let noteFormat = 'html';
+    // 端到端加密：密钥由浏览器从口令或链接 # 之后的密钥派生，服务器只保存密文
+    const ENCRYPTION_ITERATIONS = 310000;
+    let noteEncrypted = false;
+    let encryptionSecret = null;
+    let encryptionKey = null;
+    let encryptionSalt = null;
+    let encryptionIterations = ENCRYPTION_ITERATIONS;
+    // 等待输入口令才能解密的服务器内容
+    let pendingEncrypted = null;
+    let previewTimeout;
+    let linkifyTimeout;
+    // 其他客户端修改了笔记，用户处理前暂停自动保存
+    let remoteChange = false;
+    let editedDuringRemoteChange = false;
+    // 标识当前页面，用于忽略自己触发的变更事件
+    const clientId = window.crypto && crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2);
 
     function configureEditorSurface() {
       if (!quill || !quill.root) {
@@ -1051,47 +1890,698 @@ function getNoteEditorHTML(path: string): string {
         readOnly: readOnly,
         placeholder: readOnly || hasContent ? '' : '开始输入您的笔记...',
         modules: {
-          toolbar: readOnly ? false : [
-            [{ 'header': [1, 2, 3, 4, 5, 6, false] }],
-            ['bold', 'italic', 'underline', 'strike'],
-            ['blockquote', 'code-block'],
-            [{ 'list': 'ordered'}, { 'list': 'bullet' }],
-            [{ 'script': 'sub'}, { 'script': 'super' }],
-            [{ 'indent': '-1'}, { 'indent': '+1' }],
-            [{ 'color': [] }, { 'background': [] }],
-            [{ 'align': [] }],
-            ['link', 'image'],
-            ['clean']
-          ]
+          toolbar: readOnly ? false : {
+            container: [
+              [{ 'header': [1, 2, 3, 4, 5, 6, false] }],
+              ['bold', 'italic', 'underline', 'strike'],
+              ['blockquote', 'code-block'],
+              [{ 'list': 'ordered'}, { 'list': 'bullet' }],
+              [{ 'script': 'sub'}, { 'script': 'super' }],
+              [{ 'indent': '-1'}, { 'indent': '+1' }],
+              [{ 'color': [] }, { 'background': [] }],
+              [{ 'align': [] }],
+              ['link', 'image'],
+              ['clean']
+            ],
+            handlers: {
+              // 图片上传为附件，而不是以base64嵌入内容
+              image: () => pickAttachment('image/*')
+            }
+          }
         }
       });
 
       configureEditorSurface();
       enhanceToolbarAccessibility();
       
+      // 协作：本地修改发送给其他协作者，光标位置同步
+      quill.on('text-change', function(delta, oldDelta, source) {
+        if (source === 'user') {
+          queueCollabDelta(delta);
+        }
+        renderCursors();
+        scheduleLinkify();
+      });
+      quill.on('selection-change', function(range) {
+        sendCollab({ type: 'cursor', range: range });
+      });
+      quill.root.addEventListener('scroll', renderCursors);
+      quill.container.addEventListener('scroll', renderCursors);
+      
       if (!readOnly) {
-        // 内容变化时自动保存
-        quill.on('text-change', function() {
-          clearTimeout(saveTimeout);
-          setStatus('editing', '正在编辑...');
+        // 粘贴或拖入的文件上传为附件（捕获阶段处理，先于Quill的默认行为）
+        quill.root.addEventListener('paste', (event) => {
+          const files = Array.from((event.clipboardData && event.clipboardData.files) || []);
+          if (files.length > 0) {
+            event.preventDefault();
+            event.stopPropagation();
+            insertAttachments(files);
+          }
+        }, true);
+        quill.root.addEventListener('drop', (event) => {
+          const files = Array.from((event.dataTransfer && event.dataTransfer.files) || []);
+          if (files.length > 0) {
+            event.preventDefault();
+            event.stopPropagation();
+            insertAttachments(files);
+          }
+        }, true);
+        
+        // 内容变化时自动保存（协作者的远程修改由其本人保存）
+        quill.on('text-change', function(delta, oldDelta, source) {
+          if (source === 'api') {
+            return;
+          }
           
-          saveTimeout = setTimeout(() => {
-            saveNote();
-          }, 2000);
+          scheduleAutoSave();
         });
       }
+      
+      applyEditorMode();
     }
     
-    // 加载笔记
-    async function loadNote() {
-      try {
-        const response = await fetch('/api/note/' + notePath);
+    function scheduleAutoSave() {
+      clearTimeout(saveTimeout);
+      
+      if (remoteChange) {
+        editedDuringRemoteChange = true;
+        setStatus('editing', '未保存');
+        return;
+      }
+      
+      setStatus('editing', '正在编辑...');
+      
+      saveTimeout = setTimeout(() => {
+        saveNote();
+      }, 2000);
+    }
+    
+    // Markdown模式：编辑源文本，预览由服务器渲染（与其他访问者看到的一致）
+    function isMarkdown() {
+      return noteFormat === 'markdown';
+    }
+    
+    function isEditorReadOnly() {
+      return !quill || quill.root.getAttribute('contenteditable') === 'false';
+    }
+    
+    function applyEditorMode() {
+      const markdownEditor = document.getElementById('markdownEditor');
+      document.querySelector('.editor-container').classList.toggle('markdown-mode', isMarkdown());
+      markdownEditor.classList.toggle('readonly', isEditorReadOnly());
+      document.getElementById('markdownInput').readOnly = isEditorReadOnly();
+      document.getElementById('formatText').textContent = isMarkdown() ? 'Markdown' : '富文本';
+    }
+    
+    function getEditorContent() {
+      return isMarkdown() ? document.getElementById('markdownInput').value : quill.root.innerHTML;
+    }
+    
+    function getEditorText() {
+      return isMarkdown() ? document.getElementById('markdownInput').value : quill.getText();
+    }
+    
+    // 富文本内容的白名单，与服务器的sanitizeHtml一致。
+    // 加密笔记在浏览器中解密，服务器无法过滤，所以显示前统一在这里过滤
+    const SAFE_TAGS = {
+      p: ['class'], br: [], span: ['class', 'style'], strong: ['class', 'style'], em: ['class', 'style'],
+      u: ['class', 'style'], s: ['class', 'style'], sub: ['class', 'style'], sup: ['class', 'style'],
+      code: ['class', 'style'], a: ['href', 'target', 'rel', 'title', 'class', 'style'],
+      img: ['src', 'alt', 'title', 'width', 'height', 'class'],
+      h1: ['class'], h2: ['class'], h3: ['class'], h4: ['class'], h5: ['class'], h6: ['class'],
+      blockquote: ['class'], pre: ['class', 'spellcheck'], ol: ['class'], ul: ['class'], li: ['class'],
+      hr: [], table: [], thead: [], tbody: [], tr: [], th: [], td: []
+    };
+    const DROPPED_TAGS = ['script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'svg', 'math',
+      'template', 'noscript', 'noembed', 'noframes', 'xmp', 'plaintext', 'textarea', 'title', 'select', 'head'];
+    const SAFE_CLASS = /^(ql-indent-[1-8]|ql-align-(center|right|justify)|ql-direction-rtl|ql-syntax|wiki-link|language-[\\w+-]+)$/;
+    const SAFE_STYLE_VALUE = /^(#[0-9a-f]{3,8}|rgba?\\(\\s*[\\d.]+%?\\s*(,\\s*[\\d.]+%?\\s*){2,3}\\)|[a-z]+)$/i;
+    
+    // 返回过滤后的属性值，不允许时返回null
+    function safeAttributeValue(name, value) {
+      if (name === 'href' || name === 'src') {
+        // 浏览器会忽略地址中的空白和控制字符，检查协议前先去掉
+        const url = value.replace(/[\\u0000- \\u007f]/g, '');
+        if (name === 'src' && /^data:image\\/(png|jpe?g|gif|webp);base64,[a-z0-9+/]+=*$/i.test(url)) {
+          return url;
+        }
+        const scheme = url.match(/^([^/?#]*):/);
+        return scheme && !/^(https?|mailto)$/i.test(scheme[1]) ? null : value.trim();
+      }
+      if (name === 'class') {
+        const classes = value.split(/\\s+/).filter((item) => SAFE_CLASS.test(item));
+        return classes.length > 0 ? classes.join(' ') : null;
+      }
+      if (name === 'style') {
+        const declarations = value.split(';').map((declaration) => {
+          const index = declaration.indexOf(':');
+          const property = declaration.slice(0, index).trim().toLowerCase();
+          const propertyValue = declaration.slice(index + 1).trim();
+          const allowed = index > 0 && (property === 'color' || property === 'background-color') && SAFE_STYLE_VALUE.test(propertyValue);
+          return allowed ? property + ': ' + propertyValue + ';' : null;
+        }).filter(Boolean);
+        return declarations.length > 0 ? declarations.join(' ') : null;
+      }
+      if (name === 'target') {
+        return value === '_blank' ? value : null;
+      }
+      if (name === 'rel') {
+        return /^[a-z\\s]*$/i.test(value) ? value : null;
+      }
+      if (name === 'width' || name === 'height') {
+        return /^\\d+(px|%)?$/.test(value) ? value : null;
+      }
+      if (name === 'spellcheck') {
+        return value === 'false' ? value : null;
+      }
+      return value;
+    }
+    
+    function sanitizeChildren(parent) {
+      Array.from(parent.childNodes).forEach((node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+          return;
+        }
+        
+        // 注释、SVG和MathML元素以及危险标签连同内容一起去掉
+        const isHtml = node.nodeType === Node.ELEMENT_NODE && node.namespaceURI === 'http://www.w3.org/1999/xhtml';
+        if (!isHtml || DROPPED_TAGS.includes(node.localName)) {
+          node.remove();
+          return;
+        }
+        
+        sanitizeChildren(node);
+        
+        // 其他不在白名单中的标签去掉但保留其中的内容
+        const allowed = Object.hasOwn(SAFE_TAGS, node.localName) ? SAFE_TAGS[node.localName] : null;
+        if (!allowed) {
+          node.replaceWith(...node.childNodes);
+          return;
+        }
+        
+        Array.from(node.attributes).forEach((attribute) => {
+          const value = allowed.includes(attribute.name) ? safeAttributeValue(attribute.name, attribute.value) : null;
+          if (value === null) {
+            node.removeAttribute(attribute.name);
+          } else if (value !== attribute.value) {
+            node.setAttribute(attribute.name, value);
+          }
+        });
+      });
+    }
+    
+    // 在template中解析，过滤完成前不会执行脚本或加载资源
+    function sanitizeEditorHtml(html) {
+      const template = document.createElement('template');
+      template.innerHTML = html || '';
+      sanitizeChildren(template.content);
+      return template.innerHTML;
+    }
+    
+    // html为服务器渲染的预览，未提供时重新请求渲染
+    function setEditorContent(content, html) {
+      if (!isMarkdown()) {
+        quill.root.innerHTML = sanitizeEditorHtml(content);
+        return;
+      }
+      
+      document.getElementById('markdownInput').value = content || '';
+      if (typeof html === 'string') {
+        clearTimeout(previewTimeout);
+        document.getElementById('markdownPreview').innerHTML = html;
+      } else {
+        schedulePreview();
+      }
+    }
+    
+    // [[路径]] 或 [[路径|显示文字]]，与服务器提取链接的规则一致
+    const WIKI_LINK = /\\[\\[([^[\\]|\\n]+)(?:\\|([^[\\]\\n]+))?\\]\\]/g;
+    
+    function wikiLinkHref(raw) {
+      const target = raw.trim().normalize('NFC').replace(/^\\/+|\\/+$/g, '');
+      return target ? '/' + target.split('/').map(encodeURIComponent).join('/') : null;
+    }
+    
+    function scheduleLinkify() {
+      clearTimeout(linkifyTimeout);
+      linkifyTimeout = setTimeout(linkifyWikiLinks, 300);
+    }
+    
+    // 富文本模式下为 [[路径]] 添加指向对应笔记的链接；
+    // 可编辑时作为用户修改保存并同步给协作者，只读时仅用于显示
+    function linkifyWikiLinks() {
+      if (!quill || isMarkdown()) {
+        return;
+      }
+      
+      // 图片等嵌入内容占一个位置，用占位字符保持索引一致
+      const text = quill.getContents().ops.map(op => typeof op.insert === 'string' ? op.insert : '\\uFFFC').join('');
+      const source = isEditorReadOnly() ? 'api' : 'user';
+      
+      for (const match of text.matchAll(WIKI_LINK)) {
+        const href = wikiLinkHref(match[1]);
+        if (href && quill.getFormat(match.index, match[0].length).link !== href) {
+          quill.formatText(match.index, match[0].length, 'link', href, source);
+        }
+      }
+    }
+    
+    // 加载链接到此笔记的其他笔记
+    async function loadBacklinks() {
+      try {
+        const response = await fetch(noteApiUrl + '/backlinks');
+        if (!response.ok) {
+          return;
+        }
+        
+        const data = await response.json();
+        const list = document.getElementById('backlinksList');
+        list.innerHTML = '';
+        
+        data.backlinks.forEach(link => {
+          const item = document.createElement('a');
+          item.href = wikiLinkHref(link.path);
+          item.textContent = '/' + link.path;
+          item.title = '更新于 ' + new Date(link.updated_at).toLocaleString('zh-CN');
+          list.appendChild(item);
+        });
+        
+        document.getElementById('backlinksCount').textContent = data.backlinks.length;
+        document.getElementById('backlinksPanel').style.display = data.backlinks.length > 0 ? '' : 'none';
+      } catch (error) {
+        console.error('Error loading backlinks:', error);
+      }
+    }
+    
+    function schedulePreview() {
+      clearTimeout(previewTimeout);
+      previewTimeout = setTimeout(renderPreview, 300);
+    }
+    
+    async function renderPreview() {
+      const content = document.getElementById('markdownInput').value;
+      
+      try {
+        const response = await fetch('/api/markdown', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content })
+        });
+        
+        // 忽略已过时的渲染结果
+        if (response.ok && content === document.getElementById('markdownInput').value) {
+          const data = await response.json();
+          document.getElementById('markdownPreview').innerHTML = data.html;
+        }
+      } catch (error) {
+        console.error('Error rendering markdown:', error);
+      }
+    }
+    
+    function setEditorFormat(format) {
+      noteFormat = format;
+      applyEditorMode();
+      
+      // 实时协作基于Quill的delta，Markdown模式下不可用
+      if (isMarkdown()) {
+        disconnectCollab();
+        collab.users = [];
+        collab.cursors = {};
+        renderPresence();
+        renderCursors();
+      } else {
+        connectCollab();
+      }
+    }
+    
+    // 重命名笔记：先保存未保存的修改，成功后跳转到新路径
+    async function renameCurrentNote() {
+      if (isEditorReadOnly()) {
+        showMessage('笔记已锁定，请先解锁', 'warning');
+        return;
+      }
+      
+      if (noteVersion === null) {
+        showMessage('笔记尚未保存，无法重命名', 'warning');
+        return;
+      }
+      
+      const newPath = prompt('将 /' + notePath + ' 重命名为：', notePath);
+      if (!newPath || newPath === notePath) {
+        return;
+      }
+      const keepAlias = confirm('是否保留旧路径 /' + notePath + ' 作为跳转链接？已分享的链接将继续可用。');
+      
+      clearTimeout(saveTimeout);
+      await saveNote();
+      if (pendingConflict) {
+        return;
+      }
+      
+      try {
+        const body = { new_path: newPath, keep_alias: keepAlias };
+        
+        const response = await fetch(noteApiUrl + '/rename', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId, 'X-CSRF-Token': CSRF_TOKEN, ...noteAuthHeaders() },
+          body: JSON.stringify(body)
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          window.location.href = '/' + data.path;
+        } else if (response.status === 409) {
+          showMessage('路径 /' + newPath + ' 已被占用', 'error');
+        } else if (response.status === 400) {
+          showMessage('路径格式无效', 'error');
+        } else if (response.status === 403) {
+          showMessage('需要密码才能重命名', 'error');
+        } else {
+          showMessage('重命名失败', 'error');
+        }
+      } catch (error) {
+        console.error('Error renaming note:', error);
+        showMessage('重命名失败', 'error');
+      }
+    }
+    
+    // 切换笔记格式：先保存当前内容，再由服务器转换（转换前的内容保留在历史中）
+    async function toggleFormat() {
+      if (isEditorReadOnly()) {
+        showMessage('笔记已锁定，请先解锁', 'warning');
+        return;
+      }
+      
+      const target = isMarkdown() ? 'html' : 'markdown';
+      clearTimeout(saveTimeout);
+      
+      // 尚未保存的空白笔记直接切换
+      if (noteVersion === null && getEditorText().trim() === '') {
+        setEditorFormat(target);
+        setEditorContent('');
+        return;
+      }
+      
+      const message = target === 'markdown'
+        ? '确定要转换为Markdown格式吗？颜色、对齐等格式会丢失，转换前的内容会保留在历史中。'
+        : '确定要转换为富文本格式吗？转换前的内容会保留在历史中。';
+      if (!confirm(message)) {
+        return;
+      }
+      
+      await saveNote();
+      if (pendingConflict || noteVersion === null) {
+        return;
+      }
+      
+      try {
+        const body = { format: target, base_version: noteVersion };
+        
+        const response = await fetch(noteApiUrl + '/format', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId, 'X-CSRF-Token': CSRF_TOKEN, ...noteAuthHeaders() },
+          body: JSON.stringify(body)
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          noteVersion = data.version;
+          setEditorFormat(data.format);
+          setEditorContent(data.content);
+          lastSavedTime = new Date();
+          updateLastSaved();
+          setStatus('ready', '已转换');
+          showMessage(isMarkdown() ? '已转换为Markdown格式' : '已转换为富文本格式', 'success');
+        } else if (response.status === 409) {
+          showConflictModal(await response.json());
+        } else if (response.status === 403) {
+          showUnlockModal();
+        } else {
+          showMessage('转换失败', 'error');
+        }
+      } catch (error) {
+        console.error('Error converting note format:', error);
+        showMessage('转换失败', 'error');
+      }
+    }
+    
+    function bytesToBase64(bytes) {
+      let binary = '';
+      for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+      }
+      return btoa(binary);
+    }
+    
+    function base64ToBytes(text) {
+      return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+    }
+    
+    // 链接中 #key= 之后的密钥，浏览器不会把 # 之后的部分发送到服务器
+    function fragmentSecret() {
+      const match = window.location.hash.match(/^#key=([A-Za-z0-9_-]+)$/);
+      return match ? match[1] : null;
+    }
+    
+    async function deriveEncryptionKey(secret, salt, iterations) {
+      const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveKey']);
+      return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: base64ToBytes(salt), iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+    }
+    
+    // 加密编辑器内容，每次保存使用新的IV，盐和迭代次数沿用该笔记已有的设置
+    async function encryptContent(plaintext) {
+      if (!encryptionKey) {
+        encryptionSalt = bytesToBase64(crypto.getRandomValues(new Uint8Array(16)));
+        encryptionKey = await deriveEncryptionKey(encryptionSecret, encryptionSalt, encryptionIterations);
+      }
+      
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, encryptionKey, new TextEncoder().encode(plaintext));
+      return JSON.stringify({
+        v: 1,
+        kdf: 'PBKDF2',
+        iter: encryptionIterations,
+        salt: encryptionSalt,
+        iv: bytesToBase64(iv),
+        ct: bytesToBase64(new Uint8Array(ciphertext))
+      });
+    }
+    
+    // 解密服务器返回的密文，没有密钥或密钥错误时返回null
+    async function decryptContent(content, secret = encryptionSecret || fragmentSecret()) {
+      if (!secret) {
+        return null;
+      }
+      
+      try {
+        const envelope = JSON.parse(content);
+        if (!encryptionKey || secret !== encryptionSecret || envelope.salt !== encryptionSalt || envelope.iter !== encryptionIterations) {
+          encryptionKey = await deriveEncryptionKey(secret, envelope.salt, envelope.iter);
+          encryptionSalt = envelope.salt;
+          encryptionIterations = envelope.iter;
+        }
+        
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(envelope.iv) }, encryptionKey, base64ToBytes(envelope.ct));
+        encryptionSecret = secret;
+        return new TextDecoder().decode(plaintext);
+      } catch (error) {
+        encryptionKey = null;
+        return null;
+      }
+    }
+    
+    // 显示服务器返回的笔记内容，加密笔记在本地解密，没有密钥时请求输入口令
+    async function showNoteContent(content, html) {
+      if (!content) {
+        return;
+      }
+      
+      if (!noteEncrypted) {
+        setEditorContent(content, html);
+        return;
+      }
+      
+      const plaintext = await decryptContent(content);
+      if (plaintext === null) {
+        // 解密前不能编辑，以免自动保存覆盖密文
+        pendingEncrypted = { content, enabled: quill.isEnabled() };
+        quill.disable();
+        setStatus('locked', '未解密');
+        showDecryptModal();
+        return;
+      }
+      
+      setEditorContent(plaintext);
+    }
+    
+    // 保存请求中的内容，加密笔记提交密文；尚未解密时返回null，不能保存
+    async function noteSaveBody() {
+      if (!noteEncrypted) {
+        return { content: getEditorContent(), format: noteFormat };
+      }
+      
+      if (!encryptionSecret || pendingEncrypted) {
+        return null;
+      }
+      
+      return { content: await encryptContent(getEditorContent()), format: noteFormat, encrypted: true };
+    }
+    
+    // 加密笔记不使用需要服务器读取明文的功能：实时协作、附件、格式转换、历史版本和追加
+    function applyEncryptionMode() {
+      if (!noteEncrypted) {
+        return;
+      }
+      
+      ['attachmentBtn', 'formatBtn', 'historyBtn'].forEach((id) => {
+        document.getElementById(id).style.display = 'none';
+      });
+      showAppendBar(false);
+      disconnectCollab();
+      updateEncryptButton();
+    }
+    
+    // 新笔记可以启用加密，已加密的笔记显示加密状态
+    function updateEncryptButton() {
+      document.getElementById('encryptBtn').style.display = noteEncrypted || noteVersion === null ? '' : 'none';
+      document.getElementById('encryptText').textContent = noteEncrypted ? '已加密' : '加密';
+    }
+    
+    function showEncryptModal() {
+      if (noteEncrypted) {
+        showMessage('此笔记已端到端加密，内容只在浏览器中解密', 'success');
+        return;
+      }
+      
+      // Markdown预览由服务器渲染，加密笔记只支持富文本
+      if (isMarkdown()) {
+        showMessage('加密笔记只支持富文本格式，请先切换格式', 'warning');
+        return;
+      }
+      
+      document.getElementById('encryptModal').classList.add('show');
+      document.getElementById('encryptPassphrase').focus();
+    }
+    
+    function closeEncryptModal() {
+      document.getElementById('encryptModal').classList.remove('show');
+      document.getElementById('encryptPassphrase').value = '';
+      document.getElementById('encryptPassphraseConfirm').value = '';
+      document.getElementById('encryptError').style.display = 'none';
+    }
+    
+    function enableEncryption() {
+      const passphrase = document.getElementById('encryptPassphrase').value;
+      const error = document.getElementById('encryptError');
+      
+      if (passphrase !== document.getElementById('encryptPassphraseConfirm').value) {
+        error.textContent = '两次输入的口令不一致';
+        error.style.display = 'block';
+        return;
+      }
+      
+      if (noteVersion !== null) {
+        error.textContent = '笔记已保存，只能在创建时启用加密';
+        error.style.display = 'block';
+        return;
+      }
+      
+      if (passphrase) {
+        encryptionSecret = passphrase;
+      } else {
+        // 未设置口令时生成随机密钥，放在链接 # 之后
+        encryptionSecret = bytesToBase64(crypto.getRandomValues(new Uint8Array(32)))
+          .replace(/\\+/g, '-')
+          .replace(/\\//g, '_')
+          .replace(/=+$/, '');
+        history.replaceState(null, '', window.location.pathname + window.location.search + '#key=' + encryptionSecret);
+      }
+      
+      noteEncrypted = true;
+      encryptionKey = null;
+      closeEncryptModal();
+      applyEncryptionMode();
+      showMessage(passphrase ? '已启用加密，请牢记口令' : '已启用加密，请保存当前链接（包含密钥）', 'success');
+      
+      if (getEditorText().trim() !== '') {
+        clearTimeout(saveTimeout);
+        saveNote();
+      }
+    }
+    
+    function showDecryptModal() {
+      document.getElementById('decryptModal').classList.add('show');
+      document.getElementById('decryptPassphrase').focus();
+    }
+    
+    function closeDecryptModal() {
+      document.getElementById('decryptModal').classList.remove('show');
+      document.getElementById('decryptPassphrase').value = '';
+      document.getElementById('decryptError').style.display = 'none';
+    }
+    
+    async function decryptNote() {
+      const passphrase = document.getElementById('decryptPassphrase').value;
+      const error = document.getElementById('decryptError');
+      
+      if (!passphrase || !pendingEncrypted) {
+        error.textContent = '请输入口令';
+        error.style.display = 'block';
+        return;
+      }
+      
+      const plaintext = await decryptContent(pendingEncrypted.content, passphrase);
+      if (plaintext === null) {
+        error.textContent = '口令错误，无法解密';
+        error.style.display = 'block';
+        return;
+      }
+      
+      setEditorContent(plaintext);
+      if (pendingEncrypted.enabled) {
+        quill.enable();
+        setStatus('ready', '已解密');
+      } else {
+        setStatus('locked', '只读模式');
+      }
+      pendingEncrypted = null;
+      closeDecryptModal();
+    }
+    
+    // 加载笔记
+    async function loadNote() {
+      try {
+        const response = await fetch(shareToken ? noteApiUrl + '?share=' + encodeURIComponent(shareToken) : noteApiUrl);
         const data = await response.json();
         
-        if (data.exists === false) {
+        if (data.trashed) {
+          // 笔记已被管理员移入回收站，彻底删除前不能查看或重新使用此路径
+          initEditor(true);
+          setStatus('locked', '已删除');
+          showMessage('此笔记已被删除', 'error');
+        } else if (data.exists === false) {
           // 新笔记
           initEditor();
           setStatus('ready', '新笔记');
+          document.getElementById('templateBtn').style.display = '';
+          updateEncryptButton();
+          
+          if (data.expired) {
+            showMessage('此笔记已过期并被删除', 'error');
+          }
+          
+          // 从 /?template=名称 跳转而来时使用模板内容
+          const templateName = new URLSearchParams(window.location.search).get('template');
+          if (templateName) {
+            history.replaceState(null, '', window.location.pathname);
+            applyTemplate(templateName);
+          }
         } else if (data.requires_password) {
           // 需要密码才能查看
           isLocked = true;
@@ -1099,9 +2589,16 @@ function getNoteEditorHTML(path: string): string {
           updateLockButton(true, lockType);
           document.getElementById('unlockDescription').textContent = '此笔记需要密码才能查看';
           document.getElementById('unlockModal').classList.add('show');
+          
+          if (shareToken) {
+            showMessage('分享链接无效或已过期', 'error');
+          }
         } else {
           // 加载内容
           viewCount = data.view_count || 0;
+          noteVersion = data.version ?? null;
+          noteFormat = data.format || 'html';
+          noteEncrypted = !!data.encrypted;
           document.getElementById('viewCount').textContent = viewCount;
           
           if (data.is_locked) {
@@ -1109,34 +2606,49 @@ function getNoteEditorHTML(path: string): string {
             lockType = data.lock_type;
             updateLockButton(true, lockType);
             
-            if (lockType === 'write') {
-              // 限制编辑模式 - 可以查看但不能编辑
-              initEditor(true);
-              if (data.content) {
-                quill.root.innerHTML = data.content;
+            if (shareToken && !data.share_access) {
+              showMessage('分享链接无效或已过期', 'error');
+            }
+            
+            if (data.share_access) {
+              // 通过分享链接打开：编辑链接可以直接编辑，查看链接只能查看
+              noteAccess = data.share_access;
+              initEditor(noteAccess !== 'edit');
+              await showNoteContent(data.content, data.html);
+              if (noteAccess === 'edit') {
+                setStatus('ready', '分享链接');
+              } else {
+                showLockNotice('通过分享链接只读访问，输入密码以编辑');
+                setStatus('locked', '只读模式');
               }
+            } else if (lockType === 'write' || lockType === 'append') {
+              // 限制编辑模式 - 可以查看但不能编辑（追加锁定还可以追加内容）
+              initEditor(true);
+              await showNoteContent(data.content, data.html);
               showLockNotice('点击输入密码以编辑');
+              showAppendBar(lockType === 'append');
               setStatus('locked', '只读模式');
             } else {
               // 不应该到这里，read锁定应该在前面就被拦截
               initEditor();
-              if (data.content) {
-                quill.root.innerHTML = data.content;
-              }
+              await showNoteContent(data.content, data.html);
             }
           } else {
             // 正常加载
             initEditor();
-            if (data.content) {
-              quill.root.innerHTML = data.content;
-            }
             setStatus('ready', '就绪');
+            await showNoteContent(data.content, data.html);
           }
           
           if (data.updated_at) {
             lastSavedTime = new Date(data.updated_at);
             updateLastSaved();
           }
+          
+          updateExpiryStatus(data);
+          applyEncryptionMode();
+          connectCollab();
+          loadTags();
         }
       } catch (error) {
         console.error('Error loading note:', error);
@@ -1145,94 +2657,736 @@ function getNoteEditorHTML(path: string): string {
       }
     }
     
-    // 保存笔记
-    async function saveNote() {
-      if (!quill || quill.getText().trim() === '') {
+    async function showTemplateModal() {
+      document.getElementById('templateModal').classList.add('show');
+      
+      const list = document.getElementById('templateList');
+      list.innerHTML = '<div class="history-empty">加载中...</div>';
+      
+      try {
+        const response = await fetch('/api/templates');
+        const data = await response.json();
+        
+        if (!data.templates || data.templates.length === 0) {
+          list.innerHTML = '<div class="history-empty">暂无模板，可在管理后台添加</div>';
+          return;
+        }
+        
+        list.innerHTML = '';
+        data.templates.forEach((template) => {
+          const item = document.createElement('div');
+          item.className = 'history-item';
+          
+          const name = document.createElement('div');
+          name.textContent = template.name;
+          const meta = document.createElement('div');
+          meta.className = 'history-item-meta';
+          meta.textContent = (template.format === 'markdown' ? 'Markdown' : '富文本') +
+            (template.description ? ' · ' + template.description : '');
+          
+          item.appendChild(name);
+          item.appendChild(meta);
+          item.onclick = () => applyTemplate(template.name);
+          list.appendChild(item);
+        });
+      } catch (error) {
+        console.error('Error loading templates:', error);
+        list.innerHTML = '<div class="history-empty">加载失败</div>';
+      }
+    }
+    
+    function closeTemplateModal() {
+      document.getElementById('templateModal').classList.remove('show');
+    }
+    
+    // 使用模板内容开始新笔记，日期、时间等占位符由服务器按浏览器时区替换
+    async function applyTemplate(name) {
+      if (getEditorText().trim() !== '' && !confirm('模板内容将替换当前内容，确定继续吗？')) {
+        return;
+      }
+      
+      try {
+        const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        const response = await fetch('/api/templates/' + encodeURIComponent(name) +
+          '?path=' + encodeURIComponent(notePath) + '&tz=' + encodeURIComponent(timeZone));
+        
+        if (!response.ok) {
+          showMessage(response.status === 404 ? '模板不存在' : '加载模板失败', 'error');
+          return;
+        }
+        
+        const data = await response.json();
+        closeTemplateModal();
+        
+        if (data.format !== noteFormat) {
+          setEditorFormat(data.format);
+        }
+        setEditorContent(data.content);
+        scheduleAutoSave();
+      } catch (error) {
+        console.error('Error applying template:', error);
+        showMessage('加载模板失败', 'error');
+      }
+    }
+    
+    // 加载笔记标签，访问锁定的笔记需要先解锁
+    async function loadTags() {
+      try {
+        const response = await fetch(noteApiUrl + '/tags', {
+          headers: noteAuthHeaders()
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          noteTags = data.tags;
+          renderTags();
+        }
+      } catch (error) {
+        console.error('Error loading tags:', error);
+      }
+    }
+    
+    // 渲染标签，锁定的笔记未解锁时只能查看
+    function renderTags() {
+      const editable = !isLocked || noteAccess === 'edit';
+      const list = document.getElementById('tagList');
+      list.innerHTML = '';
+      
+      noteTags.forEach(tag => {
+        const chip = document.createElement('span');
+        chip.className = 'tag-chip';
+        chip.textContent = '#' + tag;
+        
+        if (editable) {
+          const remove = document.createElement('button');
+          remove.className = 'tag-remove';
+          remove.textContent = '×';
+          remove.title = '移除标签';
+          remove.onclick = () => removeTag(tag);
+          chip.appendChild(remove);
+        }
+        
+        list.appendChild(chip);
+      });
+      
+      document.getElementById('tagInput').style.display = editable ? '' : 'none';
+      document.getElementById('tagEditor').style.display = editable || noteTags.length > 0 ? '' : 'none';
+    }
+    
+    // 回车或逗号添加标签
+    function handleTagInput(event) {
+      if (event.key !== 'Enter' && event.key !== ',') {
+        return;
+      }
+      
+      event.preventDefault();
+      const input = event.target;
+      const tag = input.value.trim();
+      if (tag) {
+        input.value = '';
+        addTag(tag);
+      }
+    }
+    
+    // 添加标签
+    async function addTag(tag) {
+      try {
+        const response = await fetch(noteApiUrl + '/tags', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': CSRF_TOKEN, ...noteAuthHeaders() },
+          body: JSON.stringify({ tag })
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          noteTags = data.tags;
+          renderTags();
+        } else {
+          handleTagError(response, '添加标签失败');
+        }
+      } catch (error) {
+        console.error('Error adding tag:', error);
+        showMessage('添加标签失败', 'error');
+      }
+    }
+    
+    // 移除标签
+    async function removeTag(tag) {
+      try {
+        const response = await fetch(noteApiUrl + '/tags/' + encodeURIComponent(tag), {
+          method: 'DELETE',
+          headers: { 'X-CSRF-Token': CSRF_TOKEN, ...noteAuthHeaders() }
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          noteTags = data.tags;
+          renderTags();
+        } else {
+          handleTagError(response, '移除标签失败');
+        }
+      } catch (error) {
+        console.error('Error removing tag:', error);
+        showMessage('移除标签失败', 'error');
+      }
+    }
+    
+    async function handleTagError(response, fallback) {
+      if (response.status === 403) {
+        showUnlockModal();
+      } else if (response.status === 404) {
+        showMessage('请先保存笔记', 'error');
+      } else if (response.status === 400) {
+        const data = await response.json().catch(() => ({}));
+        showMessage(data.error === 'Too many tags' ? '标签数量已达上限' : '标签只能包含文字、数字、- 和 _', 'error');
+      } else {
+        showMessage(fallback, 'error');
+      }
+    }
+    
+    // 保存笔记
+    async function saveNote() {
+      if (!quill || getEditorText().trim() === '') {
+        return;
+      }
+      
+      // 存在未处理的冲突时不再保存
+      if (pendingConflict) {
+        document.getElementById('conflictModal').classList.add('show');
+        return;
+      }
+      
+      const body = await noteSaveBody();
+      if (!body) {
+        return;
+      }
+      
+      try {
+        setStatus('saving', '正在保存...');
+        
+        if (noteVersion !== null) {
+          body.base_version = noteVersion;
+        }
+        
+        const response = await fetch(noteApiUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId, 'X-CSRF-Token': CSRF_TOKEN, ...noteAuthHeaders() },
+          body: JSON.stringify(body)
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          const created = noteVersion === null;
+          noteVersion = data.version;
+          // 保存锁定笔记时服务器会续期会话令牌
+          if (data.token) {
+            noteToken = data.token;
+          }
+          // 笔记已创建，不再提供模板，可以开始添加标签
+          document.getElementById('templateBtn').style.display = 'none';
+          updateEncryptButton();
+          // 加密状态已确定，未加密的新笔记开始协作
+          if (created) {
+            connectCollab();
+          }
+          renderTags();
+          setStatus('ready', '已保存');
+          lastSavedTime = new Date();
+          updateLastSaved();
+          sendCollabSnapshot();
+        } else if (response.status === 409) {
+          const conflict = await response.json();
+          
+          if (collab.connected && typeof conflict.content === 'string') {
+            // 协作模式下编辑器内容已与其他协作者实时同步，以当前内容为准重新保存
+            noteVersion = conflict.version;
+            saveTimeout = setTimeout(saveNote, 1000);
+          } else {
+            showConflictModal(conflict);
+          }
+        } else if (response.status === 403) {
+          const data = await response.json().catch(() => ({}));
+          if (data.error === 'Invalid CSRF token') {
+            // 页面的CSRF令牌已过期或Cookie被清除
+            setStatus('error', '页面已过期');
+            showMessage('页面已过期，请刷新后重试', 'error');
+          } else {
+            // 需要密码
+            setStatus('error', '需要密码');
+            showUnlockModal();
+          }
+        } else if (response.status === 410) {
+          setStatus('error', '已删除');
+          showMessage('此笔记已被删除，无法保存', 'error');
+        } else {
+          setStatus('error', '保存失败');
+          showMessage('保存失败', 'error');
+        }
+      } catch (error) {
+        console.error('Error saving note:', error);
+        setStatus('error', '保存失败');
+        showMessage('保存失败', 'error');
+      }
+    }
+    
+    // 手动保存笔记
+    async function saveNoteManually() {
+      // 检查编辑器是否为只读状态
+      if (quill && quill.root.getAttribute('contenteditable') === 'false') {
+        showMessage('笔记已锁定，请先解锁', 'warning');
+        return;
+      }
+      
+      // 清除自动保存的定时器
+      clearTimeout(saveTimeout);
+      
+      // 调用保存函数
+      await saveNote();
+      
+      // 显示保存成功消息
+      if (lastSavedTime) {
+        showMessage('保存成功', 'success');
+      }
+    }
+    
+    // 解锁笔记
+    async function unlockNote() {
+      const password = document.getElementById('unlockPassword').value;
+      if (!password) {
+        document.getElementById('unlockError').style.display = 'block';
+        document.getElementById('unlockError').textContent = '请输入密码';
+        return;
+      }
+      
+      try {
+        const response = await fetch(noteApiUrl + '/unlock', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId, 'X-CSRF-Token': CSRF_TOKEN },
+          body: JSON.stringify({ password })
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          noteToken = data.token;
+          noteAccess = data.access;
+          updateShareButton();
+          subscribeNoteEvents();
+          document.getElementById('unlockModal').classList.remove('show');
+          document.getElementById('unlockPassword').value = '';
+          document.getElementById('unlockError').style.display = 'none';
+          
+          // 根据获得的权限和锁定类型处理
+          if (data.access === 'view') {
+            // 查看密码 - 只能查看，输入编辑密码后才能编辑
+            noteFormat = data.note.format || 'html';
+            noteEncrypted = !!data.note.encrypted;
+            initEditor(true);
+            await showNoteContent(data.note.content, data.note.html);
+            document.getElementById('unlockDescription').textContent = '输入编辑密码以编辑此笔记';
+            showLockNotice('只读访问，输入编辑密码以编辑');
+            setStatus('locked', '只读模式');
+            showMessage('笔记已解锁，当前为只读访问', 'success');
+          } else if (data.note.lock_type === 'write' || data.note.lock_type === 'append') {
+            // 编辑锁定 - 现在可以编辑了
+            showAppendBar(false);
+            // 保存当前内容
+            const currentContent = quill ? getEditorContent() : data.note.content;
+            const hasContent = currentContent && currentContent.trim() !== '' && currentContent !== '<p><br></p>';
+            
+            // 重新初始化编辑器（带工具栏，传递是否有内容）
+            initEditor(false, hasContent);
+            
+            // 恢复内容
+            if (currentContent) {
+              setEditorContent(currentContent);
+            }
+            
+            hideLockNotice();
+            setStatus('ready', '已解锁');
+            showMessage('笔记已解锁，现在可以编辑', 'success');
+          } else {
+            // 访问锁定 - 现在可以查看和编辑
+            noteFormat = data.note.format || 'html';
+            noteEncrypted = !!data.note.encrypted;
+            initEditor();
+            await showNoteContent(data.note.content, data.note.html);
+            hideLockNotice();
+            setStatus('ready', '已解锁');
+            showMessage('笔记已解锁', 'success');
+          }
+          
+          viewCount = data.note.view_count || 0;
+          noteVersion = data.note.version ?? null;
+          document.getElementById('viewCount').textContent = viewCount;
+          updateExpiryStatus(data.note);
+          applyEncryptionMode();
+          
+          // 使用解锁后的会话令牌重新加入协作，以获得相应的读写权限
+          connectCollab();
+          loadTags();
+        } else if (response.status === 410) {
+          document.getElementById('unlockModal').classList.remove('show');
+          showMessage('此笔记已过期并被删除', 'error');
+        } else {
+          document.getElementById('unlockError').style.display = 'block';
+          document.getElementById('unlockError').textContent = passwordErrorText(response, '密码错误，请重试');
+        }
+      } catch (error) {
+        console.error('Error unlocking note:', error);
+        showMessage('解锁失败', 'error');
+      }
+    }
+    
+    // 附件：图片插入为图片，其他文件插入为下载链接
+    function pickAttachment(accept) {
+      const input = document.getElementById('attachmentInput');
+      input.accept = accept;
+      input.value = '';
+      input.onchange = () => {
+        if (input.files.length > 0) {
+          insertAttachments(Array.from(input.files));
+        }
+      };
+      input.click();
+    }
+    
+    async function uploadAttachment(file) {
+      const form = new FormData();
+      form.append('file', file);
+      
+      const response = await fetch(noteApiUrl + '/attachments', {
+        method: 'POST',
+        headers: { 'X-CSRF-Token': CSRF_TOKEN, ...noteAuthHeaders() },
+        body: form
+      });
+      
+      if (!response.ok) {
+        if (response.status === 413) {
+          throw new Error('文件过大：' + file.name);
+        }
+        throw new Error(response.status === 403 ? '需要密码才能上传附件' : '上传失败：' + file.name);
+      }
+      
+      return response.json();
+    }
+    
+    async function insertAttachments(files) {
+      if (!quill || !quill.isEnabled()) {
+        showMessage('只读模式下无法上传附件', 'error');
+        return;
+      }
+      
+      // 附件以明文保存在服务器上
+      if (noteEncrypted) {
+        showMessage('加密笔记不能上传附件', 'error');
+        return;
+      }
+      
+      if (isMarkdown()) {
+        await insertMarkdownAttachments(files);
+        return;
+      }
+      
+      const selection = quill.getSelection(true);
+      let index = selection ? selection.index : quill.getLength() - 1;
+      
+      for (const file of files) {
+        try {
+          setStatus('saving', '正在上传...');
+          const data = await uploadAttachment(file);
+          
+          if (data.content_type.startsWith('image/') && data.content_type !== 'image/svg+xml') {
+            quill.insertEmbed(index, 'image', data.url, 'user');
+            index += 1;
+          } else {
+            const label = '📎 ' + data.filename;
+            quill.insertText(index, label, 'link', data.url, 'user');
+            index += label.length;
+          }
+          
+          quill.setSelection(index, 0, 'silent');
+        } catch (error) {
+          console.error('Error uploading attachment:', error);
+          setStatus('error', '上传失败');
+          showMessage(error.message, 'error');
+        }
+      }
+    }
+    
+    // Markdown模式：在光标处插入图片或链接语法
+    async function insertMarkdownAttachments(files) {
+      const input = document.getElementById('markdownInput');
+      
+      for (const file of files) {
+        try {
+          setStatus('saving', '正在上传...');
+          const data = await uploadAttachment(file);
+          const name = data.filename.replace(/[\\[\\]]/g, '');
+          const text = data.content_type.startsWith('image/') && data.content_type !== 'image/svg+xml'
+            ? '![' + name + '](' + data.url + ')'
+            : '[📎 ' + name + '](' + data.url + ')';
+          
+          input.setRangeText(text, input.selectionStart, input.selectionEnd, 'end');
+          input.dispatchEvent(new Event('input'));
+        } catch (error) {
+          console.error('Error uploading attachment:', error);
+          setStatus('error', '上传失败');
+          showMessage(error.message, 'error');
+        }
+      }
+    }
+    
+    // 过期设置
+    function parseServerTime(value) {
+      return new Date(value.replace(' ', 'T') + 'Z');
+    }
+    
+    function updateExpiryStatus(note) {
+      const status = document.getElementById('expiryStatus');
+      noteExpiry = {
+        expires_at: note.expires_at || null,
+        remaining_views: note.remaining_views ?? null,
+        burn_after_reading: !!note.burn_after_reading
+      };
+      
+      let text = '';
+      if (noteExpiry.burn_after_reading) {
+        text = '🔥 阅后即焚';
+      } else if (noteExpiry.remaining_views !== null) {
+        text = '⏳ 剩余 ' + noteExpiry.remaining_views + ' 次查看';
+      }
+      
+      if (noteExpiry.expires_at) {
+        text += (text ? '，' : '⏳ ') + parseServerTime(noteExpiry.expires_at).toLocaleString() + ' 过期';
+      }
+      
+      status.textContent = text;
+      status.style.display = text ? '' : 'none';
+    }
+    
+    function showExpiryModal() {
+      let mode = 'none';
+      if (noteExpiry && noteExpiry.burn_after_reading) {
+        mode = 'burn';
+      } else if (noteExpiry && noteExpiry.remaining_views !== null) {
+        mode = 'views';
+        document.getElementById('expiryViews').value = noteExpiry.remaining_views;
+      } else if (noteExpiry && noteExpiry.expires_at) {
+        mode = 'time';
+      }
+      
+      // datetime-local 使用本地时间
+      const expiresAt = noteExpiry && noteExpiry.expires_at
+        ? parseServerTime(noteExpiry.expires_at)
+        : new Date(Date.now() + 24 * 60 * 60 * 1000);
+      const local = new Date(expiresAt.getTime() - expiresAt.getTimezoneOffset() * 60000);
+      document.getElementById('expiryTime').value = local.toISOString().slice(0, 16);
+      
+      document.getElementById('expiryMode').value = mode;
+      updateExpiryFields();
+      document.getElementById('expiryModal').classList.add('show');
+    }
+    
+    function closeExpiryModal() {
+      document.getElementById('expiryModal').classList.remove('show');
+    }
+    
+    function updateExpiryFields() {
+      const mode = document.getElementById('expiryMode').value;
+      const descriptions = {
+        none: '笔记将一直保留',
+        time: '到达指定时间后笔记将被删除',
+        views: '笔记被查看指定次数后将被删除',
+        burn: '笔记被打开一次后立即删除（包括您自己刷新页面）'
+      };
+      
+      document.getElementById('expiryDescription').textContent = descriptions[mode];
+      document.getElementById('expiryTimeGroup').style.display = mode === 'time' ? '' : 'none';
+      document.getElementById('expiryViewsGroup').style.display = mode === 'views' ? '' : 'none';
+    }
+    
+    async function saveExpiry() {
+      if (!quill || getEditorText().trim() === '') {
+        showMessage('请先输入笔记内容', 'error');
         return;
       }
       
-      try {
-        setStatus('saving', '正在保存...');
-        const content = quill.root.innerHTML;
-        const body = { content };
-        
-        if (notePassword) {
-          body.password = notePassword;
+      const content = await noteSaveBody();
+      if (!content) {
+        showMessage('请先解密笔记', 'error');
+        return;
+      }
+      
+      const mode = document.getElementById('expiryMode').value;
+      const body = {
+        ...content,
+        expires_at: null,
+        max_views: null,
+        burn_after_reading: mode === 'burn'
+      };
+      
+      if (mode === 'time') {
+        const time = new Date(document.getElementById('expiryTime').value);
+        if (isNaN(time.getTime()) || time.getTime() <= Date.now()) {
+          showMessage('请选择将来的时间', 'error');
+          return;
         }
-        
-        const response = await fetch('/api/note/' + notePath, {
+        body.expires_at = time.toISOString();
+      } else if (mode === 'views') {
+        body.max_views = parseInt(document.getElementById('expiryViews').value);
+      }
+      
+      if (noteVersion !== null) {
+        body.base_version = noteVersion;
+      }
+      
+      try {
+        const response = await fetch(noteApiUrl, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId, 'X-CSRF-Token': CSRF_TOKEN, ...noteAuthHeaders() },
           body: JSON.stringify(body)
         });
         
         if (response.ok) {
+          const data = await response.json();
+          const created = noteVersion === null;
+          noteVersion = data.version;
+          if (data.token) {
+            noteToken = data.token;
+          }
+          closeExpiryModal();
+          updateExpiryStatus({
+            expires_at: body.expires_at ? new Date(body.expires_at).toISOString().slice(0, 19).replace('T', ' ') : null,
+            remaining_views: mode === 'burn' ? 1 : body.max_views,
+            burn_after_reading: body.burn_after_reading
+          });
+          if (noteExpiry.remaining_views !== null) {
+            disconnectCollab();
+            collab.users = [];
+            collab.cursors = {};
+            renderPresence();
+            renderCursors();
+          } else if (created) {
+            connectCollab();
+          }
           setStatus('ready', '已保存');
-          lastSavedTime = new Date();
-          updateLastSaved();
+          showMessage('过期设置已保存', 'success');
+        } else if (response.status === 409) {
+          closeExpiryModal();
+          showConflictModal(await response.json());
         } else if (response.status === 403) {
-          // 需要密码
-          setStatus('error', '需要密码');
-          showUnlockModal();
+          showMessage('需要密码才能修改过期设置', 'error');
         } else {
-          setStatus('error', '保存失败');
-          showMessage('保存失败', 'error');
+          showMessage('过期设置无效', 'error');
         }
       } catch (error) {
-        console.error('Error saving note:', error);
-        setStatus('error', '保存失败');
-        showMessage('保存失败', 'error');
+        console.error('Error saving expiry:', error);
+        showMessage('保存过期设置失败', 'error');
       }
     }
     
-    // 手动保存笔记
-    async function saveNoteManually() {
-      // 检查编辑器是否为只读状态
-      if (quill && quill.root.getAttribute('contenteditable') === 'false') {
-        showMessage('笔记已锁定，请先解锁', 'warning');
+    // 设置锁定
+    async function setLock() {
+      const lockType = document.getElementById('lockType').value;
+      const password = document.getElementById('lockPassword').value;
+      const passwordConfirm = document.getElementById('lockPasswordConfirm').value;
+      // 访问锁定可以另设编辑密码，此时访问密码只能查看
+      const editPassword = lockType === 'read' ? document.getElementById('lockEditPassword').value : '';
+      
+      if (!password) {
+        showMessage('请输入密码', 'error');
         return;
       }
       
-      // 清除自动保存的定时器
-      clearTimeout(saveTimeout);
+      if (password !== passwordConfirm) {
+        showMessage('两次输入的密码不一致', 'error');
+        return;
+      }
       
-      // 调用保存函数
-      await saveNote();
+      if (editPassword && editPassword === password) {
+        showMessage('编辑密码不能与访问密码相同', 'error');
+        return;
+      }
       
-      // 显示保存成功消息
-      if (lastSavedTime) {
-        showMessage('保存成功', 'success');
+      try {
+        const response = await fetch(noteApiUrl + '/lock', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId, 'X-CSRF-Token': CSRF_TOKEN, ...noteAuthHeaders() },
+          body: JSON.stringify(editPassword
+            ? { view_password: password, edit_password: editPassword }
+            : { password, lock_type: lockType })
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          isLocked = true;
+          noteToken = data.token;
+          noteAccess = 'edit';
+          updateLockButton(true, lockType);
+          closeLockModal();
+          showMessage('笔记已锁定', 'success');
+          
+          if (lockType === 'write' || lockType === 'append') {
+            // 编辑锁定 - 需要将编辑器设置为只读模式
+            // 保存当前内容
+            const currentContent = quill ? getEditorContent() : '';
+            
+            // 重新初始化为只读编辑器（无工具栏）
+            initEditor(true, true);
+            
+            // 恢复内容
+            if (currentContent) {
+              setEditorContent(currentContent);
+            }
+            
+            showLockNotice('输入密码以编辑');
+            showAppendBar(lockType === 'append');
+            setStatus('locked', '只读模式');
+          }
+        } else {
+          showMessage('锁定失败', 'error');
+        }
+      } catch (error) {
+        console.error('Error locking note:', error);
+        showMessage('锁定失败', 'error');
       }
     }
     
-    // 解锁笔记
-    async function unlockNote() {
-      const password = document.getElementById('unlockPassword').value;
+    // 解除锁定
+    async function removeLock() {
+      const password = document.getElementById('removeLockPassword').value;
+      
       if (!password) {
-        document.getElementById('unlockError').style.display = 'block';
-        document.getElementById('unlockError').textContent = '请输入密码';
+        document.getElementById('removeLockError').style.display = 'block';
+        document.getElementById('removeLockError').textContent = '请输入密码';
         return;
       }
       
       try {
-        const response = await fetch('/api/note/' + notePath + '/unlock', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+        // 调用解除锁定API
+        const response = await fetch(noteApiUrl + '/lock', {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId, 'X-CSRF-Token': CSRF_TOKEN },
           body: JSON.stringify({ password })
         });
         
         if (response.ok) {
-          const data = await response.json();
-          notePassword = password;
-          document.getElementById('unlockModal').classList.remove('show');
-          document.getElementById('unlockPassword').value = '';
-          document.getElementById('unlockError').style.display = 'none';
+          // 先保存当前的锁定类型
+          const previousLockType = lockType;
           
-          // 根据锁定类型处理
-          if (data.note.lock_type === 'write') {
-            // 编辑锁定 - 现在可以编辑了
+          isLocked = false;
+          lockType = null;
+          noteToken = null;
+          noteAccess = null;
+          updateLockButton(false, null);
+          closeRemoveLockModal();
+          hideLockNotice();
+          showAppendBar(false);
+          
+          // 如果之前是编辑锁定，需要重新初始化编辑器以恢复工具栏
+          if ((previousLockType === 'write' || previousLockType === 'append') && quill) {
             // 保存当前内容
-            const currentContent = quill ? quill.root.innerHTML : data.note.content;
+            const currentContent = getEditorContent();
             const hasContent = currentContent && currentContent.trim() !== '' && currentContent !== '<p><br></p>';
             
             // 重新初始化编辑器（带工具栏，传递是否有内容）
@@ -1240,145 +3394,545 @@ function getNoteEditorHTML(path: string): string {
             
             // 恢复内容
             if (currentContent) {
-              quill.root.innerHTML = currentContent;
+              setEditorContent(currentContent);
             }
+          }
+          
+          setStatus('ready', '就绪');
+          showMessage('锁定已解除', 'success');
+        } else if (response.status === 403 || response.status === 429) {
+          document.getElementById('removeLockError').style.display = 'block';
+          document.getElementById('removeLockError').textContent = passwordErrorText(response, '密码错误');
+        } else {
+          showMessage('解除锁定失败', 'error');
+        }
+      } catch (error) {
+        console.error('Error removing lock:', error);
+        showMessage('解除锁定失败', 'error');
+      }
+    }
+    
+    // 实时协作：服务器为每个delta按顺序编号，基于旧版本的delta会被拒绝，
+    // 客户端在收到其他协作者的delta时变换本地未确认的修改，再重新发送
+    const collab = {
+      socket: null,
+      connected: false,
+      id: null,
+      rev: 0,
+      inflight: null,
+      buffer: null,
+      canWrite: false,
+      users: [],
+      cursors: {},
+      retryTimer: null
+    };
+    
+    function collabName() {
+      let name = localStorage.getItem('collabName');
+      if (!name) {
+        name = '访客' + Math.floor(Math.random() * 1000);
+        localStorage.setItem('collabName', name);
+      }
+      return name;
+    }
+    
+    // 限制查看次数的笔记不参加协作（服务器也会拒绝），以免加入者绕过次数限制。
+    // 新笔记首次保存后才能确定是否加密，在此之前不连接，以免广播启用加密前输入的明文
+    function connectCollab() {
+      if (!('WebSocket' in window) || !quill || isMarkdown() || noteVersion === null || noteEncrypted || (noteExpiry && noteExpiry.remaining_views !== null)) {
+        return;
+      }
+      
+      disconnectCollab();
+      
+      const protocol = window.location.protocol === 'https:' ? 'wss://' : 'ws://';
+      const socket = new WebSocket(protocol + window.location.host + noteApiUrl + '/ws');
+      collab.socket = socket;
+      
+      socket.onopen = () => {
+        socket.send(JSON.stringify({
+          type: 'join',
+          name: collabName(),
+          token: noteToken || undefined,
+          snapshot: quill.getContents().ops
+        }));
+      };
+      
+      socket.onmessage = (event) => {
+        try {
+          handleCollabMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Error handling collab message:', error);
+        }
+      };
+      
+      socket.onclose = (event) => {
+        if (collab.socket !== socket) {
+          return;
+        }
+        
+        collab.socket = null;
+        collab.connected = false;
+        collab.users = [];
+        collab.cursors = {};
+        renderPresence();
+        renderCursors();
+        
+        // 非权限问题导致的断开，稍后重连
+        if (event.code !== 4003) {
+          collab.retryTimer = setTimeout(connectCollab, 5000);
+        }
+      };
+    }
+    
+    function disconnectCollab() {
+      clearTimeout(collab.retryTimer);
+      
+      if (collab.socket) {
+        const socket = collab.socket;
+        collab.socket = null;
+        socket.close();
+      }
+      
+      collab.connected = false;
+      collab.inflight = null;
+      collab.buffer = null;
+    }
+    
+    function sendCollab(message) {
+      if (collab.connected && collab.socket && collab.socket.readyState === WebSocket.OPEN) {
+        collab.socket.send(JSON.stringify(message));
+      }
+    }
+    
+    function queueCollabDelta(delta) {
+      if (!collab.connected || !collab.canWrite) {
+        return;
+      }
+      
+      collab.buffer = collab.buffer ? collab.buffer.compose(delta) : delta;
+      flushCollab();
+      sendCollab({ type: 'cursor', range: quill.getSelection() });
+    }
+    
+    function flushCollab() {
+      if (!collab.connected || collab.inflight || !collab.buffer) {
+        return;
+      }
+      
+      collab.inflight = collab.buffer;
+      collab.buffer = null;
+      sendCollab({ type: 'delta', rev: collab.rev, delta: collab.inflight.ops });
+    }
+    
+    // 与服务器同步时提交当前内容作为快照，便于新加入者快速加载
+    function sendCollabSnapshot() {
+      if (!collab.inflight && !collab.buffer && quill) {
+        sendCollab({ type: 'snapshot', rev: collab.rev, snapshot: quill.getContents().ops });
+      }
+    }
+    
+    function handleCollabMessage(message) {
+      const Delta = Quill.import('delta');
+      
+      switch (message.type) {
+        case 'init': {
+          collab.connected = true;
+          collab.id = message.id;
+          collab.rev = message.rev;
+          collab.canWrite = message.can_write;
+          collab.inflight = null;
+          collab.buffer = null;
+          
+          if (message.snapshot) {
+            let doc = new Delta(message.snapshot);
+            message.ops.forEach((op) => {
+              doc = doc.compose(new Delta(op));
+            });
             
-            hideLockNotice();
-            setStatus('ready', '已解锁');
-            showMessage('笔记已解锁，现在可以编辑', 'success');
-          } else {
-            // 访问锁定 - 现在可以查看和编辑
-            initEditor();
-            if (data.note.content) {
-              quill.root.innerHTML = data.note.content;
+            const diff = quill.getContents().diff(doc);
+            if (diff.ops.length > 0) {
+              quill.updateContents(diff, 'api');
             }
-            setStatus('ready', '已解锁');
-            showMessage('笔记已解锁', 'success');
           }
+          break;
+        }
+        case 'ack':
+          collab.rev = message.rev;
+          collab.inflight = null;
+          flushCollab();
+          break;
+        case 'reject':
+          // 此前的远程delta已变换过本地修改，直接基于最新版本重发
+          if (collab.inflight) {
+            collab.socket.send(JSON.stringify({ type: 'delta', rev: collab.rev, delta: collab.inflight.ops }));
+          }
+          break;
+        case 'delta': {
+          let remote = new Delta(message.delta);
           
-          viewCount = data.note.view_count || 0;
-          document.getElementById('viewCount').textContent = viewCount;
+          if (collab.inflight) {
+            const inflight = remote.transform(collab.inflight, true);
+            remote = collab.inflight.transform(remote, false);
+            collab.inflight = inflight;
+          }
+          
+          if (collab.buffer) {
+            const buffer = remote.transform(collab.buffer, true);
+            remote = collab.buffer.transform(remote, false);
+            collab.buffer = buffer;
+          }
+          
+          collab.rev = message.rev;
+          quill.updateContents(remote, 'api');
+          
+          Object.keys(collab.cursors).forEach((id) => {
+            const range = collab.cursors[id];
+            if (range && id !== message.id) {
+              collab.cursors[id] = { index: remote.transformPosition(range.index), length: range.length };
+            }
+          });
+          renderCursors();
+          break;
+        }
+        case 'presence': {
+          const cursors = {};
+          message.users.forEach((user) => {
+            cursors[user.id] = collab.cursors[user.id] || user.cursor;
+          });
+          collab.users = message.users;
+          collab.cursors = cursors;
+          renderPresence();
+          renderCursors();
+          break;
+        }
+        case 'cursor':
+          collab.cursors[message.id] = message.range;
+          renderCursors();
+          break;
+        case 'snapshot-request':
+          sendCollabSnapshot();
+          break;
+        case 'error':
+          console.warn('Collab error:', message.error);
+          break;
+      }
+    }
+    
+    function renderPresence() {
+      const list = document.getElementById('presenceList');
+      list.innerHTML = '';
+      
+      if (collab.users.length < 2) {
+        return;
+      }
+      
+      collab.users.forEach((user) => {
+        const avatar = document.createElement('div');
+        avatar.className = 'presence-user' + (user.id === collab.id ? ' self' : '');
+        avatar.style.background = user.color;
+        avatar.textContent = user.name.slice(0, 1);
+        avatar.title = user.id === collab.id ? user.name + '（我）' : user.name;
+        list.appendChild(avatar);
+      });
+    }
+    
+    function renderCursors() {
+      if (!quill) {
+        return;
+      }
+      
+      let layer = quill.container.querySelector('.collab-cursors');
+      if (!layer) {
+        layer = quill.addContainer('collab-cursors');
+      }
+      layer.innerHTML = '';
+      
+      collab.users.forEach((user) => {
+        const range = collab.cursors[user.id];
+        if (user.id === collab.id || !range) {
+          return;
+        }
+        
+        const index = Math.min(range.index, quill.getLength() - 1);
+        const bounds = quill.getBounds(index, 0);
+        
+        const caret = document.createElement('div');
+        caret.className = 'collab-cursor';
+        caret.style.left = bounds.left + 'px';
+        caret.style.top = (bounds.top + quill.container.scrollTop) + 'px';
+        caret.style.height = bounds.height + 'px';
+        caret.style.background = user.color;
+        
+        const label = document.createElement('span');
+        label.className = 'collab-cursor-label';
+        label.style.background = user.color;
+        label.textContent = user.name;
+        caret.appendChild(label);
+        
+        layer.appendChild(caret);
+      });
+    }
+    
+    // 密码连续输错后服务器通过 Retry-After 告知需要等待的秒数
+    function passwordErrorText(response, text) {
+      const retryAfter = parseInt(response.headers.get('Retry-After') || '0');
+      if (retryAfter > 0) {
+        const wait = retryAfter < 60 ? retryAfter + ' 秒' : Math.ceil(retryAfter / 60) + ' 分钟';
+        return (response.status === 429 ? '尝试次数过多' : '密码错误') + '，请 ' + wait + '后再试';
+      }
+      
+      return text;
+    }
+    
+    // 访问锁定笔记的数据时携带解锁后获得的会话令牌，通过分享链接打开时携带链接令牌
+    function noteAuthHeaders() {
+      if (noteToken) {
+        return { 'X-Note-Token': noteToken };
+      }
+      return shareToken ? { 'X-Note-Share': shareToken } : {};
+    }
+    
+    // 显示修订历史
+    async function showHistory() {
+      selectedRevisionId = null;
+      document.getElementById('restoreBtn').disabled = true;
+      document.getElementById('historyPreview').innerHTML = '<div class="history-empty">请选择一个版本</div>';
+      document.getElementById('historyModal').classList.add('show');
+      
+      const list = document.getElementById('historyList');
+      list.innerHTML = '<div class="history-empty">加载中...</div>';
+      
+      try {
+        const response = await fetch(noteApiUrl + '/revisions', {
+          headers: noteAuthHeaders()
+        });
+        
+        if (response.status === 404) {
+          list.innerHTML = '<div class="history-empty">暂无历史版本</div>';
+          return;
+        }
+        
+        if (response.status === 403) {
+          closeHistoryModal();
+          showUnlockModal();
+          return;
+        }
+        
+        const data = await response.json();
+        if (!data.revisions || data.revisions.length === 0) {
+          list.innerHTML = '<div class="history-empty">暂无历史版本</div>';
+          return;
+        }
+        
+        list.innerHTML = '';
+        data.revisions.forEach((revision) => {
+          const item = document.createElement('div');
+          item.className = 'history-item';
+          item.dataset.id = revision.id;
+          
+          const time = document.createElement('div');
+          time.textContent = new Date(revision.created_at).toLocaleString();
+          const meta = document.createElement('div');
+          meta.className = 'history-item-meta';
+          meta.textContent = '#' + revision.id + ' · ' + revision.size + ' 字节';
+          
+          item.appendChild(time);
+          item.appendChild(meta);
+          item.onclick = () => viewRevision(revision.id);
+          list.appendChild(item);
+        });
+      } catch (error) {
+        console.error('Error loading revisions:', error);
+        list.innerHTML = '<div class="history-empty">加载失败</div>';
+      }
+    }
+    
+    // 查看修订版本与当前内容的差异
+    async function viewRevision(id) {
+      selectedRevisionId = id;
+      document.querySelectorAll('.history-item').forEach((item) => {
+        item.classList.toggle('active', item.dataset.id === String(id));
+      });
+      
+      const preview = document.getElementById('historyPreview');
+      preview.innerHTML = '<div class="history-empty">加载中...</div>';
+      
+      try {
+        const response = await fetch(noteApiUrl + '/revisions/diff?from=' + id + '&to=current', {
+          headers: noteAuthHeaders()
+        });
+        
+        if (!response.ok) {
+          preview.innerHTML = '<div class="history-empty">加载失败</div>';
+          return;
+        }
+        
+        const data = await response.json();
+        preview.innerHTML = '';
+        
+        if (data.diff.every((line) => line.type === 'equal')) {
+          preview.innerHTML = '<div class="history-empty">与当前内容相同</div>';
         } else {
-          document.getElementById('unlockError').style.display = 'block';
-          document.getElementById('unlockError').textContent = '密码错误，请重试';
+          data.diff.forEach((line) => {
+            const row = document.createElement('div');
+            row.className = 'diff-line ' + line.type;
+            row.textContent = (line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  ') + line.text;
+            preview.appendChild(row);
+          });
         }
+        
+        document.getElementById('restoreBtn').disabled = !quill || quill.root.getAttribute('contenteditable') === 'false';
       } catch (error) {
-        console.error('Error unlocking note:', error);
-        showMessage('解锁失败', 'error');
+        console.error('Error loading revision diff:', error);
+        preview.innerHTML = '<div class="history-empty">加载失败</div>';
       }
     }
     
-    // 设置锁定
-    async function setLock() {
-      const lockType = document.getElementById('lockType').value;
-      const password = document.getElementById('lockPassword').value;
-      const passwordConfirm = document.getElementById('lockPasswordConfirm').value;
-      
-      if (!password) {
-        showMessage('请输入密码', 'error');
+    // 恢复选中的修订版本
+    async function restoreRevision() {
+      if (!selectedRevisionId) {
         return;
       }
       
-      if (password !== passwordConfirm) {
-        showMessage('两次输入的密码不一致', 'error');
+      if (!confirm('确定要恢复到此版本吗？当前内容会保留在历史中。')) {
         return;
       }
       
       try {
-        const response = await fetch('/api/note/' + notePath + '/lock', {
+        clearTimeout(saveTimeout);
+        const body = {};
+        
+        const response = await fetch(noteApiUrl + '/revisions/' + selectedRevisionId + '/restore', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ password, lock_type: lockType })
+          headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId, 'X-CSRF-Token': CSRF_TOKEN, ...noteAuthHeaders() },
+          body: JSON.stringify(body)
         });
         
         if (response.ok) {
-          isLocked = true;
-          notePassword = password;
-          updateLockButton(true, lockType);
-          closeLockModal();
-          showMessage('笔记已锁定', 'success');
-          
-          if (lockType === 'write') {
-            // 编辑锁定 - 需要将编辑器设置为只读模式
-            // 保存当前内容
-            const currentContent = quill ? quill.root.innerHTML : '';
-            
-            // 重新初始化为只读编辑器（无工具栏）
-            initEditor(true, true);
-            
-            // 恢复内容
-            if (currentContent) {
-              quill.root.innerHTML = currentContent;
-            }
-            
-            showLockNotice('输入密码以编辑');
-            setStatus('locked', '只读模式');
+          const data = await response.json();
+          noteVersion = data.version;
+          if (data.format && data.format !== noteFormat) {
+            setEditorFormat(data.format);
           }
+          setEditorContent(data.content);
+          lastSavedTime = new Date();
+          updateLastSaved();
+          setStatus('ready', '已恢复');
+          closeHistoryModal();
+          showMessage('已恢复到所选版本', 'success');
+        } else if (response.status === 403) {
+          closeHistoryModal();
+          showUnlockModal();
         } else {
-          showMessage('锁定失败', 'error');
+          showMessage('恢复失败', 'error');
         }
       } catch (error) {
-        console.error('Error locking note:', error);
-        showMessage('锁定失败', 'error');
+        console.error('Error restoring revision:', error);
+        showMessage('恢复失败', 'error');
       }
     }
     
-    // 解除锁定
-    async function removeLock() {
-      const password = document.getElementById('removeLockPassword').value;
+    // 将HTML拆分为顶层块（template中的内容不会执行脚本或加载资源）
+    function htmlBlocks(html) {
+      const template = document.createElement('template');
+      template.innerHTML = html || '';
+      return Array.from(template.content.childNodes).map((node) => node.outerHTML || node.textContent);
+    }
+    
+    function htmlText(html) {
+      const template = document.createElement('template');
+      template.innerHTML = html || '';
+      return Array.from(template.content.childNodes).map((node) => node.textContent).join('\\n');
+    }
+    
+    // 按块合并两个版本：保留双方各自新增的段落（Markdown按行合并）
+    function mergeBlocks(theirs, mine) {
+      const a = isMarkdown() ? theirs.split('\\n') : htmlBlocks(theirs);
+      const b = isMarkdown() ? mine.split('\\n') : htmlBlocks(mine);
+      const lcs = a.map(() => new Array(b.length + 1).fill(0));
+      lcs.push(new Array(b.length + 1).fill(0));
       
-      if (!password) {
-        document.getElementById('removeLockError').style.display = 'block';
-        document.getElementById('removeLockError').textContent = '请输入密码';
-        return;
+      for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+          lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
       }
       
-      try {
-        // 调用解除锁定API
-        const response = await fetch('/api/note/' + notePath + '/lock', {
-          method: 'DELETE',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ password })
-        });
-        
-        if (response.ok) {
-          // 先保存当前的锁定类型
-          const previousLockType = lockType;
-          
-          isLocked = false;
-          lockType = null;
-          notePassword = null;
-          updateLockButton(false, null);
-          closeRemoveLockModal();
-          hideLockNotice();
-          
-          // 如果之前是编辑锁定，需要重新初始化编辑器以恢复工具栏
-          if (previousLockType === 'write' && quill) {
-            // 保存当前内容
-            const currentContent = quill.root.innerHTML;
-            const hasContent = currentContent && currentContent.trim() !== '' && currentContent !== '<p><br></p>';
-            
-            // 重新初始化编辑器（带工具栏，传递是否有内容）
-            initEditor(false, hasContent);
-            
-            // 恢复内容
-            if (currentContent) {
-              quill.root.innerHTML = currentContent;
-            }
-          }
-          
-          setStatus('ready', '就绪');
-          showMessage('锁定已解除', 'success');
-        } else if (response.status === 403) {
-          document.getElementById('removeLockError').style.display = 'block';
-          document.getElementById('removeLockError').textContent = '密码错误';
+      const merged = [];
+      let i = 0;
+      let j = 0;
+      while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+          merged.push(a[i]);
+          i++;
+          j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+          merged.push(a[i++]);
         } else {
-          showMessage('解除锁定失败', 'error');
+          merged.push(b[j++]);
         }
-      } catch (error) {
-        console.error('Error removing lock:', error);
-        showMessage('解除锁定失败', 'error');
       }
+      
+      return merged.concat(a.slice(i), b.slice(j)).join(isMarkdown() ? '\\n' : '');
+    }
+    
+    // 显示保存冲突对话框，暂停自动保存直到用户做出选择
+    async function showConflictModal(conflict) {
+      clearTimeout(saveTimeout);
+      pendingConflict = conflict;
+      setStatus('error', '保存冲突');
+      
+      // 加密笔记的服务器版本先在本地解密
+      if (noteEncrypted && typeof conflict.content === 'string') {
+        conflict.content = await decryptContent(conflict.content) ?? undefined;
+      }
+      
+      document.getElementById('conflictMine').textContent = getEditorText();
+      const theirs = document.getElementById('conflictTheirs');
+      if (typeof conflict.content === 'string') {
+        theirs.textContent = isMarkdown() ? conflict.content : htmlText(conflict.content);
+        document.getElementById('conflictMergeBtn').disabled = false;
+      } else {
+        theirs.textContent = '（需要密码才能查看服务器版本）';
+        document.getElementById('conflictMergeBtn').disabled = true;
+      }
+      
+      document.getElementById('conflictModal').classList.add('show');
+    }
+    
+    async function resolveConflict(choice) {
+      const conflict = pendingConflict;
+      if (!conflict) {
+        return;
+      }
+      
+      document.getElementById('conflictModal').classList.remove('show');
+      pendingConflict = null;
+      noteVersion = conflict.version;
+      
+      if (choice === 'theirs') {
+        if (typeof conflict.content !== 'string') {
+          window.location.reload();
+          return;
+        }
+        
+        setEditorContent(conflict.content);
+        setStatus('ready', '已载入服务器版本');
+        return;
+      }
+      
+      if (choice === 'merge' && typeof conflict.content === 'string') {
+        setEditorContent(mergeBlocks(conflict.content, getEditorContent()));
+      }
+      
+      clearTimeout(saveTimeout);
+      await saveNote();
+    }
+    
+    function closeHistoryModal() {
+      document.getElementById('historyModal').classList.remove('show');
+      selectedRevisionId = null;
     }
     
     // UI辅助函数
@@ -1423,13 +3977,108 @@ function getNoteEditorHTML(path: string): string {
       
       if (locked) {
         lockIcon.textContent = '🔒';
-        lockText.textContent = type === 'read' ? '访问锁定' : '编辑锁定';
+        lockText.textContent = type === 'read' ? '访问锁定' : type === 'append' ? '追加锁定' : '编辑锁定';
         lockBtn.title = '点击解除锁定';
       } else {
         lockIcon.textContent = '🔓';
         lockText.textContent = '未锁定';
         lockBtn.title = '点击设置锁定';
       }
+      
+      updateShareButton();
+    }
+    
+    // 解锁或设置锁定后（持有会话令牌）可以生成分享链接
+    function updateShareButton() {
+      document.getElementById('shareBtn').style.display = isLocked && noteToken ? '' : 'none';
+    }
+    
+    // 订阅笔记变更事件（其他客户端保存、锁定或解除锁定）。EventSource无法携带请求头，
+    // 访问锁定的笔记通过查询参数传递会话令牌或分享链接，解锁后重新订阅
+    function subscribeNoteEvents() {
+      if (!('EventSource' in window)) {
+        return;
+      }
+      
+      if (noteEvents) {
+        noteEvents.close();
+      }
+      
+      const params = new URLSearchParams();
+      if (noteToken) {
+        params.set('token', noteToken);
+      }
+      if (shareToken) {
+        params.set('share', shareToken);
+      }
+      const query = params.toString();
+      const events = new EventSource(noteApiUrl + '/events' + (query ? '?' + query : ''));
+      noteEvents = events;
+      
+      events.addEventListener('saved', (event) => {
+        const data = JSON.parse(event.data);
+        
+        // 实时协作中的其他协作者保存的内容已同步到本地
+        if (data.client === clientId || (collab.connected && collab.users.length > 1)) {
+          return;
+        }
+        
+        if (data.version !== undefined && data.version === noteVersion) {
+          return;
+        }
+        
+        showRemoteChange('此笔记已在其他地方更新，是否重新加载？');
+      });
+      
+      events.addEventListener('locked', (event) => {
+        const data = JSON.parse(event.data);
+        if (data.client !== clientId) {
+          showRemoteChange('此笔记已被其他人锁定，是否重新加载？');
+        }
+      });
+      
+      events.addEventListener('unlocked', (event) => {
+        const data = JSON.parse(event.data);
+        if (data.client !== clientId) {
+          showRemoteChange('此笔记的锁定已被解除，是否重新加载？');
+        }
+      });
+      
+      events.addEventListener('renamed', (event) => {
+        const data = JSON.parse(event.data);
+        if (data.client !== clientId) {
+          movedPath = data.path;
+          document.getElementById('updateReloadBtn').textContent = '前往';
+          showRemoteChange('此笔记已移动到 /' + data.path + '，是否前往？');
+        }
+      });
+    }
+    
+    // 笔记被移动后前往新路径，否则重新加载当前页面
+    function reloadNote() {
+      if (movedPath) {
+        window.location.href = '/' + movedPath;
+      } else {
+        window.location.reload();
+      }
+    }
+    
+    function showRemoteChange(text) {
+      remoteChange = true;
+      clearTimeout(saveTimeout);
+      document.getElementById('updateNoticeText').textContent = text;
+      document.getElementById('updateNotice').classList.add('show');
+    }
+    
+    // 保留本地修改：恢复自动保存，之后的保存若基于旧版本将进入冲突处理
+    function dismissRemoteChange() {
+      remoteChange = false;
+      document.getElementById('updateNotice').classList.remove('show');
+      
+      if (editedDuringRemoteChange) {
+        editedDuringRemoteChange = false;
+        saveNote();
+      }
     }
     
     function showLockNotice(text) {
@@ -1442,6 +4091,53 @@ function getNoteEditorHTML(path: string): string {
       document.getElementById('lockNotice').classList.remove('show');
     }
     
+    function showAppendBar(show) {
+      // 服务器无法向加密笔记追加内容
+      document.getElementById('appendBar').classList.toggle('show', show && !noteEncrypted);
+    }
+    
+    // 追加锁定的笔记无需密码，追加后重新读取笔记内容
+    async function appendNote() {
+      const input = document.getElementById('appendInput');
+      const text = input.value;
+      
+      if (!text.trim()) {
+        showMessage('请输入要追加的内容', 'error');
+        return;
+      }
+      
+      const appendBtn = document.getElementById('appendBtn');
+      appendBtn.disabled = true;
+      
+      try {
+        const response = await fetch(noteApiUrl + '/append', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId, 'X-CSRF-Token': CSRF_TOKEN },
+          body: JSON.stringify({ text })
+        });
+        
+        if (response.ok) {
+          input.value = '';
+          const noteResponse = await fetch(noteApiUrl);
+          const data = await noteResponse.json();
+          noteVersion = data.version ?? null;
+          setEditorContent(data.content, data.html);
+          lastSavedTime = new Date();
+          updateLastSaved();
+          showMessage('内容已追加', 'success');
+        } else if (response.status === 403) {
+          showMessage('需要密码才能追加', 'error');
+        } else {
+          showMessage('追加失败', 'error');
+        }
+      } catch (error) {
+        console.error('Error appending note:', error);
+        showMessage('追加失败', 'error');
+      } finally {
+        appendBtn.disabled = false;
+      }
+    }
+    
     function showMessage(text, type = 'success') {
       const existing = document.querySelector('.message');
       if (existing) {
@@ -1477,8 +4173,8 @@ function getNoteEditorHTML(path: string): string {
       document.getElementById('unlockPassword').value = '';
       document.getElementById('unlockError').style.display = 'none';
       
-      // 如果是访问锁定且未解锁，返回首页
-      if (lockType === 'read' && !notePassword) {
+      // 如果是访问锁定且未解锁（也没有通过分享链接打开），返回首页
+      if (lockType === 'read' && !noteToken && !noteAccess) {
         window.location.href = '/';
       }
     }
@@ -1487,6 +4183,7 @@ function getNoteEditorHTML(path: string): string {
       document.getElementById('lockModal').classList.remove('show');
       document.getElementById('lockPassword').value = '';
       document.getElementById('lockPasswordConfirm').value = '';
+      document.getElementById('lockEditPassword').value = '';
     }
     
     function closeRemoveLockModal() {
@@ -1495,15 +4192,171 @@ function getNoteEditorHTML(path: string): string {
       document.getElementById('removeLockError').style.display = 'none';
     }
     
+    function showShareModal() {
+      const access = document.getElementById('shareAccess');
+      // 查看链接只用于访问锁定的笔记，持有查看密码只能生成查看链接
+      access.querySelector('option[value="view"]').disabled = lockType !== 'read';
+      access.querySelector('option[value="edit"]').disabled = noteAccess !== 'edit';
+      access.value = lockType === 'read' ? 'view' : 'edit';
+      
+      document.getElementById('shareModal').classList.add('show');
+      loadShareLinks();
+    }
+    
+    function closeShareModal() {
+      document.getElementById('shareModal').classList.remove('show');
+      document.getElementById('shareMaxUses').value = '';
+    }
+    
+    // 加载已生成的分享链接，只有持有编辑密码才能查看和撤销
+    async function loadShareLinks() {
+      const list = document.getElementById('shareList');
+      if (noteAccess !== 'edit') {
+        list.innerHTML = '<div class="history-empty">输入编辑密码后可以查看和撤销已生成的链接</div>';
+        return;
+      }
+      
+      list.innerHTML = '<div class="history-empty">加载中...</div>';
+      
+      try {
+        const response = await fetch(noteApiUrl + '/shares', {
+          headers: noteAuthHeaders()
+        });
+        
+        if (!response.ok) {
+          list.innerHTML = '<div class="history-empty">加载失败</div>';
+          return;
+        }
+        
+        const data = await response.json();
+        renderShareLinks(data.shares);
+      } catch (error) {
+        console.error('Error loading share links:', error);
+        list.innerHTML = '<div class="history-empty">加载失败</div>';
+      }
+    }
+    
+    function renderShareLinks(shares) {
+      const list = document.getElementById('shareList');
+      if (shares.length === 0) {
+        list.innerHTML = '<div class="history-empty">暂无分享链接</div>';
+        return;
+      }
+      
+      list.innerHTML = '';
+      shares.forEach((share) => {
+        const item = document.createElement('div');
+        item.className = 'share-item';
+        
+        const info = document.createElement('div');
+        info.className = 'share-item-info';
+        const title = document.createElement('div');
+        title.textContent = share.access === 'edit' ? '可以编辑' : '只能查看';
+        const meta = document.createElement('div');
+        meta.className = 'history-item-meta';
+        const expiresAt = new Date(share.expires_at.replace(' ', 'T') + 'Z');
+        meta.textContent = (expiresAt <= new Date() ? '已过期' : expiresAt.toLocaleString() + ' 到期') +
+          ' · 已使用 ' + share.use_count + (share.max_uses ? '/' + share.max_uses : '') + ' 次';
+        info.appendChild(title);
+        info.appendChild(meta);
+        
+        const copy = document.createElement('button');
+        copy.className = 'btn btn-small';
+        copy.textContent = '复制';
+        copy.onclick = () => copyShareLink(share.url);
+        
+        const revoke = document.createElement('button');
+        revoke.className = 'btn btn-small';
+        revoke.textContent = '撤销';
+        revoke.onclick = () => revokeShare(share.id);
+        
+        item.appendChild(info);
+        item.appendChild(copy);
+        item.appendChild(revoke);
+        list.appendChild(item);
+      });
+    }
+    
+    async function generateShareLink() {
+      const days = parseInt(document.getElementById('shareDays').value);
+      const maxUses = document.getElementById('shareMaxUses').value;
+      
+      try {
+        const response = await fetch(noteApiUrl + '/shares', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': CSRF_TOKEN, ...noteAuthHeaders() },
+          body: JSON.stringify({
+            access: document.getElementById('shareAccess').value,
+            expires_at: new Date(Date.now() + days * 86400000).toISOString(),
+            max_uses: maxUses ? parseInt(maxUses) : null
+          })
+        });
+        
+        if (!response.ok) {
+          showMessage(response.status === 403 ? '解锁已失效，请重新输入密码' : '生成分享链接失败', 'error');
+          return;
+        }
+        
+        const data = await response.json();
+        document.getElementById('shareMaxUses').value = '';
+        await copyShareLink(data.share.url);
+        loadShareLinks();
+      } catch (error) {
+        console.error('Error creating share link:', error);
+        showMessage('生成分享链接失败', 'error');
+      }
+    }
+    
+    async function copyShareLink(url) {
+      // 加密笔记的密钥在链接中时一并附上，否则打开者需要另外获得口令
+      const link = window.location.origin + url + (noteEncrypted && fragmentSecret() ? window.location.hash : '');
+      
+      try {
+        await navigator.clipboard.writeText(link);
+        showMessage('分享链接已复制', 'success');
+      } catch (error) {
+        prompt('复制分享链接：', link);
+      }
+    }
+    
+    async function revokeShare(id) {
+      if (!confirm('撤销后该链接将立即失效，确定继续吗？')) {
+        return;
+      }
+      
+      try {
+        const response = await fetch(noteApiUrl + '/shares/' + encodeURIComponent(id), {
+          method: 'DELETE',
+          headers: { 'X-CSRF-Token': CSRF_TOKEN, ...noteAuthHeaders() }
+        });
+        
+        if (!response.ok) {
+          showMessage('撤销分享链接失败', 'error');
+          return;
+        }
+        
+        showMessage('分享链接已撤销', 'success');
+        loadShareLinks();
+      } catch (error) {
+        console.error('Error revoking share link:', error);
+        showMessage('撤销分享链接失败', 'error');
+      }
+    }
+    
     function updateLockDescription() {
       const lockType = document.getElementById('lockType').value;
       const description = document.getElementById('lockDescription');
       
       if (lockType === 'write') {
         description.textContent = '任何人都可以查看，但需要密码才能编辑';
+      } else if (lockType === 'append') {
+        description.textContent = '任何人都可以查看和追加内容，但需要密码才能修改已有内容';
       } else {
         description.textContent = '需要密码才能查看和编辑此笔记';
       }
+      
+      document.getElementById('lockEditPasswordGroup').style.display = lockType === 'read' ? '' : 'none';
+      document.querySelector('label[for="lockPassword"]').textContent = lockType === 'read' ? '访问密码' : '设置密码';
     }
     
     // 键盘快捷键
@@ -1525,6 +4378,27 @@ function getNoteEditorHTML(path: string): string {
       }
     });
     
+    // Markdown编辑：更新预览并自动保存，粘贴或拖入的文件上传为附件
+    const markdownInput = document.getElementById('markdownInput');
+    markdownInput.addEventListener('input', () => {
+      schedulePreview();
+      scheduleAutoSave();
+    });
+    markdownInput.addEventListener('paste', (event) => {
+      const files = Array.from((event.clipboardData && event.clipboardData.files) || []);
+      if (files.length > 0) {
+        event.preventDefault();
+        insertAttachments(files);
+      }
+    });
+    markdownInput.addEventListener('drop', (event) => {
+      const files = Array.from((event.dataTransfer && event.dataTransfer.files) || []);
+      if (files.length > 0) {
+        event.preventDefault();
+        insertAttachments(files);
+      }
+    });
+    
     // Enter键提交解锁
     document.getElementById('unlockPassword').addEventListener('keydown', (e) => {
       if (e.key === 'Enter') {
@@ -1532,11 +4406,19 @@ function getNoteEditorHTML(path: string): string {
       }
     });
     
+    document.getElementById('decryptPassphrase').addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        decryptNote();
+      }
+    });
+    
     // 定期更新最后保存时间
     setInterval(updateLastSaved, 60000);
     
     // 页面加载时初始化
     loadNote();
+    loadBacklinks();
+    subscribeNoteEvents();
   </script>
 </body>
 </html>`;
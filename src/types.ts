@@ -2,25 +2,193 @@ export interface Bindings {
   DB: D1Database;
   CACHE: KVNamespace;
   STORAGE: R2Bucket;
+  NOTE_ROOMS: DurableObjectNamespace;
   ADMIN_USERNAME: string;
   ADMIN_PASSWORD: string;
   JWT_SECRET: string;
   PATH_DEFAULT_LENGTH: string;
+  PATH_STRATEGY: string;
+  PATH_ALPHABET: string;
   PATH_MIN_LENGTH: string;
   PATH_MAX_LENGTH: string;
+  PATH_MAX_DEPTH: string;
+  PATH_CASE_POLICY: string;
   RATE_LIMIT_PER_MINUTE: string;
   SESSION_DURATION: string;
+  NOTE_SESSION_DURATION: string;
+  UNLOCK_MAX_ATTEMPTS: string;
+  UNLOCK_LOCKOUT_DURATION: string;
+  REVISION_LIMIT: string;
+  ATTACHMENT_MAX_SIZE: string;
+  TRASH_RETENTION_DAYS: string;
+  CORS_ORIGINS: string;
 }
 
+// 笔记格式：Quill生成的HTML或Markdown源文本
+export type NoteFormat = 'html' | 'markdown';
+
+// 锁定类型：限制访问、限制编辑或仅允许追加
+export type LockType = 'read' | 'write' | 'append';
+
+// 解锁获得的权限：只能查看或可以编辑
+export type NoteAccessLevel = 'view' | 'edit';
+
 export interface Note {
   path: string;
   content: string;
+  format: NoteFormat;
   is_locked: boolean;
-  lock_type?: 'read' | 'write' | null;
+  lock_type?: LockType | null;
   password_hash?: string | null;
+  // 只能查看的密码，设置后 password_hash 为编辑密码
+  view_password_hash?: string | null;
+  // 端到端加密笔记，content为密文
+  encrypted?: boolean;
+  created_at: string;
+  updated_at: string;
+  view_count: number;
+  version: number;
+  expires_at?: string | null;
+  remaining_views?: number | null;
+  burn_after_reading?: boolean;
+  // Markdown笔记由服务器渲染的HTML
+  html?: string;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+}
+
+// 回收站中的笔记（不含正文），deleted_by为执行删除的管理员
+export interface TrashedNote {
+  path: string;
+  format: NoteFormat;
+  is_locked: boolean;
+  lock_type?: LockType | null;
+  created_at: string;
+  updated_at: string;
+  view_count: number;
+  deleted_at: string;
+  deleted_by: string | null;
+}
+
+export interface NoteRevision {
+  id: number;
+  path: string;
+  content: string;
+  format: NoteFormat;
+  created_at: string;
+}
+
+export interface Attachment {
+  id: string;
+  path: string;
+  filename: string;
+  content_type: string;
+  size: number;
+  created_at: string;
+}
+
+// 全文搜索结果，snippet为已转义的HTML片段，命中部分以<mark>标记
+export interface SearchResult {
+  path: string;
+  encrypted: boolean;
+  is_locked: boolean;
+  lock_type?: LockType | null;
   created_at: string;
   updated_at: string;
   view_count: number;
+  snippet: string;
+}
+
+// 文件夹（路径前缀）下的直接子笔记；访问锁定和限制查看次数的笔记不返回摘要
+export interface FolderNote {
+  path: string;
+  name: string;
+  format: NoteFormat;
+  encrypted: boolean;
+  is_locked: boolean;
+  lock_type?: LockType | null;
+  updated_at: string;
+  excerpt: string | null;
+}
+
+// 子文件夹，count为其下（包括更深层级）的笔记数量
+export interface FolderEntry {
+  path: string;
+  name: string;
+  count: number;
+}
+
+export interface FolderListing {
+  prefix: string;
+  folders: FolderEntry[];
+  notes: FolderNote[];
+}
+
+// 标签及使用该标签的笔记数量
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+// 带有某个标签的笔记
+export interface TaggedNote {
+  path: string;
+  format: NoteFormat;
+  is_locked: boolean;
+  lock_type?: LockType | null;
+  updated_at: string;
+}
+
+// 链接到某篇笔记的其他笔记
+export interface Backlink {
+  path: string;
+  updated_at: string;
+}
+
+// 指向不存在的笔记的链接
+export interface BrokenLink {
+  source: string;
+  target: string;
+}
+
+// 近期密码尝试失败较多的笔记，retry_after为该笔记仍需等待的秒数
+export interface AttackedNote {
+  path: string;
+  failures: number;
+  ips: number;
+  last_attempt: string;
+  retry_after: number;
+}
+
+// 笔记的分享链接：授予查看或编辑权限，到期或使用次数用尽后失效（max_uses为null表示不限次数）
+export interface ShareLink {
+  id: string;
+  path: string;
+  access: NoteAccessLevel;
+  expires_at: string;
+  max_uses: number | null;
+  use_count: number;
+  created_at: string;
+}
+
+// 笔记模板，content中可使用 {{date}}、{{time}}、{{datetime}}、{{path}}、{{title}} 占位符
+export interface NoteTemplate {
+  name: string;
+  description: string | null;
+  format: NoteFormat;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// 笔记变更事件，通过SSE推送给正在查看该笔记的其他客户端
+export interface NoteEvent {
+  type: 'saved' | 'locked' | 'unlocked' | 'renamed';
+  version?: number;
+  lock_type?: LockType;
+  // 笔记改名后的新路径
+  path?: string;
+  client?: string;
 }
 
 export interface AdminLog {
@@ -35,20 +203,82 @@ export interface JWTPayload {
   sub: string;
   exp: number;
   iat: number;
-  role: 'admin';
+  role: 'admin' | 'note' | 'note_session' | 'note_share' | 'csrf';
+  // 笔记会话令牌对应的锁定密码指纹
+  lock?: string;
+  // 分享链接令牌对应的链接ID
+  jti?: string;
 }
 
 export interface UnlockRequest {
   password: string;
 }
 
-export interface LockRequest {
-  password: string;
-  lock_type: 'read' | 'write';
+// 过期设置：指定时间过期、查看N次后删除或阅后即焚
+export interface ExpiryOptions {
+  expires_at?: string | null;
+  max_views?: number | null;
+  burn_after_reading?: boolean;
+}
+
+// 单密码锁定使用 password 和 lock_type；也可以分别设置查看密码和编辑密码，
+// 设置了查看密码时为访问锁定，持有查看密码只能查看
+export interface LockRequest extends ExpiryOptions {
+  password?: string;
+  lock_type?: LockType;
+  view_password?: string;
+  edit_password?: string;
+}
+
+// 生成分享链接：expires_at默认为7天后，不指定max_uses时不限使用次数
+export interface ShareRequest {
+  access: NoteAccessLevel;
+  expires_at?: string | null;
+  max_uses?: number | null;
+  password?: string;
+}
+
+export interface SaveNoteRequest extends ExpiryOptions {
+  content: string;
+  // 仅在创建笔记时生效，已有笔记通过格式转换接口修改
+  format?: NoteFormat;
+  // 内容为浏览器加密后的密文，加密与否在创建时确定，之后每次保存须保持一致
+  encrypted?: boolean;
+  password?: string;
+  base_version?: number;
+}
+
+// 追加内容：text为纯文本（Markdown笔记按Markdown源文本追加）
+export interface AppendRequest {
+  text: string;
+  // 仅在创建笔记时生效
+  format?: NoteFormat;
+  password?: string;
+}
+
+export interface RenameRequest {
+  new_path: string;
+  keep_alias?: boolean;
+  password?: string;
+}
+
+export interface TagRequest {
+  tag: string;
 }
 
-export interface SaveNoteRequest {
+export interface SaveTemplateRequest {
+  description?: string;
+  format?: NoteFormat;
   content: string;
+}
+
+export interface FormatRequest {
+  format: NoteFormat;
+  password?: string;
+  base_version?: number;
+}
+
+export interface RestoreRevisionRequest {
   password?: string;
 }
 
@@ -61,8 +291,10 @@ export interface ImportRequest {
   notes: Array<{
     path: string;
     content: string;
+    format?: NoteFormat;
     is_locked?: boolean;
-    lock_type?: 'read' | 'write';
+    lock_type?: LockType;
     password?: string;
+    encrypted?: boolean;
   }>;
 }
@@ -0,0 +1,126 @@
+import type { AttackedNote } from '../types';
+
+// 连续失败次数和允许下次尝试的时间（毫秒时间戳）
+interface AttemptRecord {
+  failures: number;
+  until: number;
+}
+
+export interface AttemptLimits {
+  maxAttempts: number;
+  lockoutDuration: number;
+}
+
+const ATTEMPT_PREFIX = 'unlock_attempts:';
+// 单篇笔记的失败阈值是单个IP的若干倍，避免一个IP就能让笔记主人无法解锁
+const NOTE_ATTEMPT_FACTOR = 4;
+// 管理后台统计最近一天内的失败记录
+const ATTACK_WINDOW = '-1 day';
+
+function noteKey(path: string): string {
+  return `${ATTEMPT_PREFIX}note:${path}`;
+}
+
+function ipKey(ip: string): string {
+  return `${ATTEMPT_PREFIX}ip:${ip}`;
+}
+
+async function readRecord(cache: KVNamespace, key: string): Promise<AttemptRecord> {
+  const value = await cache.get(key);
+  if (!value) {
+    return { failures: 0, until: 0 };
+  }
+
+  try {
+    return JSON.parse(value) as AttemptRecord;
+  } catch {
+    return { failures: 0, until: 0 };
+  }
+}
+
+function secondsUntil(until: number): number {
+  const now = Date.now();
+  return until > now ? Math.ceil((until - now) / 1000) : 0;
+}
+
+// 失败次数达到阈值后按2秒、4秒、8秒……指数退避，达到两倍阈值后临时锁定
+export function backoffSeconds(failures: number, threshold: number, lockoutDuration: number): number {
+  if (failures < threshold) {
+    return 0;
+  }
+  if (failures >= threshold * 2) {
+    return lockoutDuration;
+  }
+
+  return Math.min(2 ** (failures - threshold + 1), lockoutDuration);
+}
+
+// 距离允许再次尝试密码的秒数，笔记和IP任一处于退避或锁定中都需要等待，0表示可以尝试
+export async function unlockRetryAfter(cache: KVNamespace, path: string, ip: string): Promise<number> {
+  const [note, client] = await Promise.all([readRecord(cache, noteKey(path)), readRecord(cache, ipKey(ip))]);
+
+  return secondsUntil(Math.max(note.until, client.until));
+}
+
+// 记录一次密码错误并写入管理日志，返回下次尝试前需要等待的秒数。
+// 计数在最后一次失败后保留一个锁定时长，期间没有新的失败才会清零
+export async function recordUnlockFailure(
+  db: D1Database,
+  cache: KVNamespace,
+  path: string,
+  ip: string,
+  limits: AttemptLimits
+): Promise<number> {
+  const scopes = [
+    { key: noteKey(path), threshold: limits.maxAttempts * NOTE_ATTEMPT_FACTOR, label: 'note' },
+    { key: ipKey(ip), threshold: limits.maxAttempts, label: `ip ${ip}` }
+  ];
+  let wait = 0;
+
+  await db.prepare(
+    'INSERT INTO admin_logs (action, target_path, details) VALUES (?, ?, ?)'
+  ).bind('unlock_failed', path, ip).run();
+
+  for (const scope of scopes) {
+    const failures = (await readRecord(cache, scope.key)).failures + 1;
+    const delay = backoffSeconds(failures, scope.threshold, limits.lockoutDuration);
+
+    await cache.put(scope.key, JSON.stringify({ failures, until: Date.now() + delay * 1000 }), {
+      expirationTtl: Math.max(limits.lockoutDuration, 60)
+    });
+
+    // 刚进入临时锁定时记录一次
+    if (failures === scope.threshold * 2) {
+      await db.prepare(
+        'INSERT INTO admin_logs (action, target_path, details) VALUES (?, ?, ?)'
+      ).bind('unlock_lockout', path, `Locked ${scope.label} for ${limits.lockoutDuration}s after ${failures} failures`).run();
+    }
+
+    wait = Math.max(wait, delay);
+  }
+
+  return wait;
+}
+
+// 密码正确后清除该IP的失败计数；笔记的计数保留，攻击者无法借助主人的成功解锁重置
+export async function clearUnlockFailures(cache: KVNamespace, ip: string): Promise<void> {
+  await cache.delete(ipKey(ip));
+}
+
+// 最近一天内密码尝试失败达到阈值的笔记，按失败次数排序
+export async function listAttackedNotes(db: D1Database, cache: KVNamespace, limits: AttemptLimits): Promise<AttackedNote[]> {
+  const { results } = await db.prepare(
+    `SELECT target_path AS path, COUNT(*) AS failures, COUNT(DISTINCT details) AS ips, MAX(timestamp) AS last_attempt
+     FROM admin_logs
+     WHERE action = 'unlock_failed' AND timestamp > datetime('now', ?)
+     GROUP BY target_path
+     HAVING COUNT(*) >= ?
+     ORDER BY failures DESC
+     LIMIT 50`
+  ).bind(ATTACK_WINDOW, limits.maxAttempts).all<Omit<AttackedNote, 'retry_after'>>();
+
+  return Promise.all(results.map(async (note) => ({
+    ...note,
+    retry_after: secondsUntil((await readRecord(cache, noteKey(note.path))).until)
+  })));
+}
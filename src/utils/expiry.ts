@@ -0,0 +1,125 @@
+import type { ExpiryOptions } from '../types';
+
+export interface NoteExpiry {
+  expires_at: string | null;
+  remaining_views: number | null;
+  burn_after_reading: boolean;
+}
+
+// 最多允许设置的查看次数
+const MAX_VIEWS_LIMIT = 1000;
+
+export function hasExpiryOptions(options: ExpiryOptions): boolean {
+  return options.expires_at !== undefined || options.max_views !== undefined || options.burn_after_reading !== undefined;
+}
+
+// 解析过期设置；过期时间须为将来的时间，查看次数须为正整数，无效时返回null
+export function parseExpiry(options: ExpiryOptions): NoteExpiry | null {
+  let expiresAt: string | null = null;
+  if (options.expires_at) {
+    const date = new Date(options.expires_at);
+    if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+      return null;
+    }
+    // 与SQLite的CURRENT_TIMESTAMP格式一致（UTC），便于在SQL中比较
+    expiresAt = date.toISOString().slice(0, 19).replace('T', ' ');
+  }
+
+  if (options.burn_after_reading) {
+    return { expires_at: expiresAt, remaining_views: 1, burn_after_reading: true };
+  }
+
+  let remainingViews: number | null = null;
+  if (options.max_views !== undefined && options.max_views !== null) {
+    if (!Number.isInteger(options.max_views) || options.max_views < 1 || options.max_views > MAX_VIEWS_LIMIT) {
+      return null;
+    }
+    remainingViews = options.max_views;
+  }
+
+  return { expires_at: expiresAt, remaining_views: remainingViews, burn_after_reading: false };
+}
+
+export function isExpired(note: { expires_at?: string | null; remaining_views?: number | null }): boolean {
+  if (isViewLimited(note) && note.remaining_views! <= 0) {
+    return true;
+  }
+
+  return !!note.expires_at && new Date(note.expires_at.replace(' ', 'T') + 'Z').getTime() <= Date.now();
+}
+
+export function isViewLimited(note: { remaining_views?: number | null }): boolean {
+  return note.remaining_views !== null && note.remaining_views !== undefined;
+}
+
+// 保存过期设置；限制查看次数的笔记不保留修订历史，避免绕过次数限制读取内容
+export async function setExpiry(db: D1Database, path: string, expiry: NoteExpiry): Promise<void> {
+  await db.prepare(
+    'UPDATE notes SET expires_at = ?, remaining_views = ?, burn_after_reading = ? WHERE path = ?'
+  ).bind(expiry.expires_at, expiry.remaining_views, expiry.burn_after_reading ? 1 : 0, path).run();
+
+  if (expiry.remaining_views !== null) {
+    await db.prepare('DELETE FROM note_revisions WHERE path = ?').bind(path).run();
+  }
+}
+
+// 消耗一次查看次数，返回剩余次数；次数已用完（被其他请求抢先读取）时返回null
+async function consumeView(db: D1Database, path: string): Promise<number | null> {
+  const result = await db.prepare(
+    'UPDATE notes SET view_count = view_count + 1, remaining_views = remaining_views - 1 WHERE path = ? AND remaining_views > 0'
+  ).bind(path).run();
+
+  if (!result.meta.changes) {
+    return null;
+  }
+
+  const note = await db.prepare(
+    'SELECT remaining_views FROM notes WHERE path = ?'
+  ).bind(path).first<{ remaining_views: number }>();
+
+  return note?.remaining_views ?? 0;
+}
+
+// 读取限制查看次数的笔记：消耗一次查看次数，最后一次读取后立即删除；
+// 次数已用完时返回null
+export async function readViewLimitedNote<T extends { path: string; view_count: number }>(
+  db: D1Database,
+  cache: KVNamespace,
+  note: T
+): Promise<T | null> {
+  const remaining = await consumeView(db, note.path);
+
+  if (remaining === null || remaining <= 0) {
+    await purgeNote(db, cache, note.path);
+  }
+
+  if (remaining === null) {
+    return null;
+  }
+
+  return { ...note, view_count: note.view_count + 1, remaining_views: remaining };
+}
+
+// 彻底删除笔记及其修订历史、别名、标签、出链、分享链接和缓存，不留下过期内容的副本
+export async function purgeNote(db: D1Database, cache: KVNamespace, path: string): Promise<void> {
+  await db.prepare('DELETE FROM notes WHERE path = ?').bind(path).run();
+  await db.prepare('DELETE FROM note_revisions WHERE path = ?').bind(path).run();
+  await db.prepare('DELETE FROM note_aliases WHERE target = ?').bind(path).run();
+  await db.prepare('DELETE FROM note_tags WHERE path = ?').bind(path).run();
+  await db.prepare('DELETE FROM note_links WHERE source = ?').bind(path).run();
+  await db.prepare('DELETE FROM share_links WHERE path = ?').bind(path).run();
+  await cache.delete(`note:${path}`);
+}
+
+// 定时任务：清理所有已过期的笔记，返回清理数量
+export async function purgeExpiredNotes(db: D1Database, cache: KVNamespace): Promise<number> {
+  const { results } = await db.prepare(
+    'SELECT path FROM notes WHERE expires_at <= CURRENT_TIMESTAMP OR remaining_views <= 0'
+  ).all<{ path: string }>();
+
+  for (const note of results) {
+    await purgeNote(db, cache, note.path);
+  }
+
+  return results.length;
+}
@@ -0,0 +1,52 @@
+import type { FolderEntry, FolderListing, FolderNote, Note } from '../types';
+import { noteText } from './text';
+import { isExpired, isViewLimited } from './expiry';
+import { pathKey } from './crypto';
+
+const EXCERPT_LENGTH = 120;
+
+// 列出路径前缀下的直接子笔记和子文件夹（不包括回收站中和已过期的笔记），
+// 不区分大小写时按查找键匹配前缀
+export async function listFolder(db: D1Database, prefix: string, caseInsensitive: boolean = false): Promise<FolderListing> {
+  const column = caseInsensitive ? 'path_key' : 'path';
+  const start = `${caseInsensitive ? pathKey(prefix) : prefix}/`;
+  const { results } = await db.prepare(
+    `SELECT path, content, format, encrypted, is_locked, lock_type, updated_at, expires_at, remaining_views
+     FROM notes WHERE substr(${column}, 1, ?) = ? AND deleted_at IS NULL ORDER BY path`
+  ).bind(start.length, start).all<Note>();
+  const depth = prefix.split('/').length;
+
+  const folders = new Map<string, FolderEntry>();
+  const notes: FolderNote[] = [];
+
+  for (const note of results) {
+    if (isExpired(note)) {
+      continue;
+    }
+
+    const segments = note.path.split('/');
+    const name = segments[depth];
+
+    if (segments.length > depth + 1) {
+      const folder = folders.get(name) || { path: segments.slice(0, depth + 1).join('/'), name, count: 0 };
+      folder.count++;
+      folders.set(name, folder);
+      continue;
+    }
+
+    // 访问锁定、限制查看次数的笔记不能通过列表读取内容，加密笔记没有可显示的摘要
+    const hidden = (note.is_locked && note.lock_type === 'read') || isViewLimited(note) || !!note.encrypted;
+    notes.push({
+      path: note.path,
+      name,
+      format: note.format,
+      encrypted: !!note.encrypted,
+      is_locked: !!note.is_locked,
+      lock_type: note.lock_type || null,
+      updated_at: note.updated_at,
+      excerpt: hidden ? null : noteText(note.content || '', note.format).slice(0, EXCERPT_LENGTH)
+    });
+  }
+
+  return { prefix, folders: [...folders.values()], notes };
+}
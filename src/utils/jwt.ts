@@ -31,6 +31,96 @@ export async function verifyJWT(token: string, secret: string): Promise<JWTPaylo
   }
 }
 
+// 笔记访问令牌：解锁访问锁定的笔记后下发，用于读取附件等无法携带密码请求头的请求
+export async function createNoteAccessToken(secret: string, path: string, duration: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const secretKey = encoder.encode(secret);
+  
+  return new SignJWT({ 
+    sub: path,
+    role: 'note' as const
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(`${duration}s`)
+    .sign(secretKey);
+}
+
+export async function verifyNoteAccessToken(token: string, secret: string, path: string): Promise<boolean> {
+  const payload = await verifyJWT(token, secret);
+  return !!payload && payload.role === 'note' && payload.sub === path;
+}
+
+// 笔记会话令牌：解锁或设置锁定后下发，之后的保存等请求用它代替密码，无需每次重新验证密码。
+// 令牌记录密码哈希的指纹，修改或解除锁定后旧令牌随即失效
+export async function createNoteSessionToken(secret: string, path: string, passwordHash: string, duration: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const secretKey = encoder.encode(secret);
+  
+  return new SignJWT({ 
+    sub: path,
+    role: 'note_session' as const,
+    lock: await lockFingerprint(passwordHash)
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(`${duration}s`)
+    .sign(secretKey);
+}
+
+export async function verifyNoteSessionToken(token: string, secret: string, path: string, passwordHash: string): Promise<boolean> {
+  const payload = await verifyJWT(token, secret);
+  return !!payload && payload.role === 'note_session' && payload.sub === path && payload.lock === await lockFingerprint(passwordHash);
+}
+
+async function lockFingerprint(passwordHash: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(passwordHash));
+  return btoa(String.fromCharCode(...new Uint8Array(digest).slice(0, 16)));
+}
+
+// 分享链接令牌：持有密码的用户为笔记生成的链接中携带，jti为分享链接ID，过期时间与链接一致。
+// 链接的路径、权限和使用次数以数据库记录为准，撤销链接即删除记录
+export async function createShareToken(secret: string, path: string, id: string, expiresAt: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const secretKey = encoder.encode(secret);
+  
+  return new SignJWT({ 
+    sub: path,
+    role: 'note_share' as const
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setJti(id)
+    .setIssuedAt()
+    .setExpirationTime(expiresAt)
+    .sign(secretKey);
+}
+
+// 验证分享链接令牌，返回分享链接ID
+export async function verifyShareToken(token: string, secret: string): Promise<string | null> {
+  const payload = await verifyJWT(token, secret);
+  return payload && payload.role === 'note_share' && payload.jti ? payload.jti : null;
+}
+
+// CSRF令牌：打开笔记页面时嵌入页面并写入Cookie，修改笔记的请求需在请求头中带上与Cookie相同的令牌
+export async function createCsrfToken(secret: string, duration: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const secretKey = encoder.encode(secret);
+  
+  return new SignJWT({ 
+    role: 'csrf' as const
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setJti(crypto.randomUUID())
+    .setIssuedAt()
+    .setExpirationTime(`${duration}s`)
+    .sign(secretKey);
+}
+
+export async function verifyCsrfToken(token: string, secret: string): Promise<boolean> {
+  const payload = await verifyJWT(token, secret);
+  return !!payload && payload.role === 'csrf';
+}
+
 export function extractToken(authorization: string | undefined): string | null {
   if (!authorization) return null;
   
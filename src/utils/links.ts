@@ -0,0 +1,104 @@
+import type { Backlink, BrokenLink, NoteFormat } from '../types';
+import { noteText } from './text';
+import { pathKey } from './crypto';
+
+// [[路径]] 或 [[路径|显示文字]]
+export const WIKI_LINK = /\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g;
+
+const MAX_TARGET_LENGTH = 200;
+const MAX_LINKS_PER_NOTE = 500;
+
+// 链接写法对应的笔记路径：去掉首尾空白和斜杠并NFC规范化，无效时返回null
+export function wikiLinkTarget(raw: string): string | null {
+  const target = raw.trim().normalize('NFC').replace(/^\/+|\/+$/g, '');
+  if (!target || target.length > MAX_TARGET_LENGTH) {
+    return null;
+  }
+
+  return target;
+}
+
+// 笔记页面地址，每段分别编码
+export function wikiLinkHref(target: string): string {
+  return '/' + target.split('/').map(encodeURIComponent).join('/');
+}
+
+// 从笔记内容中提取链接目标（去重，保持出现顺序）
+export function extractLinks(content: string, format: NoteFormat): string[] {
+  const targets = new Set<string>();
+
+  for (const match of noteText(content, format).matchAll(WIKI_LINK)) {
+    const target = wikiLinkTarget(match[1]);
+    if (target) {
+      targets.add(target);
+    }
+    if (targets.size >= MAX_LINKS_PER_NOTE) {
+      break;
+    }
+  }
+
+  return [...targets];
+}
+
+// 根据笔记当前内容重建其出链，笔记不存在或已加密时清空
+export async function updateNoteLinks(db: D1Database, path: string) {
+  const note = await db.prepare(
+    'SELECT content, format, encrypted FROM notes WHERE path = ?'
+  ).bind(path).first<{ content: string | null; format: NoteFormat; encrypted: boolean }>();
+
+  await db.prepare('DELETE FROM note_links WHERE source = ?').bind(path).run();
+
+  for (const target of note && !note.encrypted ? extractLinks(note.content || '', note.format) : []) {
+    await db.prepare(
+      'INSERT OR IGNORE INTO note_links (source, target, target_key) VALUES (?, ?, ?)'
+    ).bind(path, target, pathKey(target)).run();
+  }
+}
+
+// 重建全部笔记的出链，用于升级已有数据库
+export async function rebuildNoteLinks(db: D1Database): Promise<number> {
+  const { results } = await db.prepare('SELECT path FROM notes').all<{ path: string }>();
+
+  for (const note of results) {
+    await updateNoteLinks(db, note.path);
+  }
+
+  return results.length;
+}
+
+// 链接到某个路径的笔记，包括链接到指向该笔记的别名的笔记。
+// 访问锁定和限制查看次数的笔记不列出，以免泄露其内容中的链接
+export async function getBacklinks(db: D1Database, path: string, caseInsensitive: boolean = false): Promise<Backlink[]> {
+  const { results } = await db.prepare(
+    `SELECT DISTINCT n.path, n.updated_at
+     FROM note_links l JOIN notes n ON n.path = l.source
+     WHERE (l.target = ? OR (? AND l.target_key = ?) OR l.target IN (SELECT path FROM note_aliases WHERE target = ?))
+       AND n.path != ?
+       AND n.deleted_at IS NULL
+       AND (n.expires_at IS NULL OR n.expires_at > CURRENT_TIMESTAMP)
+       AND n.remaining_views IS NULL
+       AND NOT (n.is_locked AND n.lock_type IS 'read')
+     ORDER BY n.updated_at DESC`
+  ).bind(path, caseInsensitive ? 1 : 0, pathKey(path), path, path).all<Backlink>();
+
+  return results;
+}
+
+// 指向不存在的笔记（也不是别名）的链接，来源为回收站中的笔记时不列出
+export async function listBrokenLinks(db: D1Database, caseInsensitive: boolean = false): Promise<BrokenLink[]> {
+  const { results } = await db.prepare(
+    `SELECT l.source, l.target
+     FROM note_links l JOIN notes s ON s.path = l.source
+     WHERE s.deleted_at IS NULL
+       AND NOT EXISTS (
+         SELECT 1 FROM notes n
+         WHERE (n.path = l.target OR (? AND n.path_key = l.target_key))
+           AND n.deleted_at IS NULL
+           AND (n.expires_at IS NULL OR n.expires_at > CURRENT_TIMESTAMP)
+       )
+       AND NOT EXISTS (SELECT 1 FROM note_aliases a WHERE a.path = l.target)
+     ORDER BY l.target, l.source`
+  ).bind(caseInsensitive ? 1 : 0).all<BrokenLink>();
+
+  return results;
+}
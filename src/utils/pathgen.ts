@@ -0,0 +1,74 @@
+import { DEFAULT_PATH_ALPHABET, generateRandomPath, randomIndex } from './crypto';
+import { isPathTaken } from './rename';
+import { ADJECTIVES, NOUNS } from './wordlist';
+
+// 新路径生成策略：random 随机字符，words 形容词-名词 单词组合，date 日期前缀加随机后缀
+export type PathStrategy = 'random' | 'words' | 'date';
+
+export interface PathGeneratorOptions {
+  strategy: PathStrategy;
+  alphabet: string;
+  length: number;
+  minLength: number;
+  maxLength: number;
+}
+
+// 连续冲突达到此次数后路径长度加一
+const GROW_AFTER = 3;
+const MAX_ATTEMPTS = 64;
+const DATE_PREFIX_LENGTH = 'YYYY-MM-DD-'.length;
+
+export function parsePathStrategy(value: string | undefined): PathStrategy {
+  return value === 'words' || value === 'date' ? value : 'random';
+}
+
+// 自定义字符集只保留可以出现在路径中的字母、数字、- 和 _，去重后不足两个字符时使用默认字符集
+export function parsePathAlphabet(value: string | undefined): string {
+  const chars = new Set([...(value || '').normalize('NFC')].filter((ch) => /^[\p{L}\p{N}_-]$/u.test(ch)));
+  return chars.size >= 2 ? [...chars].join('') : DEFAULT_PATH_ALPHABET;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function randomPath(options: PathGeneratorOptions, growth: number): string {
+  const length = clamp(options.length + growth, options.minLength, options.maxLength);
+  return generateRandomPath(length, options.alphabet);
+}
+
+// 按策略生成一个路径，growth 为因冲突增加的长度。生成结果超出长度限制时退回随机字符
+export function generatePath(options: PathGeneratorOptions, growth: number = 0): string {
+  if (options.strategy === 'words') {
+    let path = `${ADJECTIVES[randomIndex(ADJECTIVES.length)]}-${NOUNS[randomIndex(NOUNS.length)]}`;
+    if (growth > 0) {
+      path += `-${generateRandomPath(growth, options.alphabet)}`;
+    }
+
+    const length = [...path].length;
+    if (length >= options.minLength && length <= options.maxLength) {
+      return path;
+    }
+  }
+
+  if (options.strategy === 'date' && options.maxLength > DATE_PREFIX_LENGTH) {
+    const suffixLength = clamp(options.length + growth, 1, options.maxLength - DATE_PREFIX_LENGTH);
+    const date = new Date().toISOString().slice(0, 10);
+    return `${date}-${generateRandomPath(suffixLength, options.alphabet)}`;
+  }
+
+  return randomPath(options, growth);
+}
+
+// 生成未被占用的路径，冲突较多时自动加长路径；超过最大尝试次数仍未找到时返回null
+export async function generateUniquePath(db: D1Database, options: PathGeneratorOptions, caseInsensitive: boolean = false): Promise<string | null> {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const path = generatePath(options, Math.floor(attempt / GROW_AFTER));
+
+    if (!await isPathTaken(db, path, caseInsensitive)) {
+      return path;
+    }
+  }
+
+  return null;
+}
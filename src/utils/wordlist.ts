@@ -0,0 +1,31 @@
+// words 路径生成策略使用的词表：简短、易读的英文小写单词，组合为 形容词-名词
+
+export const ADJECTIVES = [
+  'able', 'agile', 'amber', 'azure', 'bold', 'brave', 'breezy', 'bright', 'brisk',
+  'bubbly', 'calm', 'candid', 'cheeky', 'cheery', 'chilly', 'clever', 'cosmic', 'cozy',
+  'crafty', 'crisp', 'curly', 'dapper', 'daring', 'dreamy', 'dusty', 'eager', 'early',
+  'fancy', 'fast', 'fresh', 'frosty', 'funny', 'fuzzy', 'gentle', 'giant', 'glad',
+  'golden', 'grand', 'happy', 'hardy', 'hasty', 'hidden', 'humble', 'jazzy', 'jolly',
+  'keen', 'kind', 'lively', 'lucky', 'lunar', 'mellow', 'merry', 'mighty', 'minty',
+  'misty', 'modest', 'neat', 'nimble', 'noble', 'plucky', 'polite', 'proud', 'quick',
+  'quiet', 'rapid', 'ready', 'rocky', 'rosy', 'royal', 'rugged', 'rusty', 'sandy',
+  'sharp', 'shiny', 'silent', 'silver', 'simple', 'sleek', 'sleepy', 'sly', 'smart',
+  'snowy', 'snug', 'solar', 'sonic', 'spicy', 'steady', 'stormy', 'sturdy', 'sunlit',
+  'sunny', 'super', 'swift', 'tender', 'tidy', 'tiny', 'topaz', 'urban', 'velvet',
+  'vivid', 'warm', 'wavy', 'wild', 'windy', 'wise', 'witty', 'young', 'zesty'
+];
+
+export const NOUNS = [
+  'acorn', 'anchor', 'apple', 'arrow', 'badger', 'bamboo', 'beacon', 'bear', 'beaver',
+  'bison', 'breeze', 'brook', 'cactus', 'camel', 'canyon', 'cedar', 'cherry', 'cloud',
+  'comet', 'coral', 'cove', 'crane', 'cricket', 'daisy', 'delta', 'dingo', 'dolphin',
+  'dragon', 'eagle', 'ember', 'falcon', 'fern', 'finch', 'forest', 'fox', 'galaxy',
+  'garden', 'gecko', 'glacier', 'goose', 'harbor', 'hawk', 'heron', 'hill', 'island',
+  'jaguar', 'kayak', 'kettle', 'koala', 'lagoon', 'lantern', 'lemon', 'lily', 'lizard',
+  'lotus', 'maple', 'meadow', 'meteor', 'moose', 'nebula', 'oasis', 'ocean', 'orchid',
+  'otter', 'owl', 'panda', 'parrot', 'pebble', 'pepper', 'pigeon', 'pine', 'planet',
+  'pony', 'puffin', 'quartz', 'rabbit', 'raven', 'reef', 'river', 'robin', 'rocket',
+  'salmon', 'sparrow', 'spruce', 'squid', 'star', 'stone', 'storm', 'summit', 'swan',
+  'tiger', 'toucan', 'tulip', 'turtle', 'valley', 'walrus', 'whale', 'willow', 'wombat',
+  'yak', 'zebra'
+];